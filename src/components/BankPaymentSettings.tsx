@@ -0,0 +1,153 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+interface BankPaymentSettingsProps {
+  companyId: string | null;
+}
+
+const emptyForm = () => ({
+  bank_payments_enabled: false,
+  bank_payment_min_amount: "",
+});
+
+export const BankPaymentSettings = ({ companyId }: BankPaymentSettingsProps) => {
+  const [formData, setFormData] = useState(emptyForm());
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const fetchSettings = async () => {
+    if (!companyId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('company_billing_settings')
+        .select('bank_payments_enabled, bank_payment_min_amount')
+        .eq('company_id', companyId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (data) {
+        setFormData({
+          bank_payments_enabled: data.bank_payments_enabled,
+          bank_payment_min_amount: data.bank_payment_min_amount != null ? String(data.bank_payment_min_amount) : "",
+        });
+      }
+    } catch (error) {
+      console.error('Failed to fetch bank payment settings:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchSettings();
+  }, [companyId]);
+
+  const saveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!companyId) return;
+
+    const minAmount = formData.bank_payment_min_amount ? parseFloat(formData.bank_payment_min_amount) : null;
+
+    if (minAmount !== null && (isNaN(minAmount) || minAmount < 0)) {
+      toast({
+        title: "Error",
+        description: "Minimum amount can't be negative",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('company_billing_settings')
+        .upsert({
+          company_id: companyId,
+          bank_payments_enabled: formData.bank_payments_enabled,
+          bank_payment_min_amount: minAmount,
+        }, { onConflict: 'company_id' });
+
+      if (error) {
+        console.error('Error saving bank payment settings:', error);
+        throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: !formData.bank_payments_enabled
+          ? "Bank payments are off"
+          : minAmount !== null
+            ? `Clients can pay by bank on jobs of $${minAmount.toFixed(2)} or more`
+            : "Clients can pay by bank on jobs you allow it for",
+      });
+      fetchSettings();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save bank payment settings",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!companyId) {
+    return (
+      <p className="text-sm text-gray-500">
+        Generate a Company ID before setting up bank payments.
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={saveSettings} className="space-y-3">
+      <div className="flex items-center space-x-2">
+        <Switch
+          id="bank_payments_enabled"
+          checked={formData.bank_payments_enabled}
+          onCheckedChange={(checked) => setFormData({ ...formData, bank_payments_enabled: checked })}
+        />
+        <Label htmlFor="bank_payments_enabled" className="text-sm">
+          Let clients pay by US bank account (ACH)
+        </Label>
+      </div>
+
+      {formData.bank_payments_enabled && (
+        <>
+          <div>
+            <Label htmlFor="bank_payment_min_amount">Offer on Jobs of at Least ($)</Label>
+            <Input
+              id="bank_payment_min_amount"
+              type="number"
+              step="0.01"
+              min="0"
+              value={formData.bank_payment_min_amount}
+              onChange={(e) => setFormData({ ...formData, bank_payment_min_amount: e.target.value })}
+              placeholder="Only jobs you allow it for"
+              className="mt-1"
+            />
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Bank payments carry a lower processing fee but take a few business days to clear. Jobs show as processing until the funds arrive. You can also allow bank payment on individual jobs.
+          </p>
+        </>
+      )}
+
+      <Button
+        type="submit"
+        size="sm"
+        disabled={saving}
+        className="bg-blue-600 hover:bg-blue-700"
+      >
+        {saving ? "Saving..." : "Save Bank Payments"}
+      </Button>
+    </form>
+  );
+};
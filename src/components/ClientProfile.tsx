@@ -3,23 +3,40 @@ import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, Phone, Mail, MapPin, DollarSign } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ArrowLeft, Phone, Mail, MapPin, DollarSign, CreditCard, Pencil, Gift, Tag } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { PaymentTermsSelect } from "./PaymentTermsSelect";
+import { formatCurrency } from "@/utils/currency";
+import { CreateClientDialog } from "./CreateClientDialog";
+import { IssueCreditDialog } from "./IssueCreditDialog";
 
 interface Client {
   id: string;
+  company_id: string;
   name: string;
   email: string;
   phone: string;
   address: string;
+  payment_terms_days: number | null;
+  currency: string | null;
+  discount_percentage: number | null;
+  stripe_payment_method_id: string | null;
+  card_brand: string | null;
+  card_last4: string | null;
+  autopay_enabled: boolean;
 }
 
 interface Job {
   id: string;
+  company_id: string;
+  client_id: string;
   title: string;
   job_name: string | null;
   price: number;
+  currency: string;
   scheduled_date: string;
   status: 'pending' | 'paid' | 'completed' | 'test' | null;
   payments: Payment[];
@@ -31,6 +48,19 @@ interface Payment {
   payment_status: string;
   paid_at: string | null;
   payment_method: string | null;
+  currency: string;
+}
+
+interface CreditNote {
+  id: string;
+  amount: number;
+  currency: string;
+  reason: string;
+  created_at: string;
+  jobs: {
+    title: string;
+    job_name: string | null;
+  } | null;
 }
 
 interface ClientProfileProps {
@@ -42,6 +72,12 @@ export const ClientProfile = ({ clientId, onBack }: ClientProfileProps) => {
   const [client, setClient] = useState<Client | null>(null);
   const [jobs, setJobs] = useState<Job[]>([]);
   const [loading, setLoading] = useState(true);
+  const [paymentTermsDays, setPaymentTermsDays] = useState<number | null>(null);
+  const [savingTerms, setSavingTerms] = useState(false);
+  const [savingCard, setSavingCard] = useState(false);
+  const [showEditDialog, setShowEditDialog] = useState(false);
+  const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
+  const [creditJob, setCreditJob] = useState<Job | null>(null);
   const { toast } = useToast();
 
   const fetchClientData = async () => {
@@ -54,6 +90,7 @@ export const ClientProfile = ({ clientId, onBack }: ClientProfileProps) => {
 
       if (clientError) throw clientError;
       setClient(clientData);
+      setPaymentTermsDays(clientData.payment_terms_days);
 
       const { data: jobsData, error: jobsError } = await supabase
         .from('jobs')
@@ -73,6 +110,15 @@ export const ClientProfile = ({ clientId, onBack }: ClientProfileProps) => {
       })) as Job[];
       
       setJobs(typedJobs);
+
+      const { data: creditData, error: creditError } = await supabase
+        .from('credit_notes')
+        .select('id, amount, currency, reason, created_at, jobs(title, job_name)')
+        .eq('client_id', clientId)
+        .order('created_at', { ascending: false });
+
+      if (creditError) throw creditError;
+      setCreditNotes(creditData || []);
     } catch (error: any) {
       toast({
         title: "Error",
@@ -88,6 +134,60 @@ export const ClientProfile = ({ clientId, onBack }: ClientProfileProps) => {
     fetchClientData();
   }, [clientId]);
 
+  const savePaymentTerms = async () => {
+    setSavingTerms(true);
+    try {
+      const { error } = await supabase
+        .from('clients')
+        .update({ payment_terms_days: paymentTermsDays })
+        .eq('id', clientId);
+
+      if (error) throw error;
+
+      setClient(prev => prev ? { ...prev, payment_terms_days: paymentTermsDays } : prev);
+      toast({
+        title: "Success",
+        description: "Payment terms updated for new jobs",
+      });
+    } catch (error) {
+      console.error('Failed to update payment terms:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update payment terms",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingTerms(false);
+    }
+  };
+
+  const updateSavedCard = async (updates: Partial<Client>, successMessage: string) => {
+    setSavingCard(true);
+    try {
+      const { error } = await supabase
+        .from('clients')
+        .update(updates)
+        .eq('id', clientId);
+
+      if (error) throw error;
+
+      setClient(prev => prev ? { ...prev, ...updates } : prev);
+      toast({
+        title: "Success",
+        description: successMessage,
+      });
+    } catch (error) {
+      console.error('Failed to update saved card:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update saved card",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingCard(false);
+    }
+  };
+
   const getStatusColor = (status: string | null) => {
     switch (status) {
       case 'paid':
@@ -101,10 +201,27 @@ export const ClientProfile = ({ clientId, onBack }: ClientProfileProps) => {
     }
   };
 
+  // Totals per currency, since a client's older jobs may be billed in another currency
   const calculateTotalRevenue = () => {
-    return jobs
+    const totals = new Map<string, number>();
+    jobs
       .filter(job => job.status === 'paid')
-      .reduce((total, job) => total + job.price, 0);
+      .forEach(job => totals.set(job.currency, (totals.get(job.currency) || 0) + job.price));
+
+    return totals.size === 0
+      ? formatCurrency(0, client?.currency)
+      : Array.from(totals.entries()).map(([currency, total]) => formatCurrency(total, currency)).join(' · ');
+  };
+
+  // Credit issued less credit already spent on jobs, per currency, in cents
+  const calculateCreditBalances = () => {
+    const balances = new Map<string, number>();
+    creditNotes.forEach(note => balances.set(note.currency, (balances.get(note.currency) || 0) + note.amount));
+    jobs.forEach(job => job.payments
+      .filter(payment => payment.payment_method === 'credit' && payment.payment_status === 'paid')
+      .forEach(payment => balances.set(payment.currency, (balances.get(payment.currency) || 0) - payment.amount)));
+
+    return Array.from(balances.entries()).filter(([, balance]) => balance > 0);
   };
 
   if (loading) {
@@ -115,6 +232,8 @@ export const ClientProfile = ({ clientId, onBack }: ClientProfileProps) => {
     return <div className="flex justify-center p-8">Client not found</div>;
   }
 
+  const creditBalances = calculateCreditBalances();
+
   return (
     <div className="space-y-6">
       <div className="flex items-center gap-4">
@@ -130,7 +249,13 @@ export const ClientProfile = ({ clientId, onBack }: ClientProfileProps) => {
 
       <Card>
         <CardHeader>
-          <CardTitle>Contact Information</CardTitle>
+          <div className="flex items-center justify-between">
+            <CardTitle>Contact Information</CardTitle>
+            <Button variant="outline" size="sm" onClick={() => setShowEditDialog(true)}>
+              <Pencil className="w-4 h-4 mr-2" />
+              Edit
+            </Button>
+          </div>
         </CardHeader>
         <CardContent className="space-y-3">
           <div className="flex items-center gap-2 text-sm">
@@ -151,11 +276,118 @@ export const ClientProfile = ({ clientId, onBack }: ClientProfileProps) => {
           )}
           <div className="flex items-center gap-2 text-sm font-medium text-green-600">
             <DollarSign className="w-4 h-4" />
-            <span>Total Revenue: ${calculateTotalRevenue().toFixed(2)}</span>
+            <span>Total Revenue: {calculateTotalRevenue()}</span>
+          </div>
+          {client.discount_percentage && (
+            <div className="flex items-center gap-2 text-sm">
+              <Tag className="w-4 h-4 text-gray-500" />
+              <span>Standing discount: {Number(client.discount_percentage)}% off new jobs</span>
+            </div>
+          )}
+          <div className="pt-2 max-w-xs">
+            <Label htmlFor="client_payment_terms" className="text-sm">Payment Terms</Label>
+            <PaymentTermsSelect
+              id="client_payment_terms"
+              value={paymentTermsDays}
+              onChange={setPaymentTermsDays}
+              defaultLabel="Company default"
+            />
+            {paymentTermsDays !== client.payment_terms_days && (
+              <Button
+                size="sm"
+                onClick={savePaymentTerms}
+                disabled={savingTerms}
+                className="mt-2 bg-blue-600 hover:bg-blue-700"
+              >
+                {savingTerms ? "Saving..." : "Save Payment Terms"}
+              </Button>
+            )}
+          </div>
+          <div className="pt-2 border-t">
+            <Label className="text-sm">Saved Card</Label>
+            {client.stripe_payment_method_id ? (
+              <div className="mt-1 space-y-2">
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <span className="flex items-center gap-2">
+                    <CreditCard className="w-4 h-4 text-gray-500" />
+                    <span className="capitalize">{client.card_brand || 'Card'}</span> •••• {client.card_last4}
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => updateSavedCard(
+                      { stripe_payment_method_id: null, card_brand: null, card_last4: null, autopay_enabled: false },
+                      "Saved card removed"
+                    )}
+                    disabled={savingCard}
+                  >
+                    Remove
+                  </Button>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="autopay_enabled"
+                    checked={client.autopay_enabled}
+                    disabled={savingCard}
+                    onCheckedChange={(checked) => updateSavedCard(
+                      { autopay_enabled: checked },
+                      checked ? "Recurring jobs will be charged automatically" : "Automatic charges turned off"
+                    )}
+                  />
+                  <Label htmlFor="autopay_enabled" className="text-sm">
+                    Charge automatically for recurring jobs
+                  </Label>
+                </div>
+              </div>
+            ) : (
+              <p className="text-xs text-gray-500 mt-1">
+                No card on file. A card is saved when the client pays a recurring job online.
+              </p>
+            )}
           </div>
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Gift className="w-5 h-5" />
+            Account Credit
+          </CardTitle>
+          <CardDescription>
+            Credit is taken off the client's next job automatically before they pay
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="text-lg font-semibold text-green-600">
+            {creditBalances.length === 0
+              ? formatCurrency(0, client.currency)
+              : creditBalances.map(([currency, balance]) => formatCurrency(balance / 100, currency)).join(' · ')}
+          </div>
+          {creditNotes.length > 0 ? (
+            <div className="space-y-2">
+              <h4 className="font-medium text-gray-900">Credit Notes</h4>
+              {creditNotes.map((note) => (
+                <div key={note.id} className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
+                  <div>
+                    <div className="font-medium">{note.reason}</div>
+                    <div className="text-sm text-gray-600">
+                      {note.jobs ? `${note.jobs.job_name || note.jobs.title} • ` : ''}
+                      {new Date(note.created_at).toLocaleDateString()}
+                    </div>
+                  </div>
+                  <div className="font-medium">{formatCurrency(note.amount / 100, note.currency)}</div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">
+              No credit notes. Issue one from a job below when the client was overcharged or paid ahead.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
       <div className="space-y-4">
         <h3 className="text-xl font-bold text-gray-900">Job History</h3>
         {jobs.length === 0 ? (
@@ -178,11 +410,16 @@ export const ClientProfile = ({ clientId, onBack }: ClientProfileProps) => {
                     </div>
                     <div className="text-right">
                       <div className="text-2xl font-bold text-green-600 mb-2">
-                        ${job.price.toFixed(2)}
+                        {formatCurrency(job.price, job.currency)}
                       </div>
                       <Badge className={getStatusColor(job.status)}>
                         {job.status || 'pending'}
                       </Badge>
+                      <div className="mt-2">
+                        <Button size="sm" variant="outline" onClick={() => setCreditJob(job)}>
+                          Issue Credit
+                        </Button>
+                      </div>
                     </div>
                   </div>
                 </CardHeader>
@@ -194,9 +431,9 @@ export const ClientProfile = ({ clientId, onBack }: ClientProfileProps) => {
                         {job.payments.map((payment) => (
                           <div key={payment.id} className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
                             <div>
-                              <div className="font-medium">${(payment.amount / 100).toFixed(2)}</div>
+                              <div className="font-medium">{formatCurrency(payment.amount / 100, payment.currency)}</div>
                               <div className="text-sm text-gray-600">
-                                {payment.payment_method || 'card'} • {payment.payment_status}
+                                {payment.payment_method === 'credit' ? 'account credit' : payment.payment_method || 'card'} • {payment.payment_status}
                               </div>
                             </div>
                             <div className="text-sm text-gray-500">
@@ -215,6 +452,22 @@ export const ClientProfile = ({ clientId, onBack }: ClientProfileProps) => {
           </div>
         )}
       </div>
+
+      <CreateClientDialog
+        open={showEditDialog}
+        onOpenChange={setShowEditDialog}
+        onClientCreated={fetchClientData}
+        companyId={client.company_id}
+        client={client}
+      />
+
+      <IssueCreditDialog
+        job={creditJob}
+        clientName={client.name}
+        open={!!creditJob}
+        onOpenChange={(open) => !open && setCreditJob(null)}
+        onIssued={fetchClientData}
+      />
     </div>
   );
 };
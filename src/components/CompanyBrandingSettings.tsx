@@ -0,0 +1,200 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+interface CompanyBrandingSettingsProps {
+  companyId: string | null;
+}
+
+const DEFAULT_BRAND_COLOR = "#2563eb";
+
+const emptyForm = () => ({
+  business_name: "",
+  logo_url: "",
+  brand_color: DEFAULT_BRAND_COLOR,
+  contact_email: "",
+  contact_phone: "",
+  website: "",
+});
+
+export const CompanyBrandingSettings = ({ companyId }: CompanyBrandingSettingsProps) => {
+  const [formData, setFormData] = useState(emptyForm());
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const fetchBranding = async () => {
+    if (!companyId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('company_branding')
+        .select('business_name, logo_url, brand_color, contact_email, contact_phone, website')
+        .eq('company_id', companyId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (data) {
+        setFormData({
+          business_name: data.business_name || "",
+          logo_url: data.logo_url || "",
+          brand_color: data.brand_color,
+          contact_email: data.contact_email || "",
+          contact_phone: data.contact_phone || "",
+          website: data.website || "",
+        });
+      }
+    } catch (error) {
+      console.error('Failed to fetch company branding:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchBranding();
+  }, [companyId]);
+
+  const saveBranding = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!companyId) return;
+
+    if (!/^#[0-9a-fA-F]{6}$/.test(formData.brand_color)) {
+      toast({
+        title: "Error",
+        description: "Brand color must be a hex color like #2563eb",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('company_branding')
+        .upsert({
+          company_id: companyId,
+          business_name: formData.business_name.trim() || null,
+          logo_url: formData.logo_url.trim() || null,
+          brand_color: formData.brand_color,
+          contact_email: formData.contact_email.trim() || null,
+          contact_phone: formData.contact_phone.trim() || null,
+          website: formData.website.trim() || null,
+        }, { onConflict: 'company_id' });
+
+      if (error) {
+        console.error('Error saving company branding:', error);
+        throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: "Invoice branding saved",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save branding",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!companyId) {
+    return (
+      <p className="text-sm text-gray-500">
+        Generate a Company ID before setting up invoice branding.
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={saveBranding} className="space-y-3">
+      <div>
+        <Label htmlFor="business_name">Business Name</Label>
+        <Input
+          id="business_name"
+          value={formData.business_name}
+          onChange={(e) => setFormData({ ...formData, business_name: e.target.value })}
+          placeholder="e.g., Bleu Pressure Washing"
+          className="mt-1"
+        />
+      </div>
+
+      <div className="grid grid-cols-[1fr_auto] gap-2">
+        <div>
+          <Label htmlFor="logo_url">Logo URL</Label>
+          <Input
+            id="logo_url"
+            type="url"
+            value={formData.logo_url}
+            onChange={(e) => setFormData({ ...formData, logo_url: e.target.value })}
+            placeholder="https://..."
+            className="mt-1"
+          />
+        </div>
+        <div>
+          <Label htmlFor="brand_color">Color</Label>
+          <Input
+            id="brand_color"
+            type="color"
+            value={formData.brand_color}
+            onChange={(e) => setFormData({ ...formData, brand_color: e.target.value })}
+            className="mt-1 w-16 p-1"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label htmlFor="contact_email">Contact Email</Label>
+          <Input
+            id="contact_email"
+            type="email"
+            value={formData.contact_email}
+            onChange={(e) => setFormData({ ...formData, contact_email: e.target.value })}
+            className="mt-1"
+          />
+        </div>
+        <div>
+          <Label htmlFor="contact_phone">Contact Phone</Label>
+          <Input
+            id="contact_phone"
+            type="tel"
+            value={formData.contact_phone}
+            onChange={(e) => setFormData({ ...formData, contact_phone: e.target.value })}
+            className="mt-1"
+          />
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="website">Website</Label>
+        <Input
+          id="website"
+          type="url"
+          value={formData.website}
+          onChange={(e) => setFormData({ ...formData, website: e.target.value })}
+          placeholder="https://..."
+          className="mt-1"
+        />
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Shown to clients at the top of the invoice page they open to pay.
+      </p>
+
+      <Button
+        type="submit"
+        size="sm"
+        disabled={saving}
+        className="bg-blue-600 hover:bg-blue-700"
+      >
+        {saving ? "Saving..." : "Save Branding"}
+      </Button>
+    </form>
+  );
+};
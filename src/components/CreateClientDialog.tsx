@@ -1,5 +1,5 @@
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -7,24 +7,71 @@ import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { PaymentTermsSelect } from "./PaymentTermsSelect";
+import { CurrencySelect } from "./CurrencySelect";
+
+interface EditableClient {
+  id: string;
+  name: string;
+  email: string;
+  phone: string | null;
+  address: string | null;
+  payment_terms_days: number | null;
+  currency: string | null;
+  discount_percentage: number | null;
+}
 
 interface CreateClientDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onClientCreated: () => void;
   companyId: string | null;
+  // When set, the dialog edits this client instead of adding a new one
+  client?: EditableClient | null;
 }
 
-export const CreateClientDialog = ({ open, onOpenChange, onClientCreated, companyId }: CreateClientDialogProps) => {
+export const CreateClientDialog = ({ open, onOpenChange, onClientCreated, companyId, client }: CreateClientDialogProps) => {
   const [loading, setLoading] = useState(false);
+  const [paymentTermsDays, setPaymentTermsDays] = useState<number | null>(null);
+  const [currency, setCurrency] = useState<string | null>(null);
   const [formData, setFormData] = useState({
     name: "",
     email: "",
     phone: "",
     address: "",
+    discount_percentage: "",
   });
   const { toast } = useToast();
 
+  useEffect(() => {
+    if (open && client) {
+      setFormData({
+        name: client.name,
+        email: client.email,
+        phone: client.phone || "",
+        address: client.address || "",
+        discount_percentage: client.discount_percentage?.toString() ?? "",
+      });
+      setPaymentTermsDays(client.payment_terms_days);
+      setCurrency(client.currency);
+    }
+  }, [open, client]);
+
+  // Keeps the client's Stripe Customer in step with contact changes; the edit itself already saved
+  const syncStripeCustomer = async (clientId: string) => {
+    try {
+      const { data, error } = await supabase.functions.invoke('sync-stripe-customer', {
+        body: { clientId },
+      });
+
+      if (error || !data?.success) {
+        console.error('Failed to sync Stripe customer:', error || data?.error);
+      }
+    } catch (error) {
+      console.error('Failed to sync Stripe customer:', error);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -37,6 +84,16 @@ export const CreateClientDialog = ({ open, onOpenChange, onClientCreated, compan
       return;
     }
 
+    const discountPercentage = formData.discount_percentage ? parseFloat(formData.discount_percentage) : null;
+    if (discountPercentage !== null && (isNaN(discountPercentage) || discountPercentage <= 0 || discountPercentage > 100)) {
+      toast({
+        title: "Error",
+        description: "Standing discount must be between 0 and 100%",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setLoading(true);
 
     console.log('Attempting to create client with data:', formData);
@@ -48,26 +105,49 @@ export const CreateClientDialog = ({ open, onOpenChange, onClientCreated, compan
         email: formData.email.trim(),
         phone: formData.phone.trim() || null,
         address: formData.address.trim() || null,
+        payment_terms_days: paymentTermsDays,
+        currency,
+        discount_percentage: discountPercentage,
         company_id: companyId,
       };
 
-      console.log('Inserting client data:', clientData);
+      if (client) {
+        const { error } = await supabase
+          .from('clients')
+          .update(clientData)
+          .eq('id', client.id);
 
-      const { data, error } = await supabase
-        .from('clients')
-        .insert([clientData])
-        .select();
+        if (error) {
+          console.error('Client update error:', error);
+          throw error;
+        }
 
-      if (error) {
-        console.error('Client insertion error:', error);
-        throw error;
-      }
+        if (
+          clientData.name !== client.name ||
+          clientData.email !== client.email ||
+          clientData.phone !== (client.phone || null)
+        ) {
+          await syncStripeCustomer(client.id);
+        }
+      } else {
+        console.log('Inserting client data:', clientData);
+
+        const { data, error } = await supabase
+          .from('clients')
+          .insert([clientData])
+          .select();
 
-      console.log('Client created successfully:', data);
+        if (error) {
+          console.error('Client insertion error:', error);
+          throw error;
+        }
+
+        console.log('Client created successfully:', data);
+      }
 
       toast({
         title: "Success",
-        description: "Client added successfully",
+        description: client ? "Client updated successfully" : "Client added successfully",
       });
 
       setFormData({
@@ -75,7 +155,10 @@ export const CreateClientDialog = ({ open, onOpenChange, onClientCreated, compan
         email: "",
         phone: "",
         address: "",
+        discount_percentage: "",
       });
+      setPaymentTermsDays(null);
+      setCurrency(null);
 
       onClientCreated();
       onOpenChange(false);
@@ -83,7 +166,7 @@ export const CreateClientDialog = ({ open, onOpenChange, onClientCreated, compan
       console.error('Error creating client:', error);
       toast({
         title: "Error",
-        description: error.message || "Failed to create client",
+        description: error.message || (client ? "Failed to update client" : "Failed to create client"),
         variant: "destructive",
       });
     } finally {
@@ -116,9 +199,9 @@ export const CreateClientDialog = ({ open, onOpenChange, onClientCreated, compan
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle>Add New Client</DialogTitle>
+          <DialogTitle>{client ? "Edit Client" : "Add New Client"}</DialogTitle>
           <DialogDescription>
-            Add a new client to your contact list
+            {client ? "Update this client's contact details" : "Add a new client to your contact list"}
           </DialogDescription>
         </DialogHeader>
 
@@ -168,6 +251,41 @@ export const CreateClientDialog = ({ open, onOpenChange, onClientCreated, compan
             />
           </div>
 
+          <div>
+            <Label htmlFor="payment_terms">Payment Terms</Label>
+            <PaymentTermsSelect
+              id="payment_terms"
+              value={paymentTermsDays}
+              onChange={setPaymentTermsDays}
+              defaultLabel="Company default"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="client_currency">Billing Currency</Label>
+            <CurrencySelect
+              id="client_currency"
+              value={currency}
+              onChange={setCurrency}
+              defaultLabel="Company default"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="discount_percentage">Standing Discount (%)</Label>
+            <Input
+              id="discount_percentage"
+              type="number"
+              step="0.01"
+              min="0.01"
+              max="100"
+              value={formData.discount_percentage}
+              onChange={(e) => setFormData({ ...formData, discount_percentage: e.target.value })}
+              placeholder="None"
+            />
+            <p className="text-xs text-gray-500 mt-1">Taken off the line items of every new job for this client</p>
+          </div>
+
           <div className="flex gap-2 pt-4">
             <Button
               type="button"
@@ -182,7 +300,9 @@ export const CreateClientDialog = ({ open, onOpenChange, onClientCreated, compan
               disabled={loading}
               className="flex-1 bg-blue-600 hover:bg-blue-700"
             >
-              {loading ? "Adding..." : "Add Client"}
+              {loading
+                ? (client ? "Saving..." : "Adding...")
+                : (client ? "Save Changes" : "Add Client")}
             </Button>
           </div>
         </form>
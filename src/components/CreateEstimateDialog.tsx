@@ -0,0 +1,418 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { LineItemsEditor } from "./LineItemsEditor";
+import {
+  LineItemDraft,
+  TaxRate,
+  emptyLineItem,
+  lineItemsTotal,
+  lineItemsTax,
+  lineItemTax,
+  lineItemTaxRate,
+  completeLineItems,
+} from "@/utils/lineItems";
+import { addDays } from "@/utils/paymentTerms";
+
+interface Client {
+  id: string;
+  name: string;
+  email: string;
+  phone: string | null;
+}
+
+interface CreateEstimateDialogProps {
+  companyId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onEstimateCreated: () => void;
+}
+
+// Estimates are valid for 30 days unless changed
+const DEFAULT_VALIDITY_DAYS = 30;
+
+const emptyForm = () => {
+  const today = new Date().toISOString().split('T')[0];
+  return {
+    title: "",
+    client_id: "",
+    phone_number: "",
+    description: "",
+    scheduled_date: "",
+    expires_at: addDays(today, DEFAULT_VALIDITY_DAYS),
+    require_deposit: false,
+    deposit_type: "percentage" as 'fixed' | 'percentage',
+    deposit_value: "50",
+  };
+};
+
+export const CreateEstimateDialog = ({ companyId, open, onOpenChange, onEstimateCreated }: CreateEstimateDialogProps) => {
+  const [clients, setClients] = useState<Client[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [lineItems, setLineItems] = useState<LineItemDraft[]>([emptyLineItem()]);
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [jobTaxRateId, setJobTaxRateId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm());
+  const { toast } = useToast();
+
+  const fetchClients = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('clients')
+        .select('id, name, email, phone')
+        .eq('company_id', companyId)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      setClients(data || []);
+    } catch (error) {
+      console.error('Failed to fetch clients:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch clients",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const fetchTaxRates = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('tax_rates')
+        .select('id, name, percentage, jurisdiction, is_default')
+        .eq('company_id', companyId)
+        .eq('active', true)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+
+      setTaxRates(data || []);
+      setJobTaxRateId(data?.find(rate => rate.is_default)?.id ?? null);
+    } catch (error) {
+      console.error('Failed to fetch tax rates:', error);
+      setTaxRates([]);
+      setJobTaxRateId(null);
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      setFormData(emptyForm());
+      setLineItems([emptyLineItem()]);
+      fetchClients();
+      fetchTaxRates();
+    }
+  }, [open, companyId]);
+
+  const items = completeLineItems(lineItems);
+  const subtotal = lineItemsTotal(items);
+  const taxAmount = lineItemsTax(items, jobTaxRateId, taxRates);
+  // Like jobs, the estimate price is the total including tax
+  const price = Math.round((subtotal + taxAmount) * 100) / 100;
+
+  const depositValue = parseFloat(formData.deposit_value) || 0;
+  const depositAmount = formData.deposit_type === 'percentage' ? price * (depositValue / 100) : depositValue;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.title.trim() || !formData.client_id) {
+      toast({
+        title: "Error",
+        description: "Enter a title and select a client",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (items.length === 0 || subtotal <= 0) {
+      toast({
+        title: "Error",
+        description: "Please add at least one line item with a price",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (formData.require_deposit && (depositAmount <= 0 || depositAmount >= price)) {
+      toast({
+        title: "Error",
+        description: `Deposit must be more than $0 and less than the $${price.toFixed(2)} total`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { data: estimate, error } = await supabase
+        .from('estimates')
+        .insert({
+          company_id: companyId,
+          client_id: formData.client_id,
+          title: formData.title.trim(),
+          description: formData.description.trim() || null,
+          phone_number: formData.phone_number.trim() || null,
+          price,
+          tax_amount: taxAmount,
+          tax_rate_id: jobTaxRateId,
+          scheduled_date: formData.scheduled_date || null,
+          expires_at: formData.expires_at,
+          deposit_type: formData.require_deposit ? formData.deposit_type : null,
+          deposit_value: formData.require_deposit ? depositValue : null,
+          created_by: user?.id ?? null,
+        })
+        .select('id')
+        .single();
+
+      if (error) {
+        console.error('Error creating estimate:', error);
+        throw error;
+      }
+
+      const { error: lineItemsError } = await supabase
+        .from('estimate_line_items')
+        .insert(items.map((item, index) => ({
+          estimate_id: estimate.id,
+          description: item.description.trim(),
+          quantity: parseFloat(item.quantity),
+          unit_price: parseFloat(item.unit_price),
+          taxable: item.taxable,
+          tax_rate_id: lineItemTaxRate(item, jobTaxRateId, taxRates)?.id ?? null,
+          tax_amount: lineItemTax(item, jobTaxRateId, taxRates),
+          position: index,
+        })));
+
+      if (lineItemsError) {
+        console.error('Estimate line item insertion error:', lineItemsError);
+        throw lineItemsError;
+      }
+
+      toast({
+        title: "Estimate Created",
+        description: "Copy the approval link to send it to your client",
+      });
+
+      onEstimateCreated();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create estimate",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Estimate</DialogTitle>
+          <DialogDescription>
+            Quote a job; it becomes a job when the client accepts
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="estimate_title">Title *</Label>
+            <Input
+              id="estimate_title"
+              value={formData.title}
+              onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+              placeholder="e.g., Backyard Landscaping"
+              required
+              className="mt-1"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="estimate_client">Client *</Label>
+            <Select
+              value={formData.client_id}
+              onValueChange={(value) => {
+                const client = clients.find(c => c.id === value);
+                setFormData({
+                  ...formData,
+                  client_id: value,
+                  phone_number: formData.phone_number || client?.phone || "",
+                });
+              }}
+            >
+              <SelectTrigger id="estimate_client" className="mt-1">
+                <SelectValue placeholder="Select a client" />
+              </SelectTrigger>
+              <SelectContent>
+                {clients.map((client) => (
+                  <SelectItem key={client.id} value={client.id}>
+                    {client.name} ({client.email})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label>Line Items *</Label>
+            <div className="mt-1">
+              <LineItemsEditor
+                items={lineItems}
+                onChange={setLineItems}
+                taxRates={taxRates}
+                jobTaxRateId={jobTaxRateId}
+              />
+            </div>
+          </div>
+
+          {taxRates.length > 0 && (
+            <div>
+              <Label htmlFor="estimate_tax_rate">Sales Tax</Label>
+              <Select
+                value={jobTaxRateId ?? "none"}
+                onValueChange={(value) => setJobTaxRateId(value === "none" ? null : value)}
+              >
+                <SelectTrigger id="estimate_tax_rate" className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No tax</SelectItem>
+                  {taxRates.map((rate) => (
+                    <SelectItem key={rate.id} value={rate.id}>
+                      {rate.name} ({rate.percentage}%){rate.jurisdiction ? ` - ${rate.jurisdiction}` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="estimate_scheduled_date">Proposed Date</Label>
+              <Input
+                id="estimate_scheduled_date"
+                type="date"
+                value={formData.scheduled_date}
+                onChange={(e) => setFormData({ ...formData, scheduled_date: e.target.value })}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="estimate_expires_at">Valid Until *</Label>
+              <Input
+                id="estimate_expires_at"
+                type="date"
+                value={formData.expires_at}
+                min={new Date().toISOString().split('T')[0]}
+                onChange={(e) => setFormData({ ...formData, expires_at: e.target.value })}
+                required
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="estimate_phone_number">Phone Number</Label>
+            <Input
+              id="estimate_phone_number"
+              type="tel"
+              value={formData.phone_number}
+              onChange={(e) => setFormData({ ...formData, phone_number: e.target.value })}
+              placeholder="e.g., +1 (555) 123-4567"
+              className="mt-1"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="estimate_description">Description</Label>
+            <Textarea
+              id="estimate_description"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              placeholder="Scope of work, assumptions, exclusions..."
+              rows={3}
+              className="mt-1"
+            />
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="estimate_require_deposit"
+              checked={formData.require_deposit}
+              onCheckedChange={(checked) => setFormData({ ...formData, require_deposit: checked })}
+            />
+            <Label htmlFor="estimate_require_deposit">Collect a deposit on approval</Label>
+          </div>
+
+          {formData.require_deposit && (
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label htmlFor="estimate_deposit_type">Deposit Type</Label>
+                <Select
+                  value={formData.deposit_type}
+                  onValueChange={(type) => setFormData({ ...formData, deposit_type: type as 'fixed' | 'percentage' })}
+                >
+                  <SelectTrigger id="estimate_deposit_type" className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percentage">Percentage</SelectItem>
+                    <SelectItem value="fixed">Fixed amount</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="estimate_deposit_value">
+                  {formData.deposit_type === 'percentage' ? 'Percentage (%)' : 'Amount ($)'}
+                </Label>
+                <Input
+                  id="estimate_deposit_value"
+                  type="number"
+                  step={formData.deposit_type === 'percentage' ? "1" : "0.01"}
+                  min="0.01"
+                  max={formData.deposit_type === 'percentage' ? "99" : undefined}
+                  value={formData.deposit_value}
+                  onChange={(e) => setFormData({ ...formData, deposit_value: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+              <p className="col-span-2 text-xs text-gray-500">
+                Deposit: ${depositAmount.toFixed(2)} of ${price.toFixed(2)}
+              </p>
+            </div>
+          )}
+
+          <div className="flex gap-2 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={loading || clients.length === 0}
+              className="flex-1 bg-blue-600 hover:bg-blue-700"
+            >
+              {loading ? "Creating..." : "Create Estimate"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,351 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_PAYMENT_TERMS_DAYS, addDays, formatPaymentTerms } from "@/utils/paymentTerms";
+
+interface Client {
+  id: string;
+  name: string;
+  payment_terms_days: number | null;
+}
+
+interface InvoiceableJob {
+  id: string;
+  title: string;
+  job_name: string | null;
+  price: number;
+  scheduled_date: string;
+}
+
+interface CreateInvoiceDialogProps {
+  companyId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onInvoiceCreated: () => void;
+}
+
+const emptyForm = () => ({
+  client_id: "",
+  issue_date: new Date().toISOString().split('T')[0],
+  due_date: "",
+  notes: "",
+});
+
+export const CreateInvoiceDialog = ({ companyId, open, onOpenChange, onInvoiceCreated }: CreateInvoiceDialogProps) => {
+  const [clients, setClients] = useState<Client[]>([]);
+  const [jobs, setJobs] = useState<InvoiceableJob[]>([]);
+  const [selectedJobIds, setSelectedJobIds] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [formData, setFormData] = useState(emptyForm());
+  const [companyTermsDays, setCompanyTermsDays] = useState(DEFAULT_PAYMENT_TERMS_DAYS);
+  const { toast } = useToast();
+
+  const fetchClients = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('clients')
+        .select('id, name, payment_terms_days')
+        .eq('company_id', companyId)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      setClients(data || []);
+    } catch (error) {
+      console.error('Failed to fetch clients:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch clients",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const fetchCompanyTerms = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('company_billing_settings')
+        .select('payment_terms_days')
+        .eq('company_id', companyId)
+        .maybeSingle();
+
+      if (error) throw error;
+      setCompanyTermsDays(data?.payment_terms_days ?? DEFAULT_PAYMENT_TERMS_DAYS);
+    } catch (error) {
+      console.error('Failed to fetch company payment terms:', error);
+    }
+  };
+
+  // Unpaid jobs for the client that aren't on an invoice yet
+  const fetchJobs = async (clientId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('jobs')
+        .select('id, title, job_name, price, scheduled_date')
+        .eq('company_id', companyId)
+        .eq('client_id', clientId)
+        .is('invoice_id', null)
+        .in('status', ['pending', 'partially_paid'])
+        .order('scheduled_date', { ascending: true });
+
+      if (error) throw error;
+      setJobs(data || []);
+      setSelectedJobIds(new Set((data || []).map(job => job.id)));
+    } catch (error) {
+      console.error('Failed to fetch jobs for invoice:', error);
+      setJobs([]);
+      setSelectedJobIds(new Set());
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      setFormData(emptyForm());
+      setJobs([]);
+      setSelectedJobIds(new Set());
+      fetchClients();
+      fetchCompanyTerms();
+    }
+  }, [open, companyId]);
+
+  useEffect(() => {
+    if (formData.client_id) {
+      fetchJobs(formData.client_id);
+    }
+  }, [formData.client_id]);
+
+  const selectedClient = clients.find(client => client.id === formData.client_id);
+  const termsDays = selectedClient?.payment_terms_days ?? companyTermsDays;
+
+  // The due date follows the client's terms (or the company default); it can still be edited afterwards
+  const applyTerms = (clientId: string, issueDate: string) => {
+    const client = clients.find(c => c.id === clientId);
+    const days = client?.payment_terms_days ?? companyTermsDays;
+    setFormData(prev => ({
+      ...prev,
+      client_id: clientId,
+      issue_date: issueDate,
+      due_date: clientId && issueDate ? addDays(issueDate, days) : prev.due_date,
+    }));
+  };
+
+  const toggleJob = (jobId: string, checked: boolean) => {
+    const next = new Set(selectedJobIds);
+    if (checked) {
+      next.add(jobId);
+    } else {
+      next.delete(jobId);
+    }
+    setSelectedJobIds(next);
+  };
+
+  const selectedTotal = jobs
+    .filter(job => selectedJobIds.has(job.id))
+    .reduce((sum, job) => sum + Number(job.price), 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.client_id || selectedJobIds.size === 0) {
+      toast({
+        title: "Error",
+        description: "Select a client and at least one job",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (formData.due_date && formData.due_date < formData.issue_date) {
+      toast({
+        title: "Error",
+        description: "Due date can't be before the issue date",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      // The invoice number is assigned by the database from the company's sequence
+      const { data: invoice, error: invoiceError } = await supabase
+        .from('invoices')
+        .insert({
+          company_id: companyId,
+          client_id: formData.client_id,
+          issue_date: formData.issue_date,
+          due_date: formData.due_date || null,
+          notes: formData.notes.trim() || null,
+          created_by: user?.id ?? null,
+        })
+        .select('id, invoice_number')
+        .single();
+
+      if (invoiceError) {
+        console.error('Error creating invoice:', invoiceError);
+        throw invoiceError;
+      }
+
+      const { error: jobsError } = await supabase
+        .from('jobs')
+        .update({ invoice_id: invoice.id })
+        .in('id', Array.from(selectedJobIds));
+
+      if (jobsError) {
+        console.error('Error attaching jobs to invoice:', jobsError);
+        throw jobsError;
+      }
+
+      toast({
+        title: "Invoice Created",
+        description: `Invoice ${invoice.invoice_number} created as a draft`,
+      });
+
+      onInvoiceCreated();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create invoice",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Invoice</DialogTitle>
+          <DialogDescription>
+            Bundle a client's unpaid jobs into a numbered invoice
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="invoice_client">Client *</Label>
+            <Select
+              value={formData.client_id}
+              onValueChange={(value) => applyTerms(value, formData.issue_date)}
+            >
+              <SelectTrigger className="mt-1">
+                <SelectValue placeholder="Select a client" />
+              </SelectTrigger>
+              <SelectContent>
+                {clients.map((client) => (
+                  <SelectItem key={client.id} value={client.id}>
+                    {client.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {formData.client_id && (
+            <div>
+              <Label>Jobs *</Label>
+              {jobs.length === 0 ? (
+                <p className="text-sm text-gray-500 mt-1">No uninvoiced unpaid jobs for this client</p>
+              ) : (
+                <div className="mt-1 space-y-2">
+                  {jobs.map((job) => (
+                    <div key={job.id} className="flex items-center justify-between p-2 border rounded-lg">
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`invoice_job_${job.id}`}
+                          checked={selectedJobIds.has(job.id)}
+                          onCheckedChange={(checked) => toggleJob(job.id, checked === true)}
+                        />
+                        <Label htmlFor={`invoice_job_${job.id}`} className="text-sm font-normal">
+                          {job.job_name || job.title}
+                          <span className="text-gray-500 ml-1">
+                            ({new Date(job.scheduled_date).toLocaleDateString()})
+                          </span>
+                        </Label>
+                      </div>
+                      <span className="text-sm font-medium">${Number(job.price).toFixed(2)}</span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between text-sm font-semibold pt-1">
+                    <span>Invoice Total</span>
+                    <span>${selectedTotal.toFixed(2)}</span>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="issue_date">Issue Date *</Label>
+              <Input
+                id="issue_date"
+                type="date"
+                value={formData.issue_date}
+                onChange={(e) => applyTerms(formData.client_id, e.target.value)}
+                required
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="due_date">Due Date</Label>
+              <Input
+                id="due_date"
+                type="date"
+                value={formData.due_date}
+                min={formData.issue_date}
+                onChange={(e) => setFormData({ ...formData, due_date: e.target.value })}
+                className="mt-1"
+              />
+            </div>
+          </div>
+          {formData.client_id && (
+            <p className="text-xs text-gray-500 -mt-2">
+              {selectedClient?.payment_terms_days != null ? "Client terms" : "Company terms"}: {formatPaymentTerms(termsDays)}
+            </p>
+          )}
+
+          <div>
+            <Label htmlFor="invoice_notes">Notes</Label>
+            <Textarea
+              id="invoice_notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              placeholder="e.g., Thank you for your business!"
+              rows={3}
+              className="mt-1"
+            />
+          </div>
+
+          <div className="flex gap-2 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={loading || selectedJobIds.size === 0}
+              className="flex-1 bg-blue-600 hover:bg-blue-700"
+            >
+              {loading ? "Creating..." : "Create Invoice"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -9,12 +9,40 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { AlertTriangle } from "lucide-react";
+import { AlertTriangle, X } from "lucide-react";
+import { LineItemsEditor } from "./LineItemsEditor";
+import {
+  LineItemDraft,
+  TaxRate,
+  emptyLineItem,
+  lineItemsTotal,
+  lineItemsTax,
+  lineItemTax,
+  lineItemTaxRate,
+  completeLineItems,
+} from "@/utils/lineItems";
+import { FeeSettings, fetchFeeSettings, feePreview } from "@/utils/fees";
+import { DEFAULT_PAYMENT_TERMS_DAYS, addDays } from "@/utils/paymentTerms";
+import { PaymentTermsSelect } from "./PaymentTermsSelect";
+import { CurrencySelect } from "./CurrencySelect";
+import { DEFAULT_CURRENCY, formatCurrency } from "@/utils/currency";
+import { DiscountDraft, discountAmounts, discountedLineItemsTax } from "@/utils/discounts";
 
 interface Client {
   id: string;
   name: string;
   email: string;
+  payment_terms_days: number | null;
+  currency: string | null;
+  discount_percentage: number | null;
+}
+
+interface AppliedDiscountCode {
+  id: string;
+  code: string;
+  discount_type: 'percentage' | 'fixed';
+  value: number;
+  currency: string | null;
 }
 
 interface UserProfile {
@@ -40,15 +68,28 @@ export const CreateJobDialog = ({
   const [clients, setClients] = useState<Client[]>([]);
   const [loading, setLoading] = useState(false);
   const [loadingClients, setLoadingClients] = useState(false);
+  const [lineItems, setLineItems] = useState<LineItemDraft[]>([emptyLineItem()]);
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [jobTaxRateId, setJobTaxRateId] = useState<string | null>(null);
+  const [feeSettings, setFeeSettings] = useState<FeeSettings | null>(null);
+  const [companyTermsDays, setCompanyTermsDays] = useState(DEFAULT_PAYMENT_TERMS_DAYS);
+  const [paymentTermsDays, setPaymentTermsDays] = useState(DEFAULT_PAYMENT_TERMS_DAYS);
+  const [companyCurrency, setCompanyCurrency] = useState(DEFAULT_CURRENCY);
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
+  const [useClientDiscount, setUseClientDiscount] = useState(false);
+  const [discountCodeInput, setDiscountCodeInput] = useState("");
+  const [appliedCode, setAppliedCode] = useState<AppliedDiscountCode | null>(null);
+  const [checkingCode, setCheckingCode] = useState(false);
   const [formData, setFormData] = useState({
     title: "",
     client_id: "",
-    price: "",
     phone_number: "",
     description: "",
     scheduled_date: new Date().toISOString().split('T')[0],
     is_recurring: false,
     frequency: "weekly",
+    allow_bank_payment: false,
+    crew_member: "",
   });
   const { toast } = useToast();
 
@@ -64,7 +105,7 @@ export const CreateJobDialog = ({
     try {
       const { data, error } = await supabase
         .from('clients')
-        .select('id, name, email')
+        .select('id, name, email, payment_terms_days, currency, discount_percentage')
         .eq('company_id', userProfile.company_id)
         .order('name', { ascending: true });
 
@@ -87,25 +128,170 @@ export const CreateJobDialog = ({
     }
   };
 
+  const fetchTaxRates = async () => {
+    if (!userProfile?.company_id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('tax_rates')
+        .select('id, name, percentage, jurisdiction, is_default')
+        .eq('company_id', userProfile.company_id)
+        .eq('active', true)
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching tax rates:', error);
+        throw error;
+      }
+
+      setTaxRates(data || []);
+      setJobTaxRateId(data?.find(rate => rate.is_default)?.id ?? null);
+    } catch (error) {
+      console.error('Failed to fetch tax rates:', error);
+      setTaxRates([]);
+      setJobTaxRateId(null);
+    }
+  };
+
+  const loadFeeSettings = async () => {
+    if (!userProfile?.company_id) return;
+
+    try {
+      setFeeSettings(await fetchFeeSettings(userProfile.company_id));
+    } catch (error) {
+      console.error('Failed to fetch fee settings:', error);
+      setFeeSettings(null);
+    }
+  };
+
+  const fetchCompanyTerms = async () => {
+    if (!userProfile?.company_id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('company_billing_settings')
+        .select('payment_terms_days, default_currency')
+        .eq('company_id', userProfile.company_id)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      const days = data?.payment_terms_days ?? DEFAULT_PAYMENT_TERMS_DAYS;
+      setCompanyTermsDays(days);
+      setPaymentTermsDays(days);
+      setCompanyCurrency(data?.default_currency ?? DEFAULT_CURRENCY);
+      setCurrency(data?.default_currency ?? DEFAULT_CURRENCY);
+    } catch (error) {
+      console.error('Failed to fetch company payment terms:', error);
+    }
+  };
+
   useEffect(() => {
     if (open && userProfile?.company_id) {
       fetchClients();
+      fetchTaxRates();
+      loadFeeSettings();
+      fetchCompanyTerms();
     }
     
     if (open) {
       setFormData({
         title: "",
         client_id: "",
-        price: "",
         phone_number: "",
         description: "",
         scheduled_date: new Date().toISOString().split('T')[0],
         is_recurring: false,
         frequency: "weekly",
+        allow_bank_payment: false,
+        crew_member: "",
       });
+      setLineItems([emptyLineItem()]);
+      setUseClientDiscount(false);
+      setDiscountCodeInput("");
+      setAppliedCode(null);
     }
   }, [open, userProfile?.company_id]);
 
+  // Early checks so the preview is right; the database checks usage limits again when the job is saved
+  const applyDiscountCode = async () => {
+    const code = discountCodeInput.trim().toUpperCase();
+    if (!code || !userProfile?.company_id) return;
+
+    setCheckingCode(true);
+    try {
+      const { data, error } = await supabase
+        .from('discount_codes')
+        .select('id, code, discount_type, value, currency, starts_at, ends_at, max_uses, active, job_discounts(count)')
+        .eq('company_id', userProfile.company_id)
+        .eq('code', code)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      const now = new Date();
+      let problem: string | null = null;
+      if (!data || !data.active) {
+        problem = "This discount code is not valid";
+      } else if (data.starts_at && now < new Date(data.starts_at)) {
+        problem = "This discount code is not active yet";
+      } else if (data.ends_at && now >= new Date(data.ends_at)) {
+        problem = "This discount code has expired";
+      } else if (data.max_uses && (data.job_discounts[0]?.count ?? 0) >= data.max_uses) {
+        problem = "This discount code has been fully redeemed";
+      }
+
+      if (problem || !data) {
+        toast({
+          title: "Error",
+          description: problem,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setAppliedCode({
+        id: data.id,
+        code: data.code,
+        discount_type: data.discount_type as 'percentage' | 'fixed',
+        value: Number(data.value),
+        currency: data.currency,
+      });
+      setDiscountCodeInput("");
+    } catch (error) {
+      console.error('Failed to check discount code:', error);
+      toast({
+        title: "Error",
+        description: "Failed to check discount code",
+        variant: "destructive",
+      });
+    } finally {
+      setCheckingCode(false);
+    }
+  };
+
+  // The discounts the job will carry, client discount first, in the order reprice_job applies them
+  const jobDiscounts = (client: Client | undefined): (DiscountDraft & { kind: 'client' | 'code' })[] => {
+    const drafts: (DiscountDraft & { kind: 'client' | 'code' })[] = [];
+    if (useClientDiscount && client?.discount_percentage) {
+      drafts.push({
+        kind: 'client',
+        label: `Client discount (${Number(client.discount_percentage)}%)`,
+        discount_type: 'percentage',
+        value: Number(client.discount_percentage),
+      });
+    }
+    if (appliedCode && (appliedCode.discount_type === 'percentage' || appliedCode.currency === currency)) {
+      drafts.push({
+        kind: 'code',
+        label: `Discount (${appliedCode.code})`,
+        discount_type: appliedCode.discount_type,
+        value: appliedCode.value,
+      });
+    }
+    return drafts;
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -137,10 +323,24 @@ export const CreateJobDialog = ({
       return;
     }
 
-    if (!formData.price || parseFloat(formData.price) <= 0) {
+    const items = completeLineItems(lineItems);
+    const subtotal = lineItemsTotal(items);
+    const taxAmount = lineItemsTax(items, jobTaxRateId, taxRates);
+    // The job price is the total due, tax included
+    const price = Math.round((subtotal + taxAmount) * 100) / 100;
+    if (items.length === 0 || subtotal <= 0) {
       toast({
         title: "Error",
-        description: "Please enter a valid price",
+        description: "Please add at least one line item with a price",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (appliedCode?.discount_type === 'fixed' && appliedCode.currency !== currency) {
+      toast({
+        title: "Error",
+        description: `Discount code ${appliedCode.code} can't be used on a ${currency.toUpperCase()} job`,
         variant: "destructive",
       });
       return;
@@ -164,11 +364,15 @@ export const CreateJobDialog = ({
       title: formData.title.trim(),
       client_id: formData.client_id,
       client_name: selectedClient.name,
-      price: parseFloat(formData.price),
+      price,
+      tax_amount: taxAmount,
+      tax_rate_id: jobTaxRateId,
+      line_items: items,
       phone_number: formData.phone_number.trim() || null,
       company_id: userProfile.company_id,
       description: formData.description.trim() || null,
       scheduled_date: formData.scheduled_date,
+      due_date: addDays(formData.scheduled_date, paymentTermsDays),
       is_recurring: formData.is_recurring,
       frequency: formData.is_recurring ? formData.frequency : null,
       status: isDemoMode ? 'test' : 'pending'
@@ -179,14 +383,20 @@ export const CreateJobDialog = ({
         title: formData.title.trim(),
         job_name: formData.title.trim(),
         client_name: selectedClient.name,
-        price: parseFloat(formData.price),
+        price,
+        tax_amount: taxAmount,
+        tax_rate_id: jobTaxRateId,
         phone_number: formData.phone_number.trim() || null,
         company_id: userProfile.company_id,
         status: isDemoMode ? 'test' : 'pending' as const,
         description: formData.description.trim() || null,
         scheduled_date: formData.scheduled_date,
+        due_date: addDays(formData.scheduled_date, paymentTermsDays),
         is_recurring: formData.is_recurring,
         frequency: formData.is_recurring ? formData.frequency : null,
+        allow_bank_payment: formData.allow_bank_payment,
+        crew_member: formData.crew_member.trim() || null,
+        currency,
         client_id: formData.client_id
       };
 
@@ -210,6 +420,49 @@ export const CreateJobDialog = ({
 
       console.log('Job created successfully:', data);
 
+      const lineItemRows = items.map((item, index) => ({
+        job_id: data[0].id,
+        description: item.description.trim(),
+        quantity: parseFloat(item.quantity),
+        unit_price: parseFloat(item.unit_price),
+        taxable: item.taxable,
+        tax_rate_id: lineItemTaxRate(item, jobTaxRateId, taxRates)?.id ?? null,
+        tax_amount: lineItemTax(item, jobTaxRateId, taxRates),
+        position: index,
+      }));
+
+      const { error: lineItemsError } = await supabase
+        .from('job_line_items')
+        .insert(lineItemRows);
+
+      if (lineItemsError) {
+        console.error('Line item insertion error:', lineItemsError);
+        throw lineItemsError;
+      }
+
+      // Saving a discount reprices the job in the database, so the job above carries the full price.
+      // Each discount is saved on its own so a code that was used up in the meantime doesn't also
+      // drop the client's standing discount; the user is told which one wasn't applied
+      for (const discount of jobDiscounts(selectedClient)) {
+        const { error: discountError } = await supabase
+          .from('job_discounts')
+          .insert({
+            job_id: data[0].id,
+            company_id: userProfile.company_id,
+            kind: discount.kind,
+            discount_code_id: discount.kind === 'code' ? appliedCode?.id ?? null : null,
+          });
+
+        if (discountError) {
+          console.error('Job discount insertion error:', discountError);
+          toast({
+            title: "Discount Not Applied",
+            description: `${discount.label} wasn't applied to the job: ${discountError.message}`,
+            variant: "destructive",
+          });
+        }
+      }
+
       toast({
         title: "Success",
         description: isDemoMode 
@@ -220,13 +473,15 @@ export const CreateJobDialog = ({
       setFormData({
         title: "",
         client_id: "",
-        price: "",
         phone_number: "",
         description: "",
         scheduled_date: new Date().toISOString().split('T')[0],
         is_recurring: false,
         frequency: "weekly",
+        allow_bank_payment: false,
+        crew_member: "",
       });
+      setLineItems([emptyLineItem()]);
 
       onJobCreated();
       onOpenChange(false);
@@ -255,6 +510,16 @@ export const CreateJobDialog = ({
     return null;
   }
 
+  const previewItems = completeLineItems(lineItems);
+  const previewSubtotal = lineItemsTotal(previewItems);
+  const selectedClient = clients.find(client => client.id === formData.client_id);
+  const previewDiscounts = jobDiscounts(selectedClient);
+  const previewDiscountAmounts = discountAmounts(previewSubtotal, previewDiscounts);
+  const previewDiscountTotal = previewDiscountAmounts.reduce((sum, amount) => sum + amount, 0);
+  const previewTax = discountedLineItemsTax(previewItems, jobTaxRateId, taxRates, previewSubtotal, previewDiscountTotal);
+  const previewTotalInCents = Math.round((previewSubtotal - previewDiscountTotal + previewTax) * 100);
+  const preview = feeSettings && previewTotalInCents > 0 ? feePreview(previewTotalInCents, feeSettings) : null;
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
@@ -291,7 +556,14 @@ export const CreateJobDialog = ({
             <Label htmlFor="client">Client *</Label>
             <Select
               value={formData.client_id}
-              onValueChange={(value) => setFormData({ ...formData, client_id: value })}
+              onValueChange={(value) => {
+                setFormData({ ...formData, client_id: value });
+                // Client terms and currency override the company defaults
+                const client = clients.find(c => c.id === value);
+                setPaymentTermsDays(client?.payment_terms_days ?? companyTermsDays);
+                setCurrency(client?.currency ?? companyCurrency);
+                setUseClientDiscount(!!client?.discount_percentage);
+              }}
               required
             >
               <SelectTrigger className="mt-1">
@@ -313,20 +585,141 @@ export const CreateJobDialog = ({
           </div>
 
           <div>
-            <Label htmlFor="price">Price ($) *</Label>
-            <Input
-              id="price"
-              type="number"
-              step="0.01"
-              min="0"
-              value={formData.price}
-              onChange={(e) => setFormData({ ...formData, price: e.target.value })}
-              placeholder="0.00"
-              required
-              className="mt-1"
-            />
+            <Label>Line Items *</Label>
+            <div className="mt-1">
+              <LineItemsEditor
+                items={lineItems}
+                onChange={setLineItems}
+                taxRates={taxRates}
+                jobTaxRateId={jobTaxRateId}
+                currency={currency}
+              />
+            </div>
           </div>
 
+          {taxRates.length > 0 && (
+            <div>
+              <Label htmlFor="tax_rate">Sales Tax</Label>
+              <Select
+                value={jobTaxRateId ?? "none"}
+                onValueChange={(value) => setJobTaxRateId(value === "none" ? null : value)}
+              >
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No tax</SelectItem>
+                  {taxRates.map((rate) => (
+                    <SelectItem key={rate.id} value={rate.id}>
+                      {rate.name} ({rate.percentage}%){rate.jurisdiction ? ` - ${rate.jurisdiction}` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500 mt-1">
+                Applied to taxable line items unless a line picks its own rate
+              </p>
+            </div>
+          )}
+
+          {selectedClient?.discount_percentage && (
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="use_client_discount"
+                checked={useClientDiscount}
+                onCheckedChange={setUseClientDiscount}
+              />
+              <Label htmlFor="use_client_discount">
+                Apply {selectedClient.name}'s standing discount ({Number(selectedClient.discount_percentage)}%)
+              </Label>
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="discount_code">Discount Code</Label>
+            {appliedCode ? (
+              <div className="mt-1 flex items-center justify-between p-2 border rounded-lg text-sm">
+                <span>
+                  <span className="font-mono font-medium">{appliedCode.code}</span>
+                  {' · '}
+                  {appliedCode.discount_type === 'percentage'
+                    ? `${appliedCode.value}% off`
+                    : `${formatCurrency(appliedCode.value, appliedCode.currency)} off`}
+                </span>
+                <Button type="button" variant="ghost" size="sm" onClick={() => setAppliedCode(null)} title="Remove code">
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ) : (
+              <div className="mt-1 flex gap-2">
+                <Input
+                  id="discount_code"
+                  value={discountCodeInput}
+                  onChange={(e) => setDiscountCodeInput(e.target.value.toUpperCase())}
+                  placeholder="Optional"
+                  className="font-mono"
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={applyDiscountCode}
+                  disabled={checkingCode || !discountCodeInput.trim()}
+                >
+                  {checkingCode ? "Checking..." : "Apply"}
+                </Button>
+              </div>
+            )}
+            {appliedCode?.discount_type === 'fixed' && appliedCode.currency !== currency && (
+              <p className="text-xs text-red-600 mt-1">
+                This code only applies to {appliedCode.currency?.toUpperCase()} jobs
+              </p>
+            )}
+          </div>
+
+          {previewDiscounts.length > 0 && previewSubtotal > 0 && (
+            <div className="p-3 border rounded-lg text-sm space-y-1">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Subtotal</span>
+                <span>{formatCurrency(previewSubtotal, currency)}</span>
+              </div>
+              {previewDiscounts.map((discount, index) => (
+                <div key={discount.kind} className="flex justify-between text-green-700">
+                  <span>{discount.label}</span>
+                  <span>-{formatCurrency(previewDiscountAmounts[index], currency)}</span>
+                </div>
+              ))}
+              {previewTax > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Tax</span>
+                  <span>{formatCurrency(previewTax, currency)}</span>
+                </div>
+              )}
+              <div className="flex justify-between font-medium">
+                <span>Total</span>
+                <span>{formatCurrency(previewTotalInCents / 100, currency)}</span>
+              </div>
+            </div>
+          )}
+
+          {preview && !isDemoMode && (
+            <div className="p-3 border rounded-lg bg-blue-50 text-sm space-y-1">
+              <div className="flex justify-between">
+                <span className="text-gray-600">
+                  Processing fee{feeSettings?.absorbFees ? ' (you absorb it)' : ''}
+                </span>
+                <span>{formatCurrency(preview.platformFee / 100, currency)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Client pays</span>
+                <span className="font-medium">{formatCurrency(preview.clientPays / 100, currency)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">You receive</span>
+                <span className="font-semibold text-green-700">{formatCurrency(preview.companyNets / 100, currency)}</span>
+              </div>
+            </div>
+          )}
+
           <div>
             <Label htmlFor="phone_number">Phone Number</Label>
             <Input
@@ -354,6 +747,29 @@ export const CreateJobDialog = ({
             />
           </div>
 
+          <div>
+            <Label htmlFor="job_payment_terms">Payment Terms</Label>
+            <PaymentTermsSelect
+              id="job_payment_terms"
+              value={paymentTermsDays}
+              onChange={(days) => setPaymentTermsDays(days ?? companyTermsDays)}
+            />
+            {formData.scheduled_date && (
+              <p className="text-xs text-gray-500 mt-1">
+                Payment due {new Date(`${addDays(formData.scheduled_date, paymentTermsDays)}T00:00:00`).toLocaleDateString()}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <Label htmlFor="job_currency">Currency</Label>
+            <CurrencySelect
+              id="job_currency"
+              value={currency}
+              onChange={(selected) => setCurrency(selected ?? companyCurrency)}
+            />
+          </div>
+
           <div>
             <Label htmlFor="description">Description</Label>
             <Textarea
@@ -366,6 +782,17 @@ export const CreateJobDialog = ({
             />
           </div>
 
+          <div>
+            <Label htmlFor="crew_member">Crew Member</Label>
+            <Input
+              id="crew_member"
+              value={formData.crew_member}
+              onChange={(e) => setFormData({ ...formData, crew_member: e.target.value })}
+              placeholder="Who is doing the job (optional)"
+              className="mt-1"
+            />
+          </div>
+
           <div className="flex items-center space-x-2">
             <Switch
               id="is_recurring"
@@ -395,6 +822,15 @@ export const CreateJobDialog = ({
             </div>
           )}
 
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="allow_bank_payment"
+              checked={formData.allow_bank_payment}
+              onCheckedChange={(checked) => setFormData({ ...formData, allow_bank_payment: checked })}
+            />
+            <Label htmlFor="allow_bank_payment">Allow Bank Payment (ACH)</Label>
+          </div>
+
           <div className="flex gap-2 pt-4">
             <Button
               type="button"
@@ -0,0 +1,31 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CURRENCIES } from "@/utils/currency";
+
+interface CurrencySelectProps {
+  id?: string;
+  value: string | null;
+  onChange: (currency: string | null) => void;
+  // When set, offers an option that clears the currency so a fallback applies
+  defaultLabel?: string;
+}
+
+const DEFAULT_VALUE = "default";
+
+export const CurrencySelect = ({ id, value, onChange, defaultLabel }: CurrencySelectProps) => (
+  <Select
+    value={value ?? DEFAULT_VALUE}
+    onValueChange={(selected) => onChange(selected === DEFAULT_VALUE ? null : selected)}
+  >
+    <SelectTrigger id={id} className="mt-1">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {defaultLabel && <SelectItem value={DEFAULT_VALUE}>{defaultLabel}</SelectItem>}
+      {CURRENCIES.map(({ code, label }) => (
+        <SelectItem key={code} value={code}>
+          {label}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
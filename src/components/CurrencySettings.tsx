@@ -0,0 +1,96 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { CurrencySelect } from "./CurrencySelect";
+import { CURRENCIES, DEFAULT_CURRENCY } from "@/utils/currency";
+
+interface CurrencySettingsProps {
+  companyId: string | null;
+}
+
+export const CurrencySettings = ({ companyId }: CurrencySettingsProps) => {
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
+  const [savedCurrency, setSavedCurrency] = useState(DEFAULT_CURRENCY);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const fetchSettings = async () => {
+    if (!companyId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('company_billing_settings')
+        .select('default_currency')
+        .eq('company_id', companyId)
+        .maybeSingle();
+
+      if (error) throw error;
+      setCurrency(data?.default_currency ?? DEFAULT_CURRENCY);
+      setSavedCurrency(data?.default_currency ?? DEFAULT_CURRENCY);
+    } catch (error) {
+      console.error('Failed to fetch default currency:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchSettings();
+  }, [companyId]);
+
+  const saveCurrency = async () => {
+    if (!companyId) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('company_billing_settings')
+        .upsert({ company_id: companyId, default_currency: currency }, { onConflict: 'company_id' });
+
+      if (error) {
+        console.error('Error saving default currency:', error);
+        throw error;
+      }
+
+      const label = CURRENCIES.find(({ code }) => code === currency)?.label ?? currency.toUpperCase();
+      toast({
+        title: "Success",
+        description: `New jobs will be billed in ${label} unless the client has its own currency`,
+      });
+      setSavedCurrency(currency);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save default currency",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!companyId) {
+    return null;
+  }
+
+  return (
+    <div className="pt-4 mt-4 border-t">
+      <Label htmlFor="company_currency" className="text-sm font-medium">Default Currency</Label>
+      <CurrencySelect
+        id="company_currency"
+        value={currency}
+        onChange={(selected) => setCurrency(selected ?? DEFAULT_CURRENCY)}
+      />
+      {currency !== savedCurrency && (
+        <Button
+          size="sm"
+          onClick={saveCurrency}
+          disabled={saving}
+          className="mt-2 bg-blue-600 hover:bg-blue-700"
+        >
+          {saving ? "Saving..." : "Save Currency"}
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -6,6 +6,8 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { JobsTab } from "./JobsTab";
+import { EstimatesTab } from "./EstimatesTab";
+import { InvoicesTab } from "./InvoicesTab";
 import { ClientsTab } from "./ClientsTab";
 import { PaymentsTab } from "./PaymentsTab";
 import { RevenueTab } from "./RevenueTab";
@@ -353,8 +355,10 @@ export const Dashboard = ({ session }: DashboardProps) => {
 
       <main className="max-w-7xl mx-auto p-4">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-5 max-w-2xl">
+          <TabsList className="grid w-full grid-cols-7 max-w-4xl">
             <TabsTrigger value="jobs">Jobs</TabsTrigger>
+            <TabsTrigger value="estimates">Estimates</TabsTrigger>
+            <TabsTrigger value="invoices">Invoices</TabsTrigger>
             <TabsTrigger value="clients">Clients</TabsTrigger>
             <TabsTrigger value="payments">Payments</TabsTrigger>
             <TabsTrigger value="revenue">Revenue</TabsTrigger>
@@ -365,6 +369,14 @@ export const Dashboard = ({ session }: DashboardProps) => {
             <JobsTab userProfile={userProfile} isDemoMode={isDemoMode} />
           </TabsContent>
 
+          <TabsContent value="estimates">
+            <EstimatesTab userProfile={userProfile} />
+          </TabsContent>
+
+          <TabsContent value="invoices">
+            <InvoicesTab userProfile={userProfile} />
+          </TabsContent>
+
           <TabsContent value="clients">
             <ClientsTab />
           </TabsContent>
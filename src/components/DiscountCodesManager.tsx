@@ -0,0 +1,384 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Plus } from "lucide-react";
+import { CurrencySelect } from "./CurrencySelect";
+import { DEFAULT_CURRENCY, formatCurrency } from "@/utils/currency";
+
+interface DiscountCodesManagerProps {
+  companyId: string | null;
+}
+
+interface DiscountCode {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: string;
+  value: number;
+  currency: string | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  max_uses: number | null;
+  max_uses_per_client: number | null;
+  active: boolean;
+  job_discounts: { count: number }[];
+}
+
+const emptyForm = () => ({
+  code: "",
+  description: "",
+  discount_type: "percentage" as 'percentage' | 'fixed',
+  value: "",
+  currency: DEFAULT_CURRENCY,
+  starts_on: "",
+  ends_on: "",
+  max_uses: "",
+  max_uses_per_client: "",
+});
+
+const parseLimit = (value: string) => value ? parseInt(value, 10) : null;
+
+export const DiscountCodesManager = ({ companyId }: DiscountCodesManagerProps) => {
+  const [codes, setCodes] = useState<DiscountCode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyForm());
+  const { toast } = useToast();
+
+  const fetchCodes = async () => {
+    if (!companyId) {
+      setCodes([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('discount_codes')
+        .select('id, code, description, discount_type, value, currency, starts_at, ends_at, max_uses, max_uses_per_client, active, job_discounts(count)')
+        .eq('company_id', companyId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching discount codes:', error);
+        throw error;
+      }
+
+      setCodes(data || []);
+    } catch (error) {
+      console.error('Failed to fetch discount codes:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load discount codes",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCodes();
+  }, [companyId]);
+
+  const addCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!companyId) return;
+
+    const code = formData.code.trim().toUpperCase();
+    const value = parseFloat(formData.value);
+    const maxUses = parseLimit(formData.max_uses);
+    const maxUsesPerClient = parseLimit(formData.max_uses_per_client);
+
+    if (!/^[A-Z0-9_-]{3,32}$/.test(code)) {
+      toast({
+        title: "Error",
+        description: "Codes are 3 to 32 letters, numbers, dashes or underscores",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (isNaN(value) || value <= 0 || (formData.discount_type === 'percentage' && value > 100)) {
+      toast({
+        title: "Error",
+        description: formData.discount_type === 'percentage'
+          ? "Enter a percentage between 0 and 100"
+          : "Enter an amount greater than zero",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if ((maxUses !== null && (isNaN(maxUses) || maxUses < 1)) ||
+      (maxUsesPerClient !== null && (isNaN(maxUsesPerClient) || maxUsesPerClient < 1))) {
+      toast({
+        title: "Error",
+        description: "Usage limits must be at least 1",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (formData.starts_on && formData.ends_on && formData.ends_on < formData.starts_on) {
+      toast({
+        title: "Error",
+        description: "The code must end after it starts",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('discount_codes')
+        .insert({
+          company_id: companyId,
+          code,
+          description: formData.description.trim() || null,
+          discount_type: formData.discount_type,
+          value,
+          currency: formData.discount_type === 'fixed' ? formData.currency : null,
+          // Dates are local; a code runs from the start of its first day to the end of its last
+          starts_at: formData.starts_on ? new Date(`${formData.starts_on}T00:00:00`).toISOString() : null,
+          ends_at: formData.ends_on ? new Date(`${formData.ends_on}T23:59:59`).toISOString() : null,
+          max_uses: maxUses,
+          max_uses_per_client: maxUsesPerClient,
+        });
+
+      if (error) {
+        console.error('Error adding discount code:', error);
+        throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: `Discount code ${code} added`,
+      });
+      setFormData(emptyForm());
+      fetchCodes();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error.code === '23505' ? "You already have a code with that name" : error.message || "Failed to add discount code",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Codes are switched off rather than deleted so jobs that used them keep their discount line
+  const toggleCode = async (discountCode: DiscountCode, active: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('discount_codes')
+        .update({ active })
+        .eq('id', discountCode.id);
+
+      if (error) throw error;
+
+      setCodes(prev => prev.map(code => code.id === discountCode.id ? { ...code, active } : code));
+    } catch (error) {
+      console.error('Failed to update discount code:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update discount code",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const describeValue = (discountCode: DiscountCode) =>
+    discountCode.discount_type === 'percentage'
+      ? `${Number(discountCode.value)}% off`
+      : `${formatCurrency(Number(discountCode.value), discountCode.currency)} off`;
+
+  const describeWindow = (discountCode: DiscountCode) => {
+    if (!discountCode.starts_at && !discountCode.ends_at) return null;
+    const from = discountCode.starts_at ? new Date(discountCode.starts_at).toLocaleDateString() : 'now';
+    const until = discountCode.ends_at ? new Date(discountCode.ends_at).toLocaleDateString() : 'no end date';
+    return `${from} – ${until}`;
+  };
+
+  if (!companyId) {
+    return (
+      <p className="text-sm text-gray-500">
+        Generate a Company ID before adding discount codes.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading discount codes...</p>
+      ) : codes.length === 0 ? (
+        <p className="text-sm text-gray-500">No discount codes yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {codes.map((discountCode) => {
+            const uses = discountCode.job_discounts[0]?.count ?? 0;
+            const validity = describeWindow(discountCode);
+            return (
+              <div key={discountCode.id} className="flex items-center justify-between p-3 border rounded-lg">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono font-medium">{discountCode.code}</span>
+                    <span className="text-sm text-gray-600">{describeValue(discountCode)}</span>
+                    {!discountCode.active && <Badge variant="secondary">Inactive</Badge>}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {discountCode.max_uses ? `${uses} of ${discountCode.max_uses} used` : `${uses} used`}
+                    {discountCode.max_uses_per_client ? ` · ${discountCode.max_uses_per_client} per client` : ''}
+                    {validity ? ` · ${validity}` : ''}
+                  </p>
+                  {discountCode.description && (
+                    <p className="text-xs text-gray-500">{discountCode.description}</p>
+                  )}
+                </div>
+                <Switch
+                  checked={discountCode.active}
+                  onCheckedChange={(checked) => toggleCode(discountCode, checked)}
+                  title={discountCode.active ? "Turn off" : "Turn on"}
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <form onSubmit={addCode} className="space-y-3 pt-2 border-t">
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label htmlFor="discount_code">Code *</Label>
+            <Input
+              id="discount_code"
+              value={formData.code}
+              onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
+              placeholder="e.g., SPRING20"
+              className="mt-1 font-mono"
+            />
+          </div>
+          <div>
+            <Label htmlFor="discount_type">Type</Label>
+            <Select
+              value={formData.discount_type}
+              onValueChange={(value) => setFormData({ ...formData, discount_type: value as 'percentage' | 'fixed' })}
+            >
+              <SelectTrigger id="discount_type" className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="percentage">Percentage off</SelectItem>
+                <SelectItem value="fixed">Fixed amount off</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label htmlFor="discount_value">{formData.discount_type === 'percentage' ? 'Percent (%) *' : 'Amount *'}</Label>
+            <Input
+              id="discount_value"
+              type="number"
+              step="0.01"
+              min="0.01"
+              max={formData.discount_type === 'percentage' ? "100" : undefined}
+              value={formData.value}
+              onChange={(e) => setFormData({ ...formData, value: e.target.value })}
+              placeholder={formData.discount_type === 'percentage' ? "e.g., 20" : "e.g., 25.00"}
+              className="mt-1"
+            />
+          </div>
+          {formData.discount_type === 'fixed' && (
+            <div>
+              <Label htmlFor="discount_currency">Currency</Label>
+              <CurrencySelect
+                id="discount_currency"
+                value={formData.currency}
+                onChange={(selected) => setFormData({ ...formData, currency: selected ?? DEFAULT_CURRENCY })}
+              />
+            </div>
+          )}
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label htmlFor="discount_starts_on">Starts</Label>
+            <Input
+              id="discount_starts_on"
+              type="date"
+              value={formData.starts_on}
+              onChange={(e) => setFormData({ ...formData, starts_on: e.target.value })}
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="discount_ends_on">Ends</Label>
+            <Input
+              id="discount_ends_on"
+              type="date"
+              value={formData.ends_on}
+              onChange={(e) => setFormData({ ...formData, ends_on: e.target.value })}
+              className="mt-1"
+            />
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label htmlFor="discount_max_uses">Total Uses</Label>
+            <Input
+              id="discount_max_uses"
+              type="number"
+              step="1"
+              min="1"
+              value={formData.max_uses}
+              onChange={(e) => setFormData({ ...formData, max_uses: e.target.value })}
+              placeholder="Unlimited"
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="discount_max_uses_per_client">Uses per Client</Label>
+            <Input
+              id="discount_max_uses_per_client"
+              type="number"
+              step="1"
+              min="1"
+              value={formData.max_uses_per_client}
+              onChange={(e) => setFormData({ ...formData, max_uses_per_client: e.target.value })}
+              placeholder="Unlimited"
+              className="mt-1"
+            />
+          </div>
+        </div>
+        <div>
+          <Label htmlFor="discount_description">Description</Label>
+          <Input
+            id="discount_description"
+            value={formData.description}
+            onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+            placeholder="e.g., Spring cleanup promo"
+            className="mt-1"
+          />
+        </div>
+        <Button
+          type="submit"
+          disabled={saving}
+          size="sm"
+          className="bg-blue-600 hover:bg-blue-700"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          {saving ? "Adding..." : "Add Discount Code"}
+        </Button>
+      </form>
+    </div>
+  );
+};
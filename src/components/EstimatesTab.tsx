@@ -0,0 +1,340 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Plus, Building, Copy, Phone, ClipboardList } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { sendSMSNotification } from "@/utils/smsService";
+import { CreateEstimateDialog } from "./CreateEstimateDialog";
+
+interface Estimate {
+  id: string;
+  title: string;
+  price: number;
+  status: 'draft' | 'sent' | 'viewed' | 'accepted' | 'declined';
+  expires_at: string;
+  phone_number: string | null;
+  deposit_type: 'fixed' | 'percentage' | null;
+  deposit_value: number | null;
+  public_token: string;
+  signature_name: string | null;
+  responded_at: string | null;
+  decline_reason: string | null;
+  job_id: string | null;
+  clients: {
+    name: string;
+  } | null;
+}
+
+interface UserProfile {
+  company_id: string | null;
+}
+
+interface EstimatesTabProps {
+  userProfile: UserProfile | null;
+}
+
+const OPEN_STATUSES = ['draft', 'sent', 'viewed'];
+
+// Date-only columns are stored as YYYY-MM-DD; parse them as local dates so they don't shift a day
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+const approvalUrl = (estimate: Estimate) => `${window.location.origin}/estimate/${estimate.public_token}`;
+
+export const EstimatesTab = ({ userProfile }: EstimatesTabProps) => {
+  const [estimates, setEstimates] = useState<Estimate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [activeTab, setActiveTab] = useState<'open' | 'accepted' | 'declined'>('open');
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [sendingIds, setSendingIds] = useState<Set<string>>(new Set());
+  const { toast } = useToast();
+
+  const fetchEstimates = async () => {
+    if (!userProfile?.company_id) {
+      setEstimates([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('estimates')
+        .select(`
+          *,
+          clients (
+            name
+          )
+        `)
+        .eq('company_id', userProfile.company_id)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching estimates:', error);
+        throw error;
+      }
+
+      setEstimates((data || []) as Estimate[]);
+    } catch (error) {
+      console.error('Failed to fetch estimates:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch estimates",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchEstimates();
+  }, [userProfile?.company_id]);
+
+  // Sharing the approval link is what sends a draft
+  const markAsSent = async (estimate: Estimate) => {
+    if (estimate.status !== 'draft') return;
+
+    const { error } = await supabase
+      .from('estimates')
+      .update({ status: 'sent', sent_at: new Date().toISOString() })
+      .eq('id', estimate.id);
+
+    if (error) {
+      console.error('Failed to mark estimate as sent:', error);
+    }
+  };
+
+  const copyApprovalLink = async (estimate: Estimate) => {
+    try {
+      await navigator.clipboard.writeText(approvalUrl(estimate));
+      await markAsSent(estimate);
+      toast({
+        title: "Copied!",
+        description: "Approval link copied to clipboard",
+      });
+      fetchEstimates();
+    } catch (error) {
+      console.error('Failed to copy approval link:', error);
+      toast({
+        title: "Error",
+        description: "Failed to copy link",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const sendBySMS = async (estimate: Estimate) => {
+    if (!estimate.phone_number) return;
+
+    setSendingIds(prev => new Set(prev).add(estimate.id));
+    try {
+      const result = await sendSMSNotification({
+        phoneNumber: estimate.phone_number,
+        message: `Hi ${estimate.clients?.name || 'there'}! Your estimate for "${estimate.title}" ($${Number(estimate.price).toFixed(2)}) is ready to review: ${approvalUrl(estimate)}`,
+      });
+
+      if (!result.success) {
+        throw new Error(result.error || "Failed to send SMS");
+      }
+
+      await markAsSent(estimate);
+      toast({
+        title: "Estimate Sent",
+        description: `Estimate sent to ${estimate.phone_number}`,
+      });
+      fetchEstimates();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send estimate",
+        variant: "destructive",
+      });
+    } finally {
+      setSendingIds(prev => {
+        const next = new Set(prev);
+        next.delete(estimate.id);
+        return next;
+      });
+    }
+  };
+
+  const isExpired = (estimate: Estimate) =>
+    OPEN_STATUSES.includes(estimate.status) && estimate.expires_at < new Date().toISOString().split('T')[0];
+
+  const getStatusColor = (status: Estimate['status']) => {
+    switch (status) {
+      case 'accepted':
+        return 'bg-green-100 text-green-800';
+      case 'sent':
+        return 'bg-blue-100 text-blue-800';
+      case 'viewed':
+        return 'bg-purple-100 text-purple-800';
+      case 'declined':
+        return 'bg-red-100 text-red-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  if (loading) {
+    return <div className="flex justify-center p-8">Loading estimates...</div>;
+  }
+
+  if (!userProfile?.company_id) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Estimates</h2>
+          <p className="text-gray-600">Quote work and get client approval before scheduling</p>
+        </div>
+        <Card className="p-12 text-center">
+          <CardContent>
+            <Building className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Company ID Required</h3>
+            <p className="text-gray-600 mb-4">
+              You need to generate a Company ID before you can create estimates.
+            </p>
+            <p className="text-sm text-gray-500">
+              Go to the Account tab to generate your Company ID first.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const filteredEstimates = estimates.filter(estimate =>
+    activeTab === 'open' ? OPEN_STATUSES.includes(estimate.status) : estimate.status === activeTab
+  );
+
+  const renderEstimate = (estimate: Estimate) => (
+    <Card key={estimate.id} className="hover:shadow-md transition-shadow">
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0 flex-1">
+            <CardTitle className="text-lg truncate">{estimate.title}</CardTitle>
+            <CardDescription className="mt-1 truncate">
+              Client: {estimate.clients?.name || 'Unknown'}
+            </CardDescription>
+          </div>
+          <div className="flex flex-col items-end gap-1">
+            <Badge className={`${getStatusColor(estimate.status)} text-xs`}>
+              {estimate.status.charAt(0).toUpperCase() + estimate.status.slice(1)}
+            </Badge>
+            {isExpired(estimate) && (
+              <Badge className="bg-gray-100 text-gray-800 text-xs">Expired</Badge>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="text-2xl font-bold text-green-600">
+          ${Number(estimate.price).toFixed(2)}
+        </div>
+        <div className="text-sm text-gray-600">
+          Valid until {formatDate(estimate.expires_at)}
+          {estimate.deposit_type && estimate.deposit_value != null && (
+            <> · {estimate.deposit_type === 'percentage'
+              ? `${Number(estimate.deposit_value)}% deposit`
+              : `$${Number(estimate.deposit_value).toFixed(2)} deposit`}</>
+          )}
+        </div>
+
+        {estimate.status === 'accepted' && (
+          <div className="text-sm text-green-600 font-medium">
+            ✅ Accepted by {estimate.signature_name}
+            {estimate.responded_at && ` on ${new Date(estimate.responded_at).toLocaleDateString()}`}
+            {estimate.job_id && <span className="block text-xs text-gray-500 font-normal">Added to your jobs</span>}
+          </div>
+        )}
+
+        {estimate.status === 'declined' && (
+          <div className="text-sm text-red-600">
+            Declined{estimate.responded_at && ` on ${new Date(estimate.responded_at).toLocaleDateString()}`}
+            {estimate.decline_reason && (
+              <span className="block text-xs text-gray-500">"{estimate.decline_reason}"</span>
+            )}
+          </div>
+        )}
+
+        {OPEN_STATUSES.includes(estimate.status) && !isExpired(estimate) && (
+          <div className="flex gap-2 pt-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => copyApprovalLink(estimate)}
+              className="flex-1"
+            >
+              <Copy className="w-4 h-4 mr-1" />
+              Copy Link
+            </Button>
+            {estimate.phone_number && (
+              <Button
+                size="sm"
+                onClick={() => sendBySMS(estimate)}
+                disabled={sendingIds.has(estimate.id)}
+                className="flex-1 bg-blue-600 hover:bg-blue-700"
+              >
+                <Phone className="w-4 h-4 mr-1" />
+                {sendingIds.has(estimate.id) ? "Sending..." : "Send SMS"}
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Estimates</h2>
+          <p className="text-gray-600">Quote work and get client approval before scheduling</p>
+        </div>
+        <Button
+          onClick={() => setShowCreateDialog(true)}
+          className="bg-blue-600 hover:bg-blue-700"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          New Estimate
+        </Button>
+      </div>
+
+      <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as 'open' | 'accepted' | 'declined')}>
+        <TabsList className="grid w-full grid-cols-3 max-w-md">
+          <TabsTrigger value="open">Open</TabsTrigger>
+          <TabsTrigger value="accepted">Accepted</TabsTrigger>
+          <TabsTrigger value="declined">Declined</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value={activeTab} className="mt-6">
+          {filteredEstimates.length > 0 ? (
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {filteredEstimates.map(renderEstimate)}
+            </div>
+          ) : (
+            <Card className="p-12 text-center">
+              <CardContent>
+                <ClipboardList className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-500">No {activeTab} estimates</p>
+                <p className="text-sm text-gray-400 mt-2">
+                  Accepted estimates become jobs automatically
+                </p>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <CreateEstimateDialog
+        companyId={userProfile.company_id}
+        open={showCreateDialog}
+        onOpenChange={setShowCreateDialog}
+        onEstimateCreated={fetchEstimates}
+      />
+    </div>
+  );
+};
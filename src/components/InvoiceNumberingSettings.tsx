@@ -0,0 +1,130 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+interface InvoiceNumberingSettingsProps {
+  companyId: string | null;
+}
+
+export const InvoiceNumberingSettings = ({ companyId }: InvoiceNumberingSettingsProps) => {
+  const [prefix, setPrefix] = useState("INV-");
+  const [nextNumber, setNextNumber] = useState("1001");
+  // Numbers already handed out can't be reused, so the sequence only moves forward
+  const [minNextNumber, setMinNextNumber] = useState(1);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const fetchSequence = async () => {
+    if (!companyId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('invoice_sequences')
+        .select('prefix, next_number')
+        .eq('company_id', companyId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (data) {
+        setPrefix(data.prefix);
+        setNextNumber(String(data.next_number));
+        setMinNextNumber(data.next_number);
+      }
+    } catch (error) {
+      console.error('Failed to fetch invoice numbering:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchSequence();
+  }, [companyId]);
+
+  const saveSequence = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!companyId) return;
+
+    const parsedNextNumber = parseInt(nextNumber, 10);
+    if (isNaN(parsedNextNumber) || parsedNextNumber < minNextNumber) {
+      toast({
+        title: "Error",
+        description: `Next number must be at least ${minNextNumber}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      // Goes through the database so the sequence is never moved back behind a number already used
+      const { error } = await supabase.rpc('set_invoice_numbering', {
+        new_prefix: prefix.trim(),
+        new_next_number: parsedNextNumber,
+      });
+
+      if (error) {
+        console.error('Error saving invoice numbering:', error);
+        throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: `Next invoice will be ${prefix.trim()}${parsedNextNumber}`,
+      });
+      fetchSequence();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save invoice numbering",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!companyId) {
+    return null;
+  }
+
+  return (
+    <form onSubmit={saveSequence} className="space-y-3 pt-4 mt-4 border-t">
+      <span className="text-sm font-medium">Invoice Numbering</span>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label htmlFor="invoice_prefix">Prefix</Label>
+          <Input
+            id="invoice_prefix"
+            value={prefix}
+            onChange={(e) => setPrefix(e.target.value)}
+            placeholder="e.g., INV-"
+            className="mt-1"
+          />
+        </div>
+        <div>
+          <Label htmlFor="invoice_next_number">Next Number</Label>
+          <Input
+            id="invoice_next_number"
+            type="number"
+            min={minNextNumber}
+            step="1"
+            value={nextNumber}
+            onChange={(e) => setNextNumber(e.target.value)}
+            className="mt-1"
+          />
+        </div>
+      </div>
+      <Button
+        type="submit"
+        size="sm"
+        disabled={saving}
+        className="bg-blue-600 hover:bg-blue-700"
+      >
+        {saving ? "Saving..." : "Save Numbering"}
+      </Button>
+    </form>
+  );
+};
@@ -0,0 +1,362 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Plus, Building, Send, Ban, FileText } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { CreateInvoiceDialog } from "./CreateInvoiceDialog";
+import { daysOverdue } from "@/utils/paymentTerms";
+
+interface InvoiceJob {
+  id: string;
+  title: string;
+  job_name: string | null;
+  price: number;
+  status: string | null;
+}
+
+interface Invoice {
+  id: string;
+  invoice_number: string;
+  status: 'draft' | 'sent' | 'viewed' | 'paid' | 'void';
+  issue_date: string;
+  due_date: string | null;
+  notes: string | null;
+  sent_at: string | null;
+  paid_at: string | null;
+  clients: {
+    name: string;
+  } | null;
+  jobs: InvoiceJob[];
+}
+
+interface UserProfile {
+  company_id: string | null;
+}
+
+interface InvoicesTabProps {
+  userProfile: UserProfile | null;
+}
+
+const OPEN_STATUSES = ['draft', 'sent', 'viewed'];
+
+// Date-only columns are stored as YYYY-MM-DD; parse them as local dates so they don't shift a day
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+export const InvoicesTab = ({ userProfile }: InvoicesTabProps) => {
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [activeTab, setActiveTab] = useState<'open' | 'paid' | 'void'>('open');
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [updatingIds, setUpdatingIds] = useState<Set<string>>(new Set());
+  const { toast } = useToast();
+
+  const fetchInvoices = async () => {
+    if (!userProfile?.company_id) {
+      setInvoices([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('invoices')
+        .select(`
+          *,
+          clients (
+            name
+          ),
+          jobs (
+            id,
+            title,
+            job_name,
+            price,
+            status
+          )
+        `)
+        .eq('company_id', userProfile.company_id)
+        .order('sequence_number', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching invoices:', error);
+        throw error;
+      }
+
+      setInvoices((data || []) as Invoice[]);
+    } catch (error) {
+      console.error('Failed to fetch invoices:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch invoices",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchInvoices();
+  }, [userProfile?.company_id]);
+
+  const setUpdating = (invoiceId: string, updating: boolean) => {
+    setUpdatingIds(prev => {
+      const next = new Set(prev);
+      if (updating) {
+        next.add(invoiceId);
+      } else {
+        next.delete(invoiceId);
+      }
+      return next;
+    });
+  };
+
+  const markAsSent = async (invoice: Invoice) => {
+    setUpdating(invoice.id, true);
+    try {
+      const { error } = await supabase
+        .from('invoices')
+        .update({ status: 'sent', sent_at: new Date().toISOString() })
+        .eq('id', invoice.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Invoice Sent",
+        description: `Invoice ${invoice.invoice_number} marked as sent`,
+      });
+      fetchInvoices();
+    } catch (error) {
+      console.error('Failed to mark invoice as sent:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update invoice",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdating(invoice.id, false);
+    }
+  };
+
+  // Voiding keeps the number in the sequence but frees its jobs to be invoiced again
+  const voidInvoice = async (invoice: Invoice) => {
+    setUpdating(invoice.id, true);
+    try {
+      const { error: jobsError } = await supabase
+        .from('jobs')
+        .update({ invoice_id: null })
+        .eq('invoice_id', invoice.id);
+
+      if (jobsError) throw jobsError;
+
+      const { error } = await supabase
+        .from('invoices')
+        .update({ status: 'void', voided_at: new Date().toISOString() })
+        .eq('id', invoice.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Invoice Voided",
+        description: `Invoice ${invoice.invoice_number} has been voided`,
+      });
+      fetchInvoices();
+    } catch (error) {
+      console.error('Failed to void invoice:', error);
+      toast({
+        title: "Error",
+        description: "Failed to void invoice",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdating(invoice.id, false);
+    }
+  };
+
+  const getStatusColor = (status: Invoice['status']) => {
+    switch (status) {
+      case 'paid':
+        return 'bg-green-100 text-green-800';
+      case 'sent':
+        return 'bg-blue-100 text-blue-800';
+      case 'viewed':
+        return 'bg-purple-100 text-purple-800';
+      case 'void':
+        return 'bg-red-100 text-red-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const invoiceTotal = (invoice: Invoice) =>
+    invoice.jobs.reduce((sum, job) => sum + Number(job.price), 0);
+
+  const invoiceDaysOverdue = (invoice: Invoice) =>
+    OPEN_STATUSES.includes(invoice.status) ? daysOverdue(invoice.due_date) : 0;
+
+  // Only invoices with no money collected yet can be voided
+  const canVoid = (invoice: Invoice) =>
+    OPEN_STATUSES.includes(invoice.status) && invoice.jobs.every(job => job.status === 'pending');
+
+  if (loading) {
+    return <div className="flex justify-center p-8">Loading invoices...</div>;
+  }
+
+  if (!userProfile?.company_id) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Invoices</h2>
+          <p className="text-gray-600">Bill clients for one or more jobs</p>
+        </div>
+        <Card className="p-12 text-center">
+          <CardContent>
+            <Building className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Company ID Required</h3>
+            <p className="text-gray-600 mb-4">
+              You need to generate a Company ID before you can create invoices.
+            </p>
+            <p className="text-sm text-gray-500">
+              Go to the Account tab to generate your Company ID first.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const filteredInvoices = invoices.filter(invoice =>
+    activeTab === 'open' ? OPEN_STATUSES.includes(invoice.status) : invoice.status === activeTab
+  );
+
+  const renderInvoice = (invoice: Invoice) => (
+    <Card key={invoice.id} className="hover:shadow-md transition-shadow">
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0 flex-1">
+            <CardTitle className="text-lg">{invoice.invoice_number}</CardTitle>
+            <CardDescription className="mt-1 truncate">
+              Client: {invoice.clients?.name || 'Unknown'}
+            </CardDescription>
+          </div>
+          <div className="flex flex-col items-end gap-1">
+            <Badge className={`${getStatusColor(invoice.status)} text-xs`}>
+              {invoice.status.charAt(0).toUpperCase() + invoice.status.slice(1)}
+            </Badge>
+            {invoiceDaysOverdue(invoice) > 0 && (
+              <Badge className="bg-red-100 text-red-800 border-red-200 text-xs">
+                {invoiceDaysOverdue(invoice)} {invoiceDaysOverdue(invoice) === 1 ? 'day' : 'days'} overdue
+              </Badge>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="text-2xl font-bold text-green-600">
+          ${invoiceTotal(invoice).toFixed(2)}
+        </div>
+        <div className="text-sm text-gray-600">
+          Issued {formatDate(invoice.issue_date)}
+          {invoice.due_date && ` · Due ${formatDate(invoice.due_date)}`}
+        </div>
+        <div className="space-y-1">
+          {invoice.jobs.map((job) => (
+            <div key={job.id} className="flex justify-between text-sm">
+              <span className="truncate">{job.job_name || job.title}</span>
+              <span className="text-gray-600">${Number(job.price).toFixed(2)}</span>
+            </div>
+          ))}
+        </div>
+        {invoice.notes && (
+          <p className="text-xs text-gray-500">{invoice.notes}</p>
+        )}
+        {invoice.paid_at && (
+          <div className="text-sm text-green-600 font-medium">
+            ✅ Paid on {new Date(invoice.paid_at).toLocaleDateString()}
+          </div>
+        )}
+
+        {(invoice.status === 'draft' || canVoid(invoice)) && (
+          <div className="flex gap-2 pt-2">
+            {invoice.status === 'draft' && (
+              <Button
+                size="sm"
+                onClick={() => markAsSent(invoice)}
+                disabled={updatingIds.has(invoice.id)}
+                className="flex-1 bg-blue-600 hover:bg-blue-700"
+              >
+                <Send className="w-4 h-4 mr-1" />
+                Mark as Sent
+              </Button>
+            )}
+            {canVoid(invoice) && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => voidInvoice(invoice)}
+                disabled={updatingIds.has(invoice.id)}
+                className="flex-1 text-red-600 border-red-300"
+              >
+                <Ban className="w-4 h-4 mr-1" />
+                Void
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Invoices</h2>
+          <p className="text-gray-600">Bill clients for one or more jobs</p>
+        </div>
+        <Button
+          onClick={() => setShowCreateDialog(true)}
+          className="bg-blue-600 hover:bg-blue-700"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          New Invoice
+        </Button>
+      </div>
+
+      <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as 'open' | 'paid' | 'void')}>
+        <TabsList className="grid w-full grid-cols-3 max-w-md">
+          <TabsTrigger value="open">Open</TabsTrigger>
+          <TabsTrigger value="paid">Paid</TabsTrigger>
+          <TabsTrigger value="void">Void</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value={activeTab} className="mt-6">
+          {filteredInvoices.length > 0 ? (
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {filteredInvoices.map(renderInvoice)}
+            </div>
+          ) : (
+            <Card className="p-12 text-center">
+              <CardContent>
+                <FileText className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-500">No {activeTab} invoices</p>
+                <p className="text-sm text-gray-400 mt-2">
+                  Invoices are also created automatically when a job's payment link is generated
+                </p>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <CreateInvoiceDialog
+        companyId={userProfile.company_id}
+        open={showCreateDialog}
+        onOpenChange={setShowCreateDialog}
+        onInvoiceCreated={fetchInvoices}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,169 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/utils/currency";
+
+interface CreditableJob {
+  id: string;
+  title: string;
+  job_name: string | null;
+  company_id: string;
+  client_id: string;
+  currency: string;
+}
+
+interface IssueCreditDialogProps {
+  job: CreditableJob | null;
+  clientName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onIssued: () => void;
+}
+
+// Credit notes add to the client's account credit, which is spent on their next job automatically
+export const IssueCreditDialog = ({ job, clientName, open, onOpenChange, onIssued }: IssueCreditDialogProps) => {
+  const [loading, setLoading] = useState(false);
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      setAmount("");
+      setReason("");
+    }
+  }, [open, job?.id]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!job) return;
+
+    const creditAmount = parseFloat(amount);
+    if (!creditAmount || creditAmount <= 0) {
+      toast({
+        title: "Error",
+        description: "Enter a credit amount greater than zero",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!reason.trim()) {
+      toast({
+        title: "Error",
+        description: "Add a reason for the credit",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { error } = await supabase
+        .from('credit_notes')
+        .insert({
+          company_id: job.company_id,
+          client_id: job.client_id,
+          job_id: job.id,
+          amount: Math.round(creditAmount * 100),
+          currency: job.currency,
+          reason: reason.trim(),
+          issued_by: user?.id ?? null,
+        });
+
+      if (error) {
+        console.error('Error issuing credit note:', error);
+        throw error;
+      }
+
+      toast({
+        title: "Credit Issued",
+        description: `${formatCurrency(creditAmount, job.currency)} credit will be applied to ${clientName}'s next job`,
+      });
+
+      onIssued();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to issue credit:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to issue credit",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Issue Credit Note</DialogTitle>
+          <DialogDescription>
+            {job ? `Credit ${clientName} against "${job.job_name || job.title}"` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="credit_amount">Amount ({job?.currency.toUpperCase()}) *</Label>
+            <Input
+              id="credit_amount"
+              type="number"
+              step="0.01"
+              min="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="0.00"
+              required
+              className="mt-1"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="credit_reason">Reason *</Label>
+            <Textarea
+              id="credit_reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g., Overcharged for materials"
+              rows={3}
+              required
+              className="mt-1"
+            />
+          </div>
+
+          <p className="text-xs text-gray-500">
+            The credit is taken off the amount due on this client's next job in the same currency before they're asked to pay.
+          </p>
+
+          <div className="flex gap-2 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={loading}
+              className="flex-1 bg-blue-600 hover:bg-blue-700"
+            >
+              {loading ? "Issuing..." : "Issue Credit"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -3,12 +3,38 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Plus, ExternalLink, CheckCircle, Clock, Link, DollarSign, Building, Copy, Phone, FileText } from "lucide-react";
+import { Plus, ExternalLink, CheckCircle, Clock, Link, DollarSign, Building, Copy, Phone, FileText, RotateCcw, ShieldAlert, Banknote, Landmark, Percent, AlertTriangle, Bell, ClipboardCheck } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { CreateJobDialog } from "./CreateJobDialog";
 import { sendSMSNotification, formatPaymentLinkSMS } from "@/utils/smsService";
 import { ReceiptViewer } from "./ReceiptViewer";
+import { RefundJobDialog } from "./RefundJobDialog";
+import { RecordPaymentDialog } from "./RecordPaymentDialog";
+import { RequestDepositDialog, DepositRequest } from "./RequestDepositDialog";
+import { daysOverdue, isJobOverdue } from "@/utils/paymentTerms";
+import { formatCurrency } from "@/utils/currency";
+
+interface Dispute {
+  id: string;
+  status: string;
+  amount: number;
+  evidence_due_by: string | null;
+}
+
+interface JobPayment {
+  amount: number;
+  base_amount: number | null;
+  refunded_base_amount: number;
+  tip_amount: number;
+  payment_status: string;
+}
+
+interface JobReminder {
+  channel: 'sms' | 'email';
+  status: 'sent' | 'failed';
+  sent_at: string;
+}
 
 interface Job {
   id: string;
@@ -17,19 +43,38 @@ interface Job {
   client_name: string | null;
   client_id: string;
   price: number;
+  currency: string;
+  tax_amount: number;
+  late_fee_amount: number;
   company_id: string | null;
-  status: 'pending' | 'paid' | 'completed' | 'test' | null;
+  status: 'pending' | 'partially_paid' | 'processing' | 'paid' | 'completed' | 'test' | 'partially_refunded' | 'refunded' | null;
   payment_url: string | null;
   paid_at: string | null;
   created_at: string;
   description: string | null;
   scheduled_date: string;
+  due_date: string | null;
   is_recurring: boolean | null;
   frequency: string | null;
   stripe_checkout_url: string | null;
+  payment_url_expires_at: string | null;
+  autopay_failed_at: string | null;
+  autopay_error: string | null;
+  completed_at: string | null;
   phone_number: string | null;
+  crew_member: string | null;
   updated_at: string;
   receipt_id: string | null;
+  invoice_id: string | null;
+  public_token: string;
+  viewed_at: string | null;
+  last_viewed_at: string | null;
+  disputes: Dispute[];
+  payments: JobPayment[];
+  invoices: {
+    invoice_number: string;
+  } | null;
+  job_reminders: JobReminder[];
 }
 
 interface UserProfile {
@@ -38,6 +83,13 @@ interface UserProfile {
   stripe_connected?: boolean;
 }
 
+// Clients get the hosted invoice page; it creates a fresh checkout session when they pay
+const invoiceUrl = (job: Job) => `${window.location.origin}/invoice/${job.public_token}`;
+
+// Checkout sessions expire after 24 hours; the webhook also marks sessions expired early
+const isPaymentLinkStale = (job: Job) =>
+  job.payment_url_expires_at != null && new Date(job.payment_url_expires_at) <= new Date();
+
 interface JobsTabProps {
   userProfile?: UserProfile | null;
   isDemoMode?: boolean;
@@ -47,9 +99,12 @@ export const JobsTab = ({ userProfile: propUserProfile, isDemoMode = false }: Jo
   const [jobs, setJobs] = useState<Job[]>([]);
   const [userProfile, setUserProfile] = useState<UserProfile | null>(propUserProfile || null);
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'pending' | 'paid'>('pending');
+  const [activeTab, setActiveTab] = useState<'pending' | 'overdue' | 'paid'>('pending');
   const [showCreateDialog, setShowCreateDialog] = useState(false);
   const [generatingLinks, setGeneratingLinks] = useState<Set<string>>(new Set());
+  const [refundJob, setRefundJob] = useState<Job | null>(null);
+  const [recordPaymentJob, setRecordPaymentJob] = useState<Job | null>(null);
+  const [depositJob, setDepositJob] = useState<Job | null>(null);
   const { toast } = useToast();
 
   const fetchUserProfile = async () => {
@@ -145,7 +200,30 @@ export const JobsTab = ({ userProfile: propUserProfile, isDemoMode = false }: Jo
 
       const { data, error } = await supabase
         .from('jobs')
-        .select('*')
+        .select(`
+          *,
+          disputes (
+            id,
+            status,
+            amount,
+            evidence_due_by
+          ),
+          payments (
+            amount,
+            base_amount,
+            refunded_base_amount,
+            tip_amount,
+            payment_status
+          ),
+          invoices (
+            invoice_number
+          ),
+          job_reminders (
+            channel,
+            status,
+            sent_at
+          )
+        `)
         .eq('company_id', profile.company_id)
         .order('created_at', { ascending: false });
 
@@ -159,7 +237,7 @@ export const JobsTab = ({ userProfile: propUserProfile, isDemoMode = false }: Jo
       // Type assertion to handle the status field
       const typedJobs = (data || []).map(job => ({
         ...job,
-        status: job.status as 'pending' | 'paid' | 'completed' | 'test' | null
+        status: job.status as 'pending' | 'partially_paid' | 'processing' | 'paid' | 'completed' | 'test' | 'partially_refunded' | 'refunded' | null
       })) as Job[];
       
       setJobs(typedJobs);
@@ -188,7 +266,7 @@ export const JobsTab = ({ userProfile: propUserProfile, isDemoMode = false }: Jo
     initialize();
   }, [propUserProfile]);
 
-  const generatePaymentLink = async (jobId: string) => {
+  const generatePaymentLink = async (jobId: string, deposit?: DepositRequest) => {
     if (isDemoMode) {
       toast({
         title: "Demo Mode",
@@ -203,7 +281,7 @@ export const JobsTab = ({ userProfile: propUserProfile, isDemoMode = false }: Jo
     
     try {
       const { data, error } = await supabase.functions.invoke('create-checkout', {
-        body: { jobId }
+        body: { jobId, deposit, applyCredit: true }
       });
 
       if (error) {
@@ -215,6 +293,9 @@ export const JobsTab = ({ userProfile: propUserProfile, isDemoMode = false }: Jo
       console.log('Generated payment URL:', data.url);
 
       if (data.success && data.url) {
+        const job = jobs.find(j => j.id === jobId);
+        const linkUrl = job ? invoiceUrl(job) : data.url;
+
         // Show success toast with the payment link and copy functionality
         toast({
           title: "Payment Link Generated!",
@@ -222,13 +303,13 @@ export const JobsTab = ({ userProfile: propUserProfile, isDemoMode = false }: Jo
             <div className="space-y-2">
               <p className="text-sm">Link created successfully</p>
               <div className="flex items-center gap-2 p-2 bg-gray-50 rounded">
-                <code className="text-xs flex-1 break-all">{data.url}</code>
+                <code className="text-xs flex-1 break-all">{linkUrl}</code>
                 <Button
                   size="sm"
                   variant="outline"
                   onClick={async () => {
                     try {
-                      await navigator.clipboard.writeText(data.url);
+                      await navigator.clipboard.writeText(linkUrl);
                       toast({
                         title: "Copied!",
                         description: "Payment link copied to clipboard",
@@ -252,17 +333,15 @@ export const JobsTab = ({ userProfile: propUserProfile, isDemoMode = false }: Jo
           duration: 10000, // Show for 10 seconds
         });
 
-        // Find the job to get phone number and details for SMS
-        const job = jobs.find(j => j.id === jobId);
-        
         if (job && job.phone_number) {
           console.log('Job has phone number, sending SMS notification');
           
           const smsMessage = formatPaymentLinkSMS(
-            data.url,
+            linkUrl,
             job.job_name || job.title,
             job.client_name || 'Valued Client',
-            job.price
+            data.pricing_info?.base_price ?? job.price,
+            job.currency
           );
 
           const smsResult = await sendSMSNotification({
@@ -280,6 +359,13 @@ export const JobsTab = ({ userProfile: propUserProfile, isDemoMode = false }: Jo
           }
         }
 
+        await fetchJobs();
+      } else if (data.success && data.paidWithCredit) {
+        const job = jobs.find(j => j.id === jobId);
+        toast({
+          title: "Paid with Account Credit",
+          description: `${formatCurrency(data.creditApplied, job?.currency)} of the client's credit covered this job, so no payment link is needed`,
+        });
         await fetchJobs();
       } else {
         throw new Error(data.error || "Failed to generate payment link");
@@ -300,6 +386,32 @@ export const JobsTab = ({ userProfile: propUserProfile, isDemoMode = false }: Jo
     }
   };
 
+  // Recurring occurrences are only charged to a saved card once the work is marked completed
+  const markCompleted = async (job: Job) => {
+    try {
+      const completedAt = new Date().toISOString();
+      const { error } = await supabase
+        .from('jobs')
+        .update({ completed_at: completedAt })
+        .eq('id', job.id);
+
+      if (error) throw error;
+
+      setJobs(prev => prev.map(existing => existing.id === job.id ? { ...existing, completed_at: completedAt } : existing));
+      toast({
+        title: "Job Completed",
+        description: "The client's saved card will be charged on the next automatic run",
+      });
+    } catch (error) {
+      console.error('Failed to mark job completed:', error);
+      toast({
+        title: "Error",
+        description: "Failed to mark job completed",
+        variant: "destructive",
+      });
+    }
+  };
+
   const copyPaymentLink = async (url: string) => {
     try {
       await navigator.clipboard.writeText(url);
@@ -340,8 +452,15 @@ export const JobsTab = ({ userProfile: propUserProfile, isDemoMode = false }: Jo
         return <CheckCircle className="w-4 h-4 text-green-600" />;
       case 'pending':
         return <Clock className="w-4 h-4 text-yellow-600" />;
+      case 'partially_paid':
+        return <Clock className="w-4 h-4 text-orange-600" />;
+      case 'processing':
+        return <Landmark className="w-4 h-4 text-blue-600" />;
       case 'completed':
         return <CheckCircle className="w-4 h-4 text-blue-600" />;
+      case 'partially_refunded':
+      case 'refunded':
+        return <RotateCcw className="w-4 h-4 text-red-600" />;
       default:
         return <Clock className="w-4 h-4 text-gray-600" />;
     }
@@ -353,15 +472,113 @@ export const JobsTab = ({ userProfile: propUserProfile, isDemoMode = false }: Jo
         return 'bg-green-100 text-green-800 border-green-200';
       case 'pending':
         return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+      case 'partially_paid':
+        return 'bg-orange-100 text-orange-800 border-orange-200';
+      case 'processing':
+        return 'bg-blue-100 text-blue-800 border-blue-200';
       case 'completed':
         return 'bg-blue-100 text-blue-800 border-blue-200';
+      case 'partially_refunded':
+      case 'refunded':
+        return 'bg-red-100 text-red-800 border-red-200';
       default:
         return 'bg-gray-100 text-gray-800 border-gray-200';
     }
   };
 
-  const pendingJobs = jobs.filter(job => job.status === 'pending' || job.status === 'test');
-  const paidJobs = jobs.filter(job => job.status === 'paid' || job.status === 'completed');
+  // Tips collected on top of the job price, in dollars
+  const getTipTotal = (job: Job) =>
+    (job.payments || [])
+      .filter(payment => payment.payment_status === 'paid' || payment.payment_status === 'partially_refunded')
+      .reduce((sum, payment) => sum + (payment.tip_amount || 0), 0) / 100;
+
+  // Amount applied to the job price so far, in dollars (excludes processing fees)
+  const getAmountPaid = (job: Job) =>
+    (job.payments || [])
+      .filter(payment => payment.payment_status === 'paid' || payment.payment_status === 'partially_refunded')
+      .reduce((sum, payment) => sum + Math.max((payment.base_amount ?? payment.amount) - (payment.refunded_base_amount || 0), 0), 0) / 100;
+
+  // Disputes Stripe still considers open; won, lost and closed warnings need no action
+  const getOpenDispute = (job: Job) =>
+    job.disputes?.find(dispute => !['won', 'lost', 'warning_closed'].includes(dispute.status));
+
+  const DisputeBadge = ({ job }: { job: Job }) => {
+    const openDispute = getOpenDispute(job);
+
+    if (openDispute) {
+      return (
+        <div className="flex items-center gap-2 mt-2">
+          <Badge className="bg-red-100 text-red-800 border-red-200 text-xs">
+            <ShieldAlert className="w-3 h-3 mr-1" />
+            Disputed
+          </Badge>
+          {openDispute.evidence_due_by && (
+            <span className="text-xs text-red-600">
+              Evidence due {new Date(openDispute.evidence_due_by).toLocaleDateString()}
+            </span>
+          )}
+        </div>
+      );
+    }
+
+    if (job.disputes?.some(dispute => dispute.status === 'lost')) {
+      return (
+        <div className="mt-2">
+          <Badge className="bg-red-100 text-red-800 border-red-200 text-xs">
+            <ShieldAlert className="w-3 h-3 mr-1" />
+            Dispute lost
+          </Badge>
+        </div>
+      );
+    }
+
+    return null;
+  };
+
+  const pendingJobs = jobs.filter(job => job.status === 'pending' || job.status === 'partially_paid' || job.status === 'processing' || job.status === 'test');
+  const overdueJobs = jobs
+    .filter(isJobOverdue)
+    .sort((a, b) => daysOverdue(b.due_date) - daysOverdue(a.due_date));
+  const paidJobs = jobs.filter(job =>
+    job.status === 'paid' || job.status === 'completed' ||
+    job.status === 'partially_refunded' || job.status === 'refunded'
+  );
+
+  // Reminders are logged by the send-payment-reminders function
+  const ReminderSummary = ({ job }: { job: Job }) => {
+    const sentReminders = (job.job_reminders || []).filter(reminder => reminder.status === 'sent');
+    if (sentReminders.length === 0) return null;
+
+    const lastReminder = sentReminders.reduce((latest, reminder) =>
+      reminder.sent_at > latest.sent_at ? reminder : latest
+    );
+
+    return (
+      <div className="flex items-center gap-1 text-xs text-gray-500">
+        <Bell className="w-3 h-3" />
+        <span>
+          {sentReminders.length} {sentReminders.length === 1 ? 'reminder' : 'reminders'} sent · last by {lastReminder.channel === 'sms' ? 'SMS' : 'email'} on {new Date(lastReminder.sent_at).toLocaleDateString()}
+        </span>
+      </div>
+    );
+  };
+
+  const getStatusLabel = (status: string | null) => {
+    switch (status) {
+      case 'paid':
+        return '✅ Paid';
+      case 'partially_paid':
+        return 'Partially paid';
+      case 'processing':
+        return 'Bank payment processing';
+      case 'partially_refunded':
+        return 'Partially refunded';
+      case 'refunded':
+        return 'Refunded';
+      default:
+        return status;
+    }
+  };
 
   const JobCard = ({ job }: { job: Job }) => (
     <Card key={job.id} className="hover:shadow-md transition-shadow">
@@ -371,6 +588,7 @@ export const JobsTab = ({ userProfile: propUserProfile, isDemoMode = false }: Jo
             <CardTitle className="text-lg truncate">{job.job_name || job.title}</CardTitle>
             <CardDescription className="mt-1 truncate">
               Client: {job.client_name}
+              {job.invoices && ` · Invoice ${job.invoices.invoice_number}`}
             </CardDescription>
             <div className="flex items-center gap-2 mt-2">
               <code className="text-xs bg-gray-100 px-2 py-1 rounded text-gray-600 font-mono">
@@ -395,26 +613,81 @@ export const JobsTab = ({ userProfile: propUserProfile, isDemoMode = false }: Jo
           <div className="flex items-center gap-1 flex-shrink-0">
             {getStatusIcon(job.status)}
             <Badge className={`${getStatusColor(job.status)} text-xs`}>
-              {job.status === 'paid' ? '✅ Paid' : job.status}
+              {getStatusLabel(job.status)}
             </Badge>
           </div>
         </div>
+        <DisputeBadge job={job} />
+        {isJobOverdue(job) && (
+          <Badge className="bg-red-100 text-red-800 border-red-200 text-xs w-fit">
+            <AlertTriangle className="w-3 h-3 mr-1" />
+            {daysOverdue(job.due_date)} {daysOverdue(job.due_date) === 1 ? 'day' : 'days'} overdue
+          </Badge>
+        )}
       </CardHeader>
       <CardContent className="space-y-3">
         <div className="text-2xl font-bold text-green-600">
-          ${job.price.toFixed(2)}
+          {formatCurrency(job.price, job.currency)}
         </div>
+        {job.tax_amount > 0 && (
+          <div className="text-xs text-gray-500">
+            Includes {formatCurrency(job.tax_amount, job.currency)} sales tax
+          </div>
+        )}
+        {job.late_fee_amount > 0 && (
+          <div className="text-xs text-red-600">
+            Includes {formatCurrency(job.late_fee_amount, job.currency)} in late fees
+          </div>
+        )}
+        {job.crew_member && (
+          <div className="text-xs text-gray-500">
+            Crew: {job.crew_member}
+          </div>
+        )}
+        {getTipTotal(job) > 0 && (
+          <div className="text-xs text-green-600">
+            +{formatCurrency(getTipTotal(job), job.currency)} tip
+          </div>
+        )}
+        {job.due_date && (job.status === 'pending' || job.status === 'partially_paid') && (
+          <div className={`text-xs ${isJobOverdue(job) ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+            Due {new Date(`${job.due_date}T00:00:00`).toLocaleDateString()}
+          </div>
+        )}
+        <ReminderSummary job={job} />
+        {job.is_recurring && job.completed_at && (job.status === 'pending' || job.status === 'partially_paid') && (
+          <div className="text-xs text-gray-500">
+            Completed {new Date(job.completed_at).toLocaleDateString()}
+          </div>
+        )}
+        {job.autopay_failed_at && (job.status === 'pending' || job.status === 'partially_paid') && (
+          <div className="text-xs text-red-600">
+            Automatic charge failed {new Date(job.autopay_failed_at).toLocaleDateString()}
+            {job.autopay_error && `: ${job.autopay_error}`}
+          </div>
+        )}
+        {job.status === 'partially_paid' && (
+          <div className="text-sm text-orange-600 font-medium">
+            Paid {formatCurrency(getAmountPaid(job), job.currency)} · Balance {formatCurrency(Math.max(job.price - getAmountPaid(job), 0), job.currency)}
+          </div>
+        )}
         {job.paid_at && (
           <div className="text-sm text-green-600 font-medium">
             ✅ Paid on {new Date(job.paid_at).toLocaleDateString()} at {new Date(job.paid_at).toLocaleTimeString()}
           </div>
         )}
         
-        {job.status === 'paid' ? (
+        {job.status === 'paid' || job.status === 'partially_refunded' || job.status === 'refunded' ? (
           <div className="space-y-2">
-            <div className="text-sm text-green-600 font-medium">
-              Payment completed
-            </div>
+            {job.status === 'paid' ? (
+              <div className="text-sm text-green-600 font-medium">
+                Payment completed
+              </div>
+            ) : (
+              <div className="text-sm text-red-600 font-medium">
+                {job.status === 'refunded' ? 'Payment refunded' : 'Payment partially refunded'}
+              </div>
+            )}
             {job.receipt_id && (
               <ReceiptViewer 
                 jobId={job.id} 
@@ -427,6 +700,21 @@ export const JobsTab = ({ userProfile: propUserProfile, isDemoMode = false }: Jo
                 }
               />
             )}
+            {job.status !== 'refunded' && !isDemoMode && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setRefundJob(job)}
+                className="w-full text-red-600 hover:text-red-700"
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Refund
+              </Button>
+            )}
+          </div>
+        ) : job.status === 'processing' ? (
+          <div className="text-sm text-blue-600 font-medium">
+            Bank payment submitted · usually clears in a few business days
           </div>
         ) : (
           <div className="space-y-2">
@@ -436,24 +724,43 @@ export const JobsTab = ({ userProfile: propUserProfile, isDemoMode = false }: Jo
                   <Button
                     size="sm"
                     variant="outline"
-                    onClick={() => window.open(job.payment_url || job.stripe_checkout_url!, '_blank')}
+                    onClick={() => window.open(invoiceUrl(job), '_blank')}
                     className="flex-1 min-w-0"
                   >
                     <ExternalLink className="w-4 h-4 mr-1 flex-shrink-0" />
-                    <span className="truncate">Open Link</span>
+                    <span className="truncate">Open Invoice</span>
                   </Button>
                   <Button
                     size="sm"
                     variant="outline"
-                    onClick={() => copyPaymentLink(job.payment_url || job.stripe_checkout_url!)}
+                    onClick={() => copyPaymentLink(invoiceUrl(job))}
                     className="flex-shrink-0"
                   >
                     <Link className="w-4 h-4" />
                   </Button>
                 </div>
                 <div className="text-xs text-gray-500 bg-gray-50 p-2 rounded break-all">
-                  {job.payment_url || job.stripe_checkout_url}
+                  {invoiceUrl(job)}
                 </div>
+                {job.viewed_at && (
+                  <div className="text-xs text-purple-600">
+                    Viewed {new Date(job.last_viewed_at ?? job.viewed_at).toLocaleString()}
+                  </div>
+                )}
+                {isPaymentLinkStale(job) && (
+                  <div className="flex items-center justify-between gap-2 text-xs text-amber-700 bg-amber-50 p-2 rounded">
+                    <span>Checkout link expired · a fresh one is created when the client pays</span>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => generatePaymentLink(job.id)}
+                      disabled={generatingLinks.has(job.id) || isDemoMode}
+                      className="h-7 flex-shrink-0"
+                    >
+                      {generatingLinks.has(job.id) ? "Sending..." : "Resend"}
+                    </Button>
+                  </div>
+                )}
               </div>
             ) : (
               <Button
@@ -464,7 +771,42 @@ export const JobsTab = ({ userProfile: propUserProfile, isDemoMode = false }: Jo
               >
                 <DollarSign className="w-4 h-4 mr-1" />
                 {generatingLinks.has(job.id) ? "Generating..." : 
-                 isDemoMode ? "Demo Mode" : "Generate Payment Link"}
+                 isDemoMode ? "Demo Mode" :
+                 job.status === 'partially_paid' ? "Generate Balance Link" : "Generate Payment Link"}
+              </Button>
+            )}
+            {!isDemoMode && job.status === 'pending' && !(job.payment_url || job.stripe_checkout_url) && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setDepositJob(job)}
+                disabled={generatingLinks.has(job.id)}
+                className="w-full"
+              >
+                <Percent className="w-4 h-4 mr-1" />
+                Request Deposit
+              </Button>
+            )}
+            {!isDemoMode && job.is_recurring && !job.completed_at && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => markCompleted(job)}
+                className="w-full"
+              >
+                <ClipboardCheck className="w-4 h-4 mr-1" />
+                Mark Completed
+              </Button>
+            )}
+            {!isDemoMode && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setRecordPaymentJob(job)}
+                className="w-full"
+              >
+                <Banknote className="w-4 h-4 mr-1" />
+                Record Payment
               </Button>
             )}
           </div>
@@ -516,12 +858,16 @@ export const JobsTab = ({ userProfile: propUserProfile, isDemoMode = false }: Jo
         </Button>
       </div>
 
-      <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as 'pending' | 'paid')} className="w-full">
-        <TabsList className="grid w-full grid-cols-2">
+      <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as 'pending' | 'overdue' | 'paid')} className="w-full">
+        <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="pending" className="flex items-center gap-2">
             <Clock className="w-4 h-4" />
             Pending Jobs ({pendingJobs.length})
           </TabsTrigger>
+          <TabsTrigger value="overdue" className="flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4" />
+            Overdue ({overdueJobs.length})
+          </TabsTrigger>
           <TabsTrigger value="paid" className="flex items-center gap-2">
             <CheckCircle className="w-4 h-4" />
             Paid Jobs ({paidJobs.length})
@@ -551,6 +897,25 @@ export const JobsTab = ({ userProfile: propUserProfile, isDemoMode = false }: Jo
           )}
         </TabsContent>
 
+        <TabsContent value="overdue" className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-1 md:grid-cols-2 lg:grid-cols-3">
+            {overdueJobs.map((job) => (
+              <JobCard key={job.id} job={job} />
+            ))}
+          </div>
+
+          {overdueJobs.length === 0 && (
+            <Card className="p-12 text-center">
+              <CardContent>
+                <p className="text-gray-500">No overdue jobs</p>
+                <p className="text-sm text-gray-400 mt-2">
+                  Unpaid jobs past their due date will appear here
+                </p>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
         <TabsContent value="paid" className="space-y-4">
           <div className="grid gap-4 sm:grid-cols-1 md:grid-cols-2 lg:grid-cols-3">
             {paidJobs.map((job) => (
@@ -578,6 +943,27 @@ export const JobsTab = ({ userProfile: propUserProfile, isDemoMode = false }: Jo
         userProfile={userProfile}
         isDemoMode={isDemoMode}
       />
+
+      <RefundJobDialog
+        job={refundJob}
+        open={!!refundJob}
+        onOpenChange={(open) => !open && setRefundJob(null)}
+        onRefunded={fetchJobs}
+      />
+
+      <RecordPaymentDialog
+        job={recordPaymentJob}
+        open={!!recordPaymentJob}
+        onOpenChange={(open) => !open && setRecordPaymentJob(null)}
+        onPaymentRecorded={fetchJobs}
+      />
+
+      <RequestDepositDialog
+        job={depositJob}
+        open={!!depositJob}
+        onOpenChange={(open) => !open && setDepositJob(null)}
+        onRequestDeposit={generatePaymentLink}
+      />
     </div>
   );
 };
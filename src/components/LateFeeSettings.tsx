@@ -0,0 +1,238 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+interface LateFeeSettingsProps {
+  companyId: string | null;
+}
+
+const emptyForm = () => ({
+  late_fee_enabled: false,
+  late_fee_type: "flat" as 'flat' | 'percentage',
+  late_fee_value: "",
+  late_fee_grace_days: "0",
+  late_fee_frequency: "once" as 'once' | 'monthly',
+  late_fee_cap: "",
+});
+
+export const LateFeeSettings = ({ companyId }: LateFeeSettingsProps) => {
+  const [formData, setFormData] = useState(emptyForm());
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const fetchSettings = async () => {
+    if (!companyId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('company_billing_settings')
+        .select('late_fee_enabled, late_fee_type, late_fee_value, late_fee_grace_days, late_fee_frequency, late_fee_cap')
+        .eq('company_id', companyId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (data) {
+        setFormData({
+          late_fee_enabled: data.late_fee_enabled,
+          late_fee_type: data.late_fee_type as 'flat' | 'percentage',
+          late_fee_value: Number(data.late_fee_value) > 0 ? String(data.late_fee_value) : "",
+          late_fee_grace_days: String(data.late_fee_grace_days),
+          late_fee_frequency: data.late_fee_frequency as 'once' | 'monthly',
+          late_fee_cap: data.late_fee_cap != null ? String(data.late_fee_cap) : "",
+        });
+      }
+    } catch (error) {
+      console.error('Failed to fetch late fee settings:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchSettings();
+  }, [companyId]);
+
+  const saveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!companyId) return;
+
+    const value = parseFloat(formData.late_fee_value);
+    const graceDays = parseInt(formData.late_fee_grace_days, 10);
+    const cap = formData.late_fee_cap ? parseFloat(formData.late_fee_cap) : null;
+
+    if (formData.late_fee_enabled && (isNaN(value) || value <= 0 || (formData.late_fee_type === 'percentage' && value > 100))) {
+      toast({
+        title: "Error",
+        description: formData.late_fee_type === 'percentage'
+          ? "Enter a percentage between 0 and 100"
+          : "Enter a late fee amount greater than $0",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (isNaN(graceDays) || graceDays < 0 || (cap !== null && (isNaN(cap) || cap < 0))) {
+      toast({
+        title: "Error",
+        description: "Grace period and cap can't be negative",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('company_billing_settings')
+        .upsert({
+          company_id: companyId,
+          late_fee_enabled: formData.late_fee_enabled,
+          late_fee_type: formData.late_fee_type,
+          late_fee_value: isNaN(value) ? 0 : value,
+          late_fee_grace_days: graceDays,
+          late_fee_frequency: formData.late_fee_frequency,
+          late_fee_cap: cap,
+        }, { onConflict: 'company_id' });
+
+      if (error) {
+        console.error('Error saving late fee settings:', error);
+        throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: formData.late_fee_enabled
+          ? "Late fees will be added to overdue jobs automatically"
+          : "Late fees are off",
+      });
+      fetchSettings();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save late fee settings",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!companyId) {
+    return (
+      <p className="text-sm text-gray-500">
+        Generate a Company ID before setting up late fees.
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={saveSettings} className="space-y-3">
+      <div className="flex items-center space-x-2">
+        <Switch
+          id="late_fee_enabled"
+          checked={formData.late_fee_enabled}
+          onCheckedChange={(checked) => setFormData({ ...formData, late_fee_enabled: checked })}
+        />
+        <Label htmlFor="late_fee_enabled" className="text-sm">
+          Add late fees to overdue jobs
+        </Label>
+      </div>
+
+      {formData.late_fee_enabled && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="late_fee_type">Fee Type</Label>
+              <Select
+                value={formData.late_fee_type}
+                onValueChange={(value) => setFormData({ ...formData, late_fee_type: value as 'flat' | 'percentage' })}
+              >
+                <SelectTrigger id="late_fee_type" className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="flat">Flat amount ($)</SelectItem>
+                  <SelectItem value="percentage">Percent of balance (%)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="late_fee_value">{formData.late_fee_type === 'percentage' ? 'Percentage' : 'Amount ($)'}</Label>
+              <Input
+                id="late_fee_value"
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.late_fee_value}
+                onChange={(e) => setFormData({ ...formData, late_fee_value: e.target.value })}
+                placeholder={formData.late_fee_type === 'percentage' ? "e.g., 1.5" : "e.g., 25.00"}
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="late_fee_frequency">Charge</Label>
+              <Select
+                value={formData.late_fee_frequency}
+                onValueChange={(value) => setFormData({ ...formData, late_fee_frequency: value as 'once' | 'monthly' })}
+              >
+                <SelectTrigger id="late_fee_frequency" className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="once">One time</SelectItem>
+                  <SelectItem value="monthly">Every 30 days</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="late_fee_grace_days">Grace Period (days)</Label>
+              <Input
+                id="late_fee_grace_days"
+                type="number"
+                step="1"
+                min="0"
+                value={formData.late_fee_grace_days}
+                onChange={(e) => setFormData({ ...formData, late_fee_grace_days: e.target.value })}
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="late_fee_cap">Maximum Late Fees per Job ($)</Label>
+            <Input
+              id="late_fee_cap"
+              type="number"
+              step="0.01"
+              min="0"
+              value={formData.late_fee_cap}
+              onChange={(e) => setFormData({ ...formData, late_fee_cap: e.target.value })}
+              placeholder="No cap"
+              className="mt-1"
+            />
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Fees are added to the job total once it is past due plus the grace period, and any payment link already sent is regenerated with the new total.
+          </p>
+        </>
+      )}
+
+      <Button
+        type="submit"
+        size="sm"
+        disabled={saving}
+        className="bg-blue-600 hover:bg-blue-700"
+      >
+        {saving ? "Saving..." : "Save Late Fees"}
+      </Button>
+    </form>
+  );
+};
@@ -0,0 +1,139 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { formatCurrency } from "@/utils/currency";
+import { LineItemDraft, TaxRate, emptyLineItem, lineItemAmount, lineItemsTotal, lineItemsTax } from "@/utils/lineItems";
+
+interface LineItemsEditorProps {
+  items: LineItemDraft[];
+  onChange: (items: LineItemDraft[]) => void;
+  taxRates?: TaxRate[];
+  jobTaxRateId?: string | null;
+  currency?: string;
+}
+
+// Select value for lines that follow the job's tax rate
+const JOB_RATE = "job";
+
+export const LineItemsEditor = ({ items, onChange, taxRates = [], jobTaxRateId = null, currency }: LineItemsEditorProps) => {
+  const updateItem = (index: number, changes: Partial<LineItemDraft>) => {
+    onChange(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const removeItem = (index: number) => {
+    onChange(items.length > 1 ? items.filter((_, i) => i !== index) : [emptyLineItem()]);
+  };
+
+  const subtotal = lineItemsTotal(items);
+  const tax = lineItemsTax(items, jobTaxRateId, taxRates);
+
+  return (
+    <div className="space-y-3">
+      {items.map((item, index) => (
+        <div key={index} className="space-y-2 p-3 border rounded-lg bg-gray-50">
+          <div className="flex items-center gap-2">
+            <Input
+              value={item.description}
+              onChange={(e) => updateItem(index, { description: e.target.value })}
+              placeholder="e.g., Labor, Mulch, Hedge trimming"
+              aria-label="Line item description"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => removeItem(index)}
+              className="h-8 w-8 p-0 flex-shrink-0"
+            >
+              <Trash2 className="w-4 h-4 text-gray-500" />
+            </Button>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label className="text-xs text-gray-500">Qty</Label>
+              <Input
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={item.quantity}
+                onChange={(e) => updateItem(index, { quantity: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label className="text-xs text-gray-500">Unit Price ($)</Label>
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                value={item.unit_price}
+                onChange={(e) => updateItem(index, { unit_price: e.target.value })}
+                placeholder="0.00"
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <Switch
+                id={`taxable_${index}`}
+                checked={item.taxable}
+                onCheckedChange={(checked) => updateItem(index, { taxable: checked })}
+              />
+              <Label htmlFor={`taxable_${index}`} className="text-sm">Taxable</Label>
+            </div>
+            <span className="text-sm font-medium">{formatCurrency(lineItemAmount(item), currency)}</span>
+          </div>
+          {item.taxable && taxRates.length > 0 && (
+            <Select
+              value={item.tax_rate_id ?? JOB_RATE}
+              onValueChange={(value) => updateItem(index, { tax_rate_id: value === JOB_RATE ? null : value })}
+            >
+              <SelectTrigger className="h-8 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={JOB_RATE}>Job tax rate</SelectItem>
+                {taxRates.map((rate) => (
+                  <SelectItem key={rate.id} value={rate.id}>
+                    {rate.name} ({rate.percentage}%)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...items, emptyLineItem()])}
+        className="w-full"
+      >
+        <Plus className="w-4 h-4 mr-1" />
+        Add Line Item
+      </Button>
+
+      {tax > 0 && (
+        <>
+          <div className="flex justify-between text-sm text-gray-600 pt-1">
+            <span>Subtotal</span>
+            <span>{formatCurrency(subtotal, currency)}</span>
+          </div>
+          <div className="flex justify-between text-sm text-gray-600">
+            <span>Sales Tax</span>
+            <span>{formatCurrency(tax, currency)}</span>
+          </div>
+        </>
+      )}
+
+      <div className="flex justify-between text-sm font-semibold pt-1">
+        <span>Total</span>
+        <span>{formatCurrency(subtotal + tax, currency)}</span>
+      </div>
+    </div>
+  );
+};
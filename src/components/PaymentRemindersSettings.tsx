@@ -0,0 +1,376 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Pencil, Trash2 } from "lucide-react";
+import {
+  ReminderStep,
+  ReminderStepDraft,
+  DEFAULT_REMINDER_STEPS,
+  REMINDER_PLACEHOLDERS,
+  formatReminderTiming,
+} from "@/utils/reminders";
+
+interface PaymentRemindersSettingsProps {
+  companyId: string | null;
+}
+
+const NEW_STEP = "new";
+
+export const PaymentRemindersSettings = ({ companyId }: PaymentRemindersSettingsProps) => {
+  const [remindersEnabled, setRemindersEnabled] = useState(false);
+  const [steps, setSteps] = useState<ReminderStep[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  // Id of the step being edited, or NEW_STEP while adding one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ReminderStepDraft>(DEFAULT_REMINDER_STEPS[2]);
+  const { toast } = useToast();
+
+  const fetchReminders = async () => {
+    if (!companyId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [{ data: settings, error: settingsError }, { data: stepsData, error: stepsError }] = await Promise.all([
+        supabase
+          .from('company_billing_settings')
+          .select('reminders_enabled')
+          .eq('company_id', companyId)
+          .maybeSingle(),
+        supabase
+          .from('payment_reminder_steps')
+          .select('id, days_from_due, send_sms, send_email, sms_template, email_subject, email_template, active')
+          .eq('company_id', companyId)
+          .order('days_from_due', { ascending: true }),
+      ]);
+
+      if (settingsError) throw settingsError;
+      if (stepsError) throw stepsError;
+
+      setRemindersEnabled(settings?.reminders_enabled ?? false);
+      setSteps(stepsData || []);
+    } catch (error) {
+      console.error('Failed to fetch payment reminders:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load payment reminders",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReminders();
+  }, [companyId]);
+
+  const toggleReminders = async (enabled: boolean) => {
+    if (!companyId) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('company_billing_settings')
+        .upsert({ company_id: companyId, reminders_enabled: enabled }, { onConflict: 'company_id' });
+
+      if (error) throw error;
+
+      // Turning reminders on for the first time starts from the default schedule
+      if (enabled && steps.length === 0) {
+        const { error: stepsError } = await supabase
+          .from('payment_reminder_steps')
+          .insert(DEFAULT_REMINDER_STEPS.map(step => ({ ...step, company_id: companyId })));
+
+        if (stepsError) throw stepsError;
+      }
+
+      toast({
+        title: "Success",
+        description: enabled
+          ? "Clients will be reminded about unpaid jobs automatically"
+          : "Automatic payment reminders are off",
+      });
+      fetchReminders();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update payment reminders",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startEditing = (step: ReminderStep | null) => {
+    if (step) {
+      const { id, ...stepDraft } = step;
+      setEditingId(id);
+      setDraft(stepDraft);
+    } else {
+      setEditingId(NEW_STEP);
+      setDraft({ ...DEFAULT_REMINDER_STEPS[2], days_from_due: (steps[steps.length - 1]?.days_from_due ?? 0) + 7 });
+    }
+  };
+
+  const saveStep = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!companyId || !editingId) return;
+
+    if (!draft.sms_template.trim() || !draft.email_subject.trim() || !draft.email_template.trim()) {
+      toast({
+        title: "Error",
+        description: "Fill in the SMS message, email subject and email message",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = editingId === NEW_STEP
+        ? await supabase
+          .from('payment_reminder_steps')
+          .insert({ ...draft, company_id: companyId })
+        : await supabase
+          .from('payment_reminder_steps')
+          .update(draft)
+          .eq('id', editingId);
+
+      if (error) {
+        console.error('Error saving reminder step:', error);
+        // Each offset can only be used once per company
+        if (error.code === '23505') {
+          throw new Error(`There is already a reminder ${formatReminderTiming(draft.days_from_due).toLowerCase()}`);
+        }
+        throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: "Reminder saved",
+      });
+      setEditingId(null);
+      fetchReminders();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save reminder",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteStep = async (step: ReminderStep) => {
+    try {
+      const { error } = await supabase
+        .from('payment_reminder_steps')
+        .delete()
+        .eq('id', step.id);
+
+      if (error) throw error;
+
+      if (editingId === step.id) {
+        setEditingId(null);
+      }
+      fetchReminders();
+    } catch (error) {
+      console.error('Failed to delete reminder step:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete reminder",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!companyId) {
+    return (
+      <p className="text-sm text-gray-500">
+        Generate a Company ID before setting up payment reminders.
+      </p>
+    );
+  }
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading payment reminders...</p>;
+  }
+
+  const renderEditor = () => (
+    <form onSubmit={saveStep} className="space-y-3 p-3 border rounded-lg bg-gray-50">
+      <div>
+        <Label htmlFor="reminder_days">Days from due date</Label>
+        <Input
+          id="reminder_days"
+          type="number"
+          step="1"
+          value={draft.days_from_due}
+          onChange={(e) => setDraft({ ...draft, days_from_due: parseInt(e.target.value, 10) || 0 })}
+          className="mt-1 w-28"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          {formatReminderTiming(draft.days_from_due)} · use a negative number to remind before the due date
+        </p>
+      </div>
+      <div className="flex gap-4">
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="reminder_send_sms"
+            checked={draft.send_sms}
+            onCheckedChange={(checked) => setDraft({ ...draft, send_sms: checked })}
+          />
+          <Label htmlFor="reminder_send_sms" className="text-sm">SMS</Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="reminder_send_email"
+            checked={draft.send_email}
+            onCheckedChange={(checked) => setDraft({ ...draft, send_email: checked })}
+          />
+          <Label htmlFor="reminder_send_email" className="text-sm">Email</Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="reminder_active"
+            checked={draft.active}
+            onCheckedChange={(checked) => setDraft({ ...draft, active: checked })}
+          />
+          <Label htmlFor="reminder_active" className="text-sm">Active</Label>
+        </div>
+      </div>
+      <div>
+        <Label htmlFor="reminder_sms_template">SMS Message</Label>
+        <Textarea
+          id="reminder_sms_template"
+          value={draft.sms_template}
+          onChange={(e) => setDraft({ ...draft, sms_template: e.target.value })}
+          rows={3}
+          className="mt-1"
+        />
+      </div>
+      <div>
+        <Label htmlFor="reminder_email_subject">Email Subject</Label>
+        <Input
+          id="reminder_email_subject"
+          value={draft.email_subject}
+          onChange={(e) => setDraft({ ...draft, email_subject: e.target.value })}
+          className="mt-1"
+        />
+      </div>
+      <div>
+        <Label htmlFor="reminder_email_template">Email Message</Label>
+        <Textarea
+          id="reminder_email_template"
+          value={draft.email_template}
+          onChange={(e) => setDraft({ ...draft, email_template: e.target.value })}
+          rows={6}
+          className="mt-1"
+        />
+      </div>
+      <p className="text-xs text-gray-500">
+        Available placeholders: {REMINDER_PLACEHOLDERS.join(', ')}
+      </p>
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => setEditingId(null)}
+          className="flex-1"
+        >
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          size="sm"
+          disabled={saving}
+          className="flex-1 bg-blue-600 hover:bg-blue-700"
+        >
+          {saving ? "Saving..." : "Save Reminder"}
+        </Button>
+      </div>
+    </form>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-2">
+        <Switch
+          id="reminders_enabled"
+          checked={remindersEnabled}
+          onCheckedChange={toggleReminders}
+          disabled={saving}
+        />
+        <Label htmlFor="reminders_enabled" className="text-sm">
+          Automatically remind clients about unpaid jobs
+        </Label>
+      </div>
+
+      {steps.length > 0 && (
+        <div className="space-y-2">
+          {steps.map((step) => (
+            editingId === step.id ? (
+              <div key={step.id}>{renderEditor()}</div>
+            ) : (
+              <div key={step.id} className="flex items-center justify-between p-3 border rounded-lg">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className={`font-medium ${step.active ? '' : 'text-gray-400'}`}>
+                      {formatReminderTiming(step.days_from_due)}
+                    </span>
+                    {step.send_sms && <Badge variant="secondary">SMS</Badge>}
+                    {step.send_email && <Badge variant="secondary">Email</Badge>}
+                    {!step.active && <Badge variant="outline">Paused</Badge>}
+                  </div>
+                  <p className="text-xs text-gray-500 truncate max-w-xs">{step.email_subject}</p>
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => startEditing(step)}
+                    title="Edit"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteStep(step)}
+                    title="Delete"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            )
+          ))}
+        </div>
+      )}
+
+      {editingId === NEW_STEP ? (
+        renderEditor()
+      ) : (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => startEditing(null)}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Reminder
+        </Button>
+      )}
+    </div>
+  );
+};
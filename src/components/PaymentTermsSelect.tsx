@@ -0,0 +1,71 @@
+import { useState, useEffect } from "react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PAYMENT_TERM_PRESETS, formatPaymentTerms } from "@/utils/paymentTerms";
+
+interface PaymentTermsSelectProps {
+  id?: string;
+  value: number | null;
+  onChange: (days: number | null) => void;
+  // When set, offers an option that clears the terms so a fallback applies
+  defaultLabel?: string;
+}
+
+const DEFAULT_VALUE = "default";
+const CUSTOM_VALUE = "custom";
+
+export const PaymentTermsSelect = ({ id, value, onChange, defaultLabel }: PaymentTermsSelectProps) => {
+  const isPreset = value === null || PAYMENT_TERM_PRESETS.includes(value);
+  const [custom, setCustom] = useState(!isPreset);
+
+  useEffect(() => {
+    if (!isPreset) setCustom(true);
+  }, [isPreset]);
+
+  const selectValue = custom
+    ? CUSTOM_VALUE
+    : value === null
+      ? DEFAULT_VALUE
+      : String(value);
+
+  const handleSelect = (selected: string) => {
+    if (selected === CUSTOM_VALUE) {
+      setCustom(true);
+      onChange(value ?? 45);
+      return;
+    }
+
+    setCustom(false);
+    onChange(selected === DEFAULT_VALUE ? null : parseInt(selected, 10));
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Select value={selectValue} onValueChange={handleSelect}>
+        <SelectTrigger id={id} className="mt-1">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {defaultLabel && <SelectItem value={DEFAULT_VALUE}>{defaultLabel}</SelectItem>}
+          {PAYMENT_TERM_PRESETS.map((days) => (
+            <SelectItem key={days} value={String(days)}>
+              {formatPaymentTerms(days)}
+            </SelectItem>
+          ))}
+          <SelectItem value={CUSTOM_VALUE}>Custom</SelectItem>
+        </SelectContent>
+      </Select>
+      {custom && (
+        <Input
+          type="number"
+          min="0"
+          step="1"
+          value={value ?? ""}
+          onChange={(e) => onChange(Math.max(parseInt(e.target.value, 10) || 0, 0))}
+          className="mt-1 w-28"
+          aria-label="Days until due"
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { PaymentTermsSelect } from "./PaymentTermsSelect";
+import { DEFAULT_PAYMENT_TERMS_DAYS, formatPaymentTerms } from "@/utils/paymentTerms";
+
+interface PaymentTermsSettingsProps {
+  companyId: string | null;
+}
+
+export const PaymentTermsSettings = ({ companyId }: PaymentTermsSettingsProps) => {
+  const [paymentTermsDays, setPaymentTermsDays] = useState(DEFAULT_PAYMENT_TERMS_DAYS);
+  const [savedDays, setSavedDays] = useState(DEFAULT_PAYMENT_TERMS_DAYS);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const fetchSettings = async () => {
+    if (!companyId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('company_billing_settings')
+        .select('payment_terms_days')
+        .eq('company_id', companyId)
+        .maybeSingle();
+
+      if (error) throw error;
+      setPaymentTermsDays(data?.payment_terms_days ?? DEFAULT_PAYMENT_TERMS_DAYS);
+      setSavedDays(data?.payment_terms_days ?? DEFAULT_PAYMENT_TERMS_DAYS);
+    } catch (error) {
+      console.error('Failed to fetch payment terms:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchSettings();
+  }, [companyId]);
+
+  const savePaymentTerms = async () => {
+    if (!companyId) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('company_billing_settings')
+        .upsert({ company_id: companyId, payment_terms_days: paymentTermsDays }, { onConflict: 'company_id' });
+
+      if (error) {
+        console.error('Error saving payment terms:', error);
+        throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: `New jobs will be ${formatPaymentTerms(paymentTermsDays).toLowerCase()} unless the client has its own terms`,
+      });
+      setSavedDays(paymentTermsDays);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save payment terms",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!companyId) {
+    return null;
+  }
+
+  return (
+    <div className="pt-4 mt-4 border-t">
+      <Label htmlFor="company_payment_terms" className="text-sm font-medium">Default Payment Terms</Label>
+      <PaymentTermsSelect
+        id="company_payment_terms"
+        value={paymentTermsDays}
+        onChange={(days) => setPaymentTermsDays(days ?? DEFAULT_PAYMENT_TERMS_DAYS)}
+      />
+      {paymentTermsDays !== savedDays && (
+        <Button
+          size="sm"
+          onClick={savePaymentTerms}
+          disabled={saving}
+          className="mt-2 bg-blue-600 hover:bg-blue-700"
+        >
+          {saving ? "Saving..." : "Save Payment Terms"}
+        </Button>
+      )}
+    </div>
+  );
+};
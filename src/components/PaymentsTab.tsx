@@ -2,16 +2,22 @@
 import { useState, useEffect } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { CheckCircle, Clock, XCircle, DollarSign, Building } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { CheckCircle, Clock, XCircle, DollarSign, Building, RotateCcw } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/utils/currency";
+import { PayoutsView } from "./PayoutsView";
 
 interface Payment {
   id: string;
   amount: number;
-  payment_status: 'pending' | 'paid' | 'failed';
+  payment_status: 'pending' | 'paid' | 'failed' | 'partially_refunded' | 'refunded';
   paid_at: string | null;
   card_saved: boolean;
+  refunded_amount: number;
+  currency: string;
+  payment_method: string | null;
   jobs: {
     title: string;
     job_name: string | null;
@@ -25,15 +31,19 @@ interface UserProfile {
   company_id: string | null;
 }
 
+// Totals are kept per currency so amounts in different currencies are never added together
+interface CurrencyStats {
+  currency: string;
+  totalRevenue: number;
+  pendingAmount: number;
+  paidThisMonth: number;
+}
+
 export const PaymentsTab = () => {
   const [payments, setPayments] = useState<Payment[]>([]);
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
-  const [stats, setStats] = useState({
-    totalRevenue: 0,
-    pendingAmount: 0,
-    paidThisMonth: 0,
-  });
+  const [stats, setStats] = useState<CurrencyStats[]>([]);
   const { toast } = useToast();
 
   const fetchUserProfile = async () => {
@@ -75,7 +85,7 @@ export const PaymentsTab = () => {
       if (!profile?.company_id) {
         console.log('No company_id found, skipping payments fetch');
         setPayments([]);
-        setStats({ totalRevenue: 0, pendingAmount: 0, paidThisMonth: 0 });
+        setStats([]);
         return;
       }
 
@@ -99,28 +109,41 @@ export const PaymentsTab = () => {
       // Type assertion to handle the payment_status field
       const typedPayments = (data || []).map(payment => ({
         ...payment,
-        payment_status: payment.payment_status as 'pending' | 'paid' | 'failed'
+        payment_status: payment.payment_status as Payment['payment_status']
       })) as Payment[];
       
       setPayments(typedPayments);
 
-      const totalRevenue = typedPayments?.reduce((sum, payment) => 
-        payment.payment_status === 'paid' ? sum + payment.amount : sum, 0) || 0;
-      
-      const pendingAmount = typedPayments?.reduce((sum, payment) => 
-        payment.payment_status === 'pending' ? sum + payment.amount : sum, 0) || 0;
+      const isCollected = (payment: Payment) =>
+        payment.payment_status === 'paid' ||
+        payment.payment_status === 'partially_refunded' ||
+        payment.payment_status === 'refunded';
+      const netAmount = (payment: Payment) => payment.amount - (payment.refunded_amount || 0);
 
       const thisMonth = new Date();
       thisMonth.setDate(1);
-      const paidThisMonth = typedPayments?.reduce((sum, payment) => {
-        if (payment.payment_status === 'paid' && payment.paid_at) {
-          const paidDate = new Date(payment.paid_at);
-          return paidDate >= thisMonth ? sum + payment.amount : sum;
+
+      const totals = new Map<string, CurrencyStats>();
+      typedPayments.forEach(payment => {
+        // Credit spends money collected on an earlier job, so counting it again would inflate revenue
+        if (payment.payment_method === 'credit') return;
+
+        const currency = payment.currency || 'usd';
+        const currencyStats = totals.get(currency) || { currency, totalRevenue: 0, pendingAmount: 0, paidThisMonth: 0 };
+
+        if (isCollected(payment)) {
+          currencyStats.totalRevenue += netAmount(payment);
+          if (payment.paid_at && new Date(payment.paid_at) >= thisMonth) {
+            currencyStats.paidThisMonth += netAmount(payment);
+          }
+        } else if (payment.payment_status === 'pending') {
+          currencyStats.pendingAmount += payment.amount;
         }
-        return sum;
-      }, 0) || 0;
 
-      setStats({ totalRevenue, pendingAmount, paidThisMonth });
+        totals.set(currency, currencyStats);
+      });
+
+      setStats(Array.from(totals.values()));
     } catch (error: any) {
       toast({
         title: "Error",
@@ -153,6 +176,9 @@ export const PaymentsTab = () => {
         return <Clock className="w-4 h-4 text-yellow-600" />;
       case 'failed':
         return <XCircle className="w-4 h-4 text-red-600" />;
+      case 'partially_refunded':
+      case 'refunded':
+        return <RotateCcw className="w-4 h-4 text-red-600" />;
       default:
         return <Clock className="w-4 h-4 text-gray-600" />;
     }
@@ -165,12 +191,24 @@ export const PaymentsTab = () => {
       case 'pending':
         return 'bg-yellow-100 text-yellow-800';
       case 'failed':
+      case 'partially_refunded':
+      case 'refunded':
         return 'bg-red-100 text-red-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
   };
 
+  // One line per currency the company has been paid in
+  const renderTotals = (key: 'totalRevenue' | 'pendingAmount' | 'paidThisMonth') =>
+    stats.length === 0
+      ? formatCurrency(0)
+      : stats.map(currencyStats => (
+          <div key={currencyStats.currency}>
+            {formatCurrency(currencyStats[key] / 100, currencyStats.currency)}
+          </div>
+        ));
+
   if (loading) {
     return <div className="flex justify-center p-8">Loading payments...</div>;
   }
@@ -213,7 +251,7 @@ export const PaymentsTab = () => {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-green-600">
-              ${(stats.totalRevenue / 100).toFixed(2)}
+              {renderTotals('totalRevenue')}
             </div>
           </CardContent>
         </Card>
@@ -225,7 +263,7 @@ export const PaymentsTab = () => {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-yellow-600">
-              ${(stats.pendingAmount / 100).toFixed(2)}
+              {renderTotals('pendingAmount')}
             </div>
           </CardContent>
         </Card>
@@ -237,68 +275,91 @@ export const PaymentsTab = () => {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-blue-600">
-              ${(stats.paidThisMonth / 100).toFixed(2)}
+              {renderTotals('paidThisMonth')}
             </div>
           </CardContent>
         </Card>
       </div>
 
-      <div className="space-y-4">
-        {payments.map((payment) => (
-          <Card key={payment.id} className="hover:shadow-sm transition-shadow">
-            <CardContent className="p-4">
-              <div className="flex items-center justify-between">
-                <div className="flex-1">
-                  <div className="flex items-center gap-3">
-                    <div>
-                      <h4 className="font-medium">{payment.jobs.job_name || payment.jobs.title}</h4>
-                      <p className="text-sm text-gray-600">
-                        {payment.jobs.clients.name}
-                      </p>
-                    </div>
-                    {payment.card_saved && (
-                      <Badge variant="secondary" className="text-xs">
-                        💎 Card Saved
-                      </Badge>
-                    )}
-                  </div>
-                </div>
-                
-                <div className="flex items-center gap-4">
-                  <div className="text-right">
-                    <div className="font-bold text-lg">
-                      ${(payment.amount / 100).toFixed(2)}
+      <Tabs defaultValue="payments">
+        <TabsList>
+          <TabsTrigger value="payments">Payments</TabsTrigger>
+          <TabsTrigger value="payouts">Payouts</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="payments" className="mt-6 space-y-4">
+          <div className="space-y-4">
+            {payments.map((payment) => (
+              <Card key={payment.id} className="hover:shadow-sm transition-shadow">
+                <CardContent className="p-4">
+                  <div className="flex items-center justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-3">
+                        <div>
+                          <h4 className="font-medium">{payment.jobs.job_name || payment.jobs.title}</h4>
+                          <p className="text-sm text-gray-600">
+                            {payment.jobs.clients.name}
+                          </p>
+                        </div>
+                        {payment.card_saved && (
+                          <Badge variant="secondary" className="text-xs">
+                            💎 Card Saved
+                          </Badge>
+                        )}
+                        {payment.payment_method === 'credit' && (
+                          <Badge variant="secondary" className="text-xs">
+                            Account Credit
+                          </Badge>
+                        )}
+                      </div>
                     </div>
-                    {payment.paid_at && (
-                      <div className="text-xs text-gray-500">
-                        {new Date(payment.paid_at).toLocaleDateString()}
+                    
+                    <div className="flex items-center gap-4">
+                      <div className="text-right">
+                        <div className="font-bold text-lg">
+                          {formatCurrency(payment.amount / 100, payment.currency)}
+                        </div>
+                        {payment.refunded_amount > 0 && (
+                          <div className="text-xs text-red-600">
+                            -{formatCurrency(payment.refunded_amount / 100, payment.currency)} refunded
+                          </div>
+                        )}
+                        {payment.paid_at && (
+                          <div className="text-xs text-gray-500">
+                            {new Date(payment.paid_at).toLocaleDateString()}
+                          </div>
+                        )}
                       </div>
-                    )}
-                  </div>
-                  
-                  <div className="flex items-center gap-1">
-                    {getStatusIcon(payment.payment_status)}
-                    <Badge className={getStatusColor(payment.payment_status)}>
-                      {payment.payment_status}
-                    </Badge>
+                      
+                      <div className="flex items-center gap-1">
+                        {getStatusIcon(payment.payment_status)}
+                        <Badge className={getStatusColor(payment.payment_status)}>
+                          {payment.payment_status.replace('_', ' ')}
+                        </Badge>
+                      </div>
+                    </div>
                   </div>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-        ))}
-      </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
 
-      {payments.length === 0 && userProfile?.company_id && (
-        <Card className="p-12 text-center">
-          <CardContent>
-            <p className="text-gray-500">No payments recorded yet</p>
-            <p className="text-sm text-gray-400 mt-2">
-              Payments will appear here when clients pay for jobs
-            </p>
-          </CardContent>
-        </Card>
-      )}
+          {payments.length === 0 && userProfile?.company_id && (
+            <Card className="p-12 text-center">
+              <CardContent>
+                <p className="text-gray-500">No payments recorded yet</p>
+                <p className="text-sm text-gray-400 mt-2">
+                  Payments will appear here when clients pay for jobs
+                </p>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        <TabsContent value="payouts" className="mt-6">
+          <PayoutsView />
+        </TabsContent>
+      </Tabs>
     </div>
   );
 };
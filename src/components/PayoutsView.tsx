@@ -0,0 +1,233 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, Landmark, Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/utils/currency";
+
+interface PayoutItem {
+  id: string;
+  type: string;
+  kind: 'charge' | 'refund' | 'other';
+  amount: number;
+  fee: number;
+  net: number;
+  description: string | null;
+  created: string;
+  payment_id: string | null;
+  job_id: string | null;
+  job_title: string | null;
+  client_name: string | null;
+  matched: boolean;
+}
+
+interface Payout {
+  id: string;
+  amount: number;
+  currency: string;
+  status: string;
+  arrival_date: string;
+  automatic: boolean;
+  items: PayoutItem[];
+  totals: {
+    gross: number;
+    refunds: number;
+    fees: number;
+    net: number;
+  };
+  unmatched_count: number;
+}
+
+// Stripe payouts to the company's bank, each broken down into the jobs, fees and refunds it settled
+export const PayoutsView = () => {
+  const [payouts, setPayouts] = useState<Payout[]>([]);
+  const [connected, setConnected] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const { toast } = useToast();
+
+  const fetchPayouts = async (startingAfter?: string) => {
+    try {
+      const { data, error } = await supabase.functions.invoke('stripe-payouts', {
+        body: { startingAfter },
+      });
+
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error || "Failed to load payouts");
+
+      setConnected(data.connected);
+      setHasMore(data.has_more);
+      setPayouts(current => startingAfter ? [...current, ...data.payouts] : data.payouts);
+    } catch (error) {
+      console.error('Failed to fetch payouts:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load payouts",
+        variant: "destructive",
+      });
+    }
+  };
+
+  useEffect(() => {
+    fetchPayouts().finally(() => setLoading(false));
+  }, []);
+
+  const loadMore = async () => {
+    setLoadingMore(true);
+    await fetchPayouts(payouts[payouts.length - 1]?.id);
+    setLoadingMore(false);
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'paid':
+        return 'bg-green-100 text-green-800';
+      case 'pending':
+      case 'in_transit':
+        return 'bg-yellow-100 text-yellow-800';
+      case 'failed':
+      case 'canceled':
+        return 'bg-red-100 text-red-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const describeItem = (item: PayoutItem) => {
+    if (item.matched) {
+      const action = item.kind === 'refund' ? 'Refund' : 'Payment';
+      return `${action} · ${item.job_title}${item.client_name ? ` · ${item.client_name}` : ''}`;
+    }
+    return item.description || item.type.replace(/_/g, ' ');
+  };
+
+  if (loading) {
+    return <div className="flex justify-center p-8">Loading payouts...</div>;
+  }
+
+  if (!connected) {
+    return (
+      <Card className="p-12 text-center">
+        <CardContent>
+          <Landmark className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">Stripe Not Connected</h3>
+          <p className="text-gray-600">
+            Connect your Stripe account from the Account tab to see payouts to your bank.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (payouts.length === 0) {
+    return (
+      <Card className="p-12 text-center">
+        <CardContent>
+          <p className="text-gray-500">No payouts yet</p>
+          <p className="text-sm text-gray-400 mt-2">
+            Payouts will appear here once Stripe sends your balance to your bank
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {payouts.map((payout) => (
+        <Card key={payout.id}>
+          <CardHeader className="pb-3">
+            <div className="flex items-start justify-between">
+              <div>
+                <CardTitle className="text-lg">
+                  {formatCurrency(payout.amount / 100, payout.currency)}
+                </CardTitle>
+                <CardDescription>
+                  {payout.status === 'paid' ? 'Arrived' : 'Expected'} {new Date(payout.arrival_date).toLocaleDateString()}
+                </CardDescription>
+              </div>
+              <div className="flex items-center gap-2">
+                {payout.unmatched_count > 0 && (
+                  <Badge className="bg-yellow-100 text-yellow-800">
+                    <AlertTriangle className="w-3 h-3 mr-1" />
+                    {payout.unmatched_count} unmatched
+                  </Badge>
+                )}
+                <Badge className={getStatusColor(payout.status)}>
+                  {payout.status.replace('_', ' ')}
+                </Badge>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {!payout.automatic ? (
+              <p className="text-sm text-gray-500">
+                Manual payouts draw on your whole Stripe balance, so Stripe doesn't itemize them.
+              </p>
+            ) : (
+              <>
+                <div className="space-y-1">
+                  {payout.items.map((item) => (
+                    <div
+                      key={item.id}
+                      className={`flex items-center justify-between text-sm rounded px-2 py-1 ${item.matched ? '' : 'bg-yellow-50'}`}
+                    >
+                      <div className="flex items-center gap-2 min-w-0">
+                        {!item.matched && <AlertTriangle className="w-4 h-4 text-yellow-600 shrink-0" />}
+                        <span className="truncate">{describeItem(item)}</span>
+                        <span className="text-xs text-gray-500 shrink-0">
+                          {new Date(item.created).toLocaleDateString()}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-4 shrink-0 text-right">
+                        <span className={item.amount < 0 ? 'text-red-600' : ''}>
+                          {formatCurrency(item.amount / 100, payout.currency)}
+                        </span>
+                        {item.fee !== 0 && (
+                          <span className="text-xs text-gray-500">
+                            fee {formatCurrency(item.fee / 100, payout.currency)}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="border-t pt-2 grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+                  <div>
+                    <div className="text-gray-500">Payments</div>
+                    <div className="font-medium">{formatCurrency(payout.totals.gross / 100, payout.currency)}</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-500">Refunds</div>
+                    <div className="font-medium text-red-600">{formatCurrency(payout.totals.refunds / 100, payout.currency)}</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-500">Fees</div>
+                    <div className="font-medium">{formatCurrency(-payout.totals.fees / 100, payout.currency)}</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-500">Net</div>
+                    <div className="font-bold text-green-600">{formatCurrency(payout.totals.net / 100, payout.currency)}</div>
+                  </div>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+
+      {hasMore && (
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+            {loadingMore && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Load More Payouts
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
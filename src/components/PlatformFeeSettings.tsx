@@ -0,0 +1,154 @@
+import { useState, useEffect } from "react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { FeeSettings, fetchFeeSettings } from "@/utils/fees";
+
+interface PlatformFeeSettingsProps {
+  companyId: string | null;
+}
+
+const formatTier = (tier: FeeSettings['tiers'][number]) => {
+  const parts = [`${Number(tier.percentage)}%`];
+  if (tier.fixed_amount > 0) parts.push(`$${(tier.fixed_amount / 100).toFixed(2)}`);
+  const fee = parts.join(' + ');
+  return tier.max_fee != null ? `${fee} (max $${(tier.max_fee / 100).toFixed(2)})` : fee;
+};
+
+export const PlatformFeeSettings = ({ companyId }: PlatformFeeSettingsProps) => {
+  const [feeSettings, setFeeSettings] = useState<FeeSettings | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const loadFeeSettings = async () => {
+    if (!companyId) return;
+
+    try {
+      setFeeSettings(await fetchFeeSettings(companyId));
+    } catch (error) {
+      console.error('Failed to fetch fee settings:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadFeeSettings();
+  }, [companyId]);
+
+  const updateFeeSettings = async (
+    changes: { absorb_fees?: boolean; exclude_tips_from_fee?: boolean },
+    successMessage: string
+  ) => {
+    if (!companyId || !feeSettings) return;
+
+    setSaving(true);
+    try {
+      // Companies can only change their own toggles, so update an existing row rather than upserting
+      const { error } = feeSettings.companyHasSettings
+        ? await supabase
+            .from('company_fee_settings')
+            .update(changes)
+            .eq('company_id', companyId)
+        : await supabase
+            .from('company_fee_settings')
+            .insert({ company_id: companyId, ...changes });
+
+      if (error) {
+        console.error('Error updating fee settings:', error);
+        throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: successMessage,
+      });
+      loadFeeSettings();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update fee settings",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!companyId || !feeSettings) {
+    return null;
+  }
+
+  const tiers = [...feeSettings.tiers].sort((a, b) => a.min_amount - b.min_amount);
+  const bankTiers = [...feeSettings.bankTiers].sort((a, b) => a.min_amount - b.min_amount);
+
+  return (
+    <div className="space-y-3 pt-3 border-t">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Processing Fee</span>
+        <span className="text-sm text-gray-600">{feeSettings.scheduleName ?? 'Not configured'}</span>
+      </div>
+
+      {tiers.length > 0 && (
+        <div className="space-y-1">
+          {tiers.map((tier, index) => (
+            <div key={tier.min_amount} className="flex justify-between text-xs text-gray-500">
+              <span>
+                {index < tiers.length - 1
+                  ? `$${(tier.min_amount / 100).toFixed(0)} – $${((tiers[index + 1].min_amount - 1) / 100).toFixed(2)}`
+                  : `$${(tier.min_amount / 100).toFixed(0)}+`}
+              </span>
+              <span>{formatTier(tier)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {bankTiers.length > 0 && (
+        <div className="space-y-1">
+          {bankTiers.map(tier => (
+            <div key={tier.min_amount} className="flex justify-between text-xs text-gray-500">
+              <span>
+                Bank payment (ACH){tier.min_amount > 0 ? ` $${(tier.min_amount / 100).toFixed(0)}+` : ''}
+              </span>
+              <span>{formatTier(tier)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center space-x-2">
+        <Switch
+          id="absorb_fees"
+          checked={feeSettings.absorbFees}
+          onCheckedChange={(absorbFees) => updateFeeSettings(
+            { absorb_fees: absorbFees },
+            absorbFees
+              ? "Processing fees will be deducted from your payouts"
+              : "Processing fees will be added to your clients' totals"
+          )}
+          disabled={saving}
+        />
+        <Label htmlFor="absorb_fees" className="text-sm">
+          Absorb the processing fee instead of charging clients
+        </Label>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Switch
+          id="exclude_tips_from_fee"
+          checked={feeSettings.excludeTipsFromFee}
+          onCheckedChange={(excludeTips) => updateFeeSettings(
+            { exclude_tips_from_fee: excludeTips },
+            excludeTips
+              ? "Tips will no longer be counted toward the processing fee"
+              : "Tips will be counted toward the processing fee"
+          )}
+          disabled={saving}
+        />
+        <Label htmlFor="exclude_tips_from_fee" className="text-sm">
+          Don't charge the processing fee on tips
+        </Label>
+      </div>
+    </div>
+  );
+};
@@ -8,7 +8,18 @@ import { Separator } from "@/components/ui/separator";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { CompanyIdManager } from "./CompanyIdManager";
-import { User, Building, Zap, Info } from "lucide-react";
+import { TaxRatesManager } from "./TaxRatesManager";
+import { DiscountCodesManager } from "./DiscountCodesManager";
+import { PlatformFeeSettings } from "./PlatformFeeSettings";
+import { InvoiceNumberingSettings } from "./InvoiceNumberingSettings";
+import { PaymentTermsSettings } from "./PaymentTermsSettings";
+import { PaymentRemindersSettings } from "./PaymentRemindersSettings";
+import { LateFeeSettings } from "./LateFeeSettings";
+import { CompanyBrandingSettings } from "./CompanyBrandingSettings";
+import { BankPaymentSettings } from "./BankPaymentSettings";
+import { TipSettings } from "./TipSettings";
+import { CurrencySettings } from "./CurrencySettings";
+import { User, Building, Zap, Info, Percent, Bell, AlarmClock, Palette, Landmark, HandCoins, Tag } from "lucide-react";
 
 interface Profile {
   id: string;
@@ -301,6 +312,107 @@ export const ProfileTab = () => {
               userProfile={profile} 
               onCompanyIdGenerated={fetchProfile}
             />
+            <InvoiceNumberingSettings companyId={profile.company_id} />
+            <PaymentTermsSettings companyId={profile.company_id} />
+            <CurrencySettings companyId={profile.company_id} />
+          </CardContent>
+        </Card>
+
+        {/* Invoice Branding */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center space-x-2">
+              <Palette className="w-5 h-5 text-blue-600" />
+              <CardTitle>Invoice Branding</CardTitle>
+            </div>
+            <CardDescription>How your business appears on client invoice pages</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CompanyBrandingSettings companyId={profile?.company_id ?? null} />
+          </CardContent>
+        </Card>
+
+        {/* Sales Tax */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center space-x-2">
+              <Percent className="w-5 h-5 text-blue-600" />
+              <CardTitle>Sales Tax</CardTitle>
+            </div>
+            <CardDescription>Tax rates applied to taxable line items</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TaxRatesManager companyId={profile?.company_id ?? null} />
+          </CardContent>
+        </Card>
+
+        {/* Discount Codes */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center space-x-2">
+              <Tag className="w-5 h-5 text-blue-600" />
+              <CardTitle>Discount Codes</CardTitle>
+            </div>
+            <CardDescription>Promo codes clients can redeem on new jobs or when they pay</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <DiscountCodesManager companyId={profile?.company_id ?? null} />
+          </CardContent>
+        </Card>
+
+        {/* Payment Reminders */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center space-x-2">
+              <Bell className="w-5 h-5 text-blue-600" />
+              <CardTitle>Payment Reminders</CardTitle>
+            </div>
+            <CardDescription>SMS and email follow-ups for unpaid jobs</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <PaymentRemindersSettings companyId={profile?.company_id ?? null} />
+          </CardContent>
+        </Card>
+
+        {/* Late Fees */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center space-x-2">
+              <AlarmClock className="w-5 h-5 text-blue-600" />
+              <CardTitle>Late Fees</CardTitle>
+            </div>
+            <CardDescription>Charges added automatically to overdue jobs</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <LateFeeSettings companyId={profile?.company_id ?? null} />
+          </CardContent>
+        </Card>
+
+        {/* Bank Payments */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center space-x-2">
+              <Landmark className="w-5 h-5 text-blue-600" />
+              <CardTitle>Bank Payments</CardTitle>
+            </div>
+            <CardDescription>ACH bank debits for larger jobs</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <BankPaymentSettings companyId={profile?.company_id ?? null} />
+          </CardContent>
+        </Card>
+
+        {/* Tips */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center space-x-2">
+              <HandCoins className="w-5 h-5 text-blue-600" />
+              <CardTitle>Tips</CardTitle>
+            </div>
+            <CardDescription>Let clients tip your crew when they pay online</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TipSettings companyId={profile?.company_id ?? null} />
           </CardContent>
         </Card>
 
@@ -363,6 +475,8 @@ export const ProfileTab = () => {
                     </Button>
                   </div>
                 )}
+
+                <PlatformFeeSettings companyId={profile.company_id} />
               </div>
             )}
           </CardContent>
@@ -15,7 +15,7 @@ interface ReceiptViewerProps {
 interface Receipt {
   id: string;
   job_id: string;
-  session_id: string;
+  session_id: string | null;
   amount_paid: number;
   receipt_html: string;
   created_at: string;
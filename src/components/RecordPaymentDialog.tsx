@@ -0,0 +1,296 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/utils/currency";
+
+interface PayableJob {
+  id: string;
+  title: string;
+  job_name: string | null;
+  client_name: string | null;
+  price: number;
+  currency: string;
+  tax_amount: number;
+}
+
+interface RecordPaymentDialogProps {
+  job: PayableJob | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onPaymentRecorded: () => void;
+}
+
+const emptyForm = () => ({
+  manual_method: "cash",
+  amount: "",
+  reference_number: "",
+  paid_at: new Date().toISOString().split('T')[0],
+});
+
+export const RecordPaymentDialog = ({ job, open, onOpenChange, onPaymentRecorded }: RecordPaymentDialogProps) => {
+  const [loading, setLoading] = useState(false);
+  const [paidSoFar, setPaidSoFar] = useState(0);
+  const [formData, setFormData] = useState(emptyForm());
+  const { toast } = useToast();
+
+  // Amount already collected for the job, in cents
+  const fetchPaidSoFar = async (jobId: string) => {
+    const { data, error } = await supabase
+      .from('payments')
+      .select('amount, base_amount, refunded_base_amount')
+      .eq('job_id', jobId)
+      .in('payment_status', ['paid', 'partially_refunded']);
+
+    if (error) throw error;
+
+    return (data || []).reduce(
+      (sum, payment) => sum + Math.max((payment.base_amount ?? payment.amount) - (payment.refunded_base_amount || 0), 0),
+      0
+    );
+  };
+
+  useEffect(() => {
+    if (!open || !job) return;
+
+    const initialize = async () => {
+      try {
+        const paid = await fetchPaidSoFar(job.id);
+        const remaining = Math.max(Math.round(job.price * 100) - paid, 0);
+        setPaidSoFar(paid);
+        setFormData({ ...emptyForm(), amount: (remaining / 100).toFixed(2) });
+      } catch (error) {
+        console.error('Failed to fetch existing payments:', error);
+        setFormData(emptyForm());
+      }
+    };
+
+    initialize();
+  }, [open, job?.id]);
+
+  const remainingBalance = job ? Math.max(job.price - paidSoFar / 100, 0) : 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!job) return;
+
+    const amount = parseFloat(formData.amount);
+    if (!amount || amount <= 0) {
+      toast({
+        title: "Error",
+        description: "Please enter a valid amount",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const amountInCents = Math.round(amount * 100);
+      const jobPriceInCents = Math.round(job.price * 100);
+
+      // Re-read what has been paid, since the client may have paid online while the dialog was open
+      const paid = await fetchPaidSoFar(job.id);
+      const balanceInCents = Math.max(jobPriceInCents - paid, 0);
+      setPaidSoFar(paid);
+
+      if (amountInCents > balanceInCents) {
+        throw new Error(`Amount can't be more than the ${formatCurrency(balanceInCents / 100, job.currency)} remaining balance`);
+      }
+
+      // Close the job's payment link first so the client can't also pay the balance online
+      const { data: expired, error: expireError } = await supabase.functions.invoke('expire-checkout', {
+        body: { jobId: job.id }
+      });
+
+      if (expireError || !expired?.success) {
+        console.error('Error closing payment link:', expireError || expired?.error);
+        throw new Error(expired?.error || expireError?.message || "Failed to close the job's payment link");
+      }
+
+      // Same proportional tax share create-checkout puts on card payments
+      const taxInCents = jobPriceInCents > 0
+        ? Math.round(amountInCents * Math.round((job.tax_amount || 0) * 100) / jobPriceInCents)
+        : 0;
+      // Date inputs are local; record the payment at midday so it doesn't shift days across time zones
+      const paidAt = new Date(`${formData.paid_at}T12:00:00`).toISOString();
+
+      const { data: payment, error: paymentError } = await supabase
+        .from('payments')
+        .insert({
+          job_id: job.id,
+          amount: amountInCents,
+          base_amount: amountInCents,
+          tax_amount: taxInCents,
+          currency: job.currency,
+          payment_status: 'paid',
+          payment_method: 'manual',
+          manual_method: formData.manual_method,
+          reference_number: formData.reference_number.trim() || null,
+          recorded_by: user?.id ?? null,
+          paid_at: paidAt,
+        })
+        .select('id')
+        .single();
+
+      if (paymentError) {
+        console.error('Error recording payment:', paymentError);
+        throw paymentError;
+      }
+
+      const totalPaid = paid + amountInCents;
+      const fullyPaid = totalPaid >= Math.round(job.price * 100);
+
+      const { error: jobError } = await supabase
+        .from('jobs')
+        .update({
+          status: fullyPaid ? 'paid' : 'partially_paid',
+          paid_at: fullyPaid ? paidAt : null,
+        })
+        .eq('id', job.id);
+
+      if (jobError) {
+        console.error('Error updating job status:', jobError);
+        throw jobError;
+      }
+
+      const { error: receiptError } = await supabase.functions.invoke('generate-receipt', {
+        body: {
+          jobId: job.id,
+          paymentId: payment.id,
+          amountPaid: amountInCents,
+          paymentDate: paidAt,
+          paymentMethod: formData.manual_method,
+          referenceNumber: formData.reference_number.trim() || undefined,
+        }
+      });
+
+      if (receiptError) {
+        console.error('Error generating receipt:', receiptError);
+        toast({
+          title: "Receipt Failed",
+          description: "Payment recorded but the receipt could not be generated",
+          variant: "destructive",
+        });
+      }
+
+      toast({
+        title: "Payment Recorded",
+        description: fullyPaid
+          ? "Job marked as paid"
+          : `Job partially paid, ${formatCurrency((Math.round(job.price * 100) - totalPaid) / 100, job.currency)} remaining`,
+      });
+
+      onPaymentRecorded();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to record payment:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to record payment",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Record Payment</DialogTitle>
+          <DialogDescription>
+            {job ? `Record a cash, check or Zelle payment for "${job.job_name || job.title}"` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="text-sm text-gray-600">
+            Remaining balance: <span className="font-semibold">{formatCurrency(remainingBalance, job?.currency)}</span>
+          </div>
+
+          <div>
+            <Label htmlFor="manual_method">Method *</Label>
+            <Select
+              value={formData.manual_method}
+              onValueChange={(value) => setFormData({ ...formData, manual_method: value })}
+            >
+              <SelectTrigger className="mt-1">
+                <SelectValue placeholder="Select method" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="cash">Cash</SelectItem>
+                <SelectItem value="check">Check</SelectItem>
+                <SelectItem value="zelle">Zelle</SelectItem>
+                <SelectItem value="other">Other</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label htmlFor="payment_amount">Amount ($) *</Label>
+            <Input
+              id="payment_amount"
+              type="number"
+              step="0.01"
+              min="0.01"
+              max={remainingBalance.toFixed(2)}
+              value={formData.amount}
+              onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+              placeholder="0.00"
+              required
+              className="mt-1"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="reference_number">Reference Number</Label>
+            <Input
+              id="reference_number"
+              value={formData.reference_number}
+              onChange={(e) => setFormData({ ...formData, reference_number: e.target.value })}
+              placeholder="e.g., Check #1042"
+              className="mt-1"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="paid_at">Payment Date *</Label>
+            <Input
+              id="paid_at"
+              type="date"
+              value={formData.paid_at}
+              onChange={(e) => setFormData({ ...formData, paid_at: e.target.value })}
+              required
+              className="mt-1"
+            />
+          </div>
+
+          <div className="flex gap-2 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={loading}
+              className="flex-1 bg-green-600 hover:bg-green-700"
+            >
+              {loading ? "Recording..." : "Record Payment"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
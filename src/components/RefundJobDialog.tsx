@@ -0,0 +1,212 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/utils/currency";
+
+interface RefundableJob {
+  id: string;
+  title: string;
+  job_name: string | null;
+  client_name: string | null;
+  currency: string;
+}
+
+interface RefundablePayment {
+  amount: number;
+  refunded_amount: number;
+}
+
+interface RefundJobDialogProps {
+  job: RefundableJob | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRefunded: () => void;
+}
+
+export const RefundJobDialog = ({ job, open, onOpenChange, onRefunded }: RefundJobDialogProps) => {
+  const [payments, setPayments] = useState<RefundablePayment[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [fullRefund, setFullRefund] = useState(true);
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const { toast } = useToast();
+
+  // A refund is spread across the job's Stripe payments, newest first
+  const fetchPayments = async () => {
+    if (!job) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('payments')
+        .select('amount, refunded_amount')
+        .eq('job_id', job.id)
+        .eq('payment_method', 'stripe')
+        .in('payment_status', ['paid', 'partially_refunded'])
+        .not('stripe_payment_intent_id', 'is', null);
+
+      if (error) throw error;
+      setPayments(data || []);
+    } catch (error) {
+      console.error('Failed to fetch payments for refund:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load payment details",
+        variant: "destructive",
+      });
+    }
+  };
+
+  useEffect(() => {
+    if (open && job) {
+      setFullRefund(true);
+      setAmount("");
+      setReason("");
+      setPayments(null);
+      fetchPayments();
+    }
+  }, [open, job?.id]);
+
+  const refundableAmount = (payments || []).reduce(
+    (sum, payment) => sum + payment.amount - (payment.refunded_amount || 0),
+    0
+  ) / 100;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!job) return;
+
+    const refundAmount = fullRefund ? refundableAmount : parseFloat(amount);
+    if (!refundAmount || refundAmount <= 0 || refundAmount > refundableAmount) {
+      toast({
+        title: "Error",
+        description: `Enter an amount between ${formatCurrency(0.01, job.currency)} and ${formatCurrency(refundableAmount, job.currency)}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('create-refund', {
+        body: {
+          jobId: job.id,
+          amountInCents: fullRefund ? undefined : Math.round(refundAmount * 100),
+          reason: reason.trim() || null,
+        }
+      });
+
+      if (error) throw error;
+
+      if (!data.success) {
+        throw new Error(data.error || "Failed to issue refund");
+      }
+
+      if (data.warning) {
+        toast({
+          title: "Refund Incomplete",
+          description: data.warning,
+          variant: "destructive",
+        });
+      }
+
+      toast({
+        title: "Refund Issued",
+        description: `${formatCurrency(data.amount, job.currency)} refunded to ${job.client_name || 'the client'}`,
+      });
+
+      onRefunded();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to issue refund:', error);
+      toast({
+        title: "Refund Failed",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Refund Payment</DialogTitle>
+          <DialogDescription>
+            {job ? `Refund ${job.client_name || 'the client'} for "${job.job_name || job.title}"` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="text-sm text-gray-600">
+            Refundable amount: <span className="font-semibold">{formatCurrency(refundableAmount, job?.currency)}</span>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="full_refund"
+              checked={fullRefund}
+              onCheckedChange={setFullRefund}
+            />
+            <Label htmlFor="full_refund">Refund full amount</Label>
+          </div>
+
+          {!fullRefund && (
+            <div>
+              <Label htmlFor="refund_amount">Amount ($) *</Label>
+              <Input
+                id="refund_amount"
+                type="number"
+                step="0.01"
+                min="0.01"
+                max={refundableAmount}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="0.00"
+                required
+                className="mt-1"
+              />
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="refund_reason">Reason</Label>
+            <Textarea
+              id="refund_reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g., Service cancelled"
+              rows={3}
+              className="mt-1"
+            />
+          </div>
+
+          <div className="flex gap-2 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={loading || !payments || refundableAmount <= 0}
+              className="flex-1 bg-red-600 hover:bg-red-700"
+            >
+              {loading ? "Refunding..." : "Issue Refund"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
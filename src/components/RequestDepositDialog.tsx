@@ -0,0 +1,131 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { formatCurrency } from "@/utils/currency";
+
+export interface DepositRequest {
+  type: 'fixed' | 'percentage';
+  value: number;
+}
+
+interface DepositJob {
+  id: string;
+  title: string;
+  job_name: string | null;
+  price: number;
+  currency: string;
+}
+
+interface RequestDepositDialogProps {
+  job: DepositJob | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRequestDeposit: (jobId: string, deposit: DepositRequest) => Promise<void>;
+}
+
+export const RequestDepositDialog = ({ job, open, onOpenChange, onRequestDeposit }: RequestDepositDialogProps) => {
+  const [loading, setLoading] = useState(false);
+  const [depositType, setDepositType] = useState<'fixed' | 'percentage'>('percentage');
+  const [value, setValue] = useState("50");
+
+  useEffect(() => {
+    if (open) {
+      setDepositType('percentage');
+      setValue("50");
+    }
+  }, [open]);
+
+  const parsedValue = parseFloat(value) || 0;
+  const depositAmount = job
+    ? depositType === 'percentage' ? job.price * (parsedValue / 100) : parsedValue
+    : 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!job) return;
+
+    setLoading(true);
+    try {
+      await onRequestDeposit(job.id, { type: depositType, value: parsedValue });
+      onOpenChange(false);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Request Deposit</DialogTitle>
+          <DialogDescription>
+            {job ? `Send a deposit payment link for "${job.job_name || job.title}"` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="deposit_type">Deposit Type</Label>
+            <Select
+              value={depositType}
+              onValueChange={(type) => setDepositType(type as 'fixed' | 'percentage')}
+            >
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="percentage">Percentage of job price</SelectItem>
+                <SelectItem value="fixed">Fixed amount</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label htmlFor="deposit_value">
+              {depositType === 'percentage' ? 'Percentage (%) *' : 'Amount ($) *'}
+            </Label>
+            <Input
+              id="deposit_value"
+              type="number"
+              step={depositType === 'percentage' ? "1" : "0.01"}
+              min="0.01"
+              max={depositType === 'percentage' ? "99" : undefined}
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              required
+              className="mt-1"
+            />
+          </div>
+
+          <div className="text-sm text-gray-600">
+            Deposit: <span className="font-semibold">{formatCurrency(depositAmount, job?.currency)}</span>
+            {job && (
+              <> · Balance due on completion: {formatCurrency(Math.max(job.price - depositAmount, 0), job.currency)}</>
+            )}
+          </div>
+
+          <div className="flex gap-2 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={loading || depositAmount <= 0}
+              className="flex-1 bg-blue-600 hover:bg-blue-700"
+            >
+              {loading ? "Generating..." : "Generate Deposit Link"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -2,10 +2,14 @@
 import { useState, useEffect } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { DollarSign, TrendingUp, CreditCard, FileText, Calendar } from "lucide-react";
+import { DollarSign, TrendingUp, CreditCard, FileText, Calendar, Percent, HandCoins } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatCurrency } from "@/utils/currency";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
 
 interface Payment {
@@ -14,9 +18,26 @@ interface Payment {
   payment_status: string;
   paid_at: string | null;
   payment_method: string;
+  refunded_amount: number;
+  tax_amount: number;
+  tip_amount: number;
+  currency: string;
   jobs: {
     title: string;
+    crew_member: string | null;
+    job_line_items: {
+      tax_amount: number;
+      tax_rates: {
+        name: string;
+        jurisdiction: string | null;
+        percentage: number;
+      } | null;
+    }[];
   };
+  disputes: {
+    amount: number;
+    status: string;
+  }[];
 }
 
 interface RevenueStats {
@@ -24,14 +45,114 @@ interface RevenueStats {
   paidJobs: number;
   stripePayments: number;
   manualPayments: number;
+  refundedAmount: number;
+  disputedAmount: number;
+  tipAmount: number;
 }
 
+const lostDisputeAmount = (payment: Payment) =>
+  (payment.disputes || [])
+    .filter(dispute => dispute.status === 'lost')
+    .reduce((sum, dispute) => sum + dispute.amount, 0);
+
+// Revenue is what we kept: the amount collected minus refunds and lost disputes
+const netAmount = (payment: Payment) =>
+  payment.amount - (payment.refunded_amount || 0) - lostDisputeAmount(payment);
+
+interface TaxCollected {
+  label: string;
+  jurisdiction: string | null;
+  amount: number;
+}
+
+// Tax kept on a payment in cents; refunds give back a proportional share of the tax
+const netTaxAmount = (payment: Payment) =>
+  payment.amount > 0
+    ? (payment.tax_amount || 0) * Math.max(payment.amount - (payment.refunded_amount || 0), 0) / payment.amount
+    : 0;
+
+// Split each payment's tax across the rates on its job's line items
+const taxCollectedByRate = (payments: Payment[]): TaxCollected[] => {
+  const totals = new Map<string, TaxCollected>();
+
+  payments.forEach(payment => {
+    const paymentTax = netTaxAmount(payment);
+    if (paymentTax <= 0) return;
+
+    const taxedLines = (payment.jobs?.job_line_items || []).filter(item => item.tax_rates && Number(item.tax_amount) > 0);
+    const jobTax = taxedLines.reduce((sum, item) => sum + Number(item.tax_amount), 0);
+
+    const shares = jobTax > 0
+      ? taxedLines.map(item => ({ rate: item.tax_rates, share: Number(item.tax_amount) / jobTax }))
+      : [{ rate: null, share: 1 }];
+
+    shares.forEach(({ rate, share }) => {
+      const label = rate ? `${rate.name} (${Number(rate.percentage)}%)` : 'Unassigned';
+      const key = `${label}|${rate?.jurisdiction ?? ''}`;
+      const existing = totals.get(key) || { label, jurisdiction: rate?.jurisdiction ?? null, amount: 0 };
+      existing.amount += paymentTax * share;
+      totals.set(key, existing);
+    });
+  });
+
+  return Array.from(totals.values()).sort((a, b) => b.amount - a.amount);
+};
+
+interface CrewTips {
+  crewMember: string;
+  tipCount: number;
+  amount: number;
+}
+
+// Tip kept on a payment in cents; like tax, refunds give back a proportional share of it
+const netTipAmount = (payment: Payment) =>
+  payment.amount > 0
+    ? (payment.tip_amount || 0) * Math.max(payment.amount - (payment.refunded_amount || 0), 0) / payment.amount
+    : 0;
+
+const tipsByCrewMember = (payments: Payment[]): CrewTips[] => {
+  const totals = new Map<string, CrewTips>();
+
+  payments.forEach(payment => {
+    const tip = netTipAmount(payment);
+    if (tip <= 0) return;
+
+    const crewMember = payment.jobs?.crew_member?.trim() || 'Unassigned';
+    const existing = totals.get(crewMember) || { crewMember, tipCount: 0, amount: 0 };
+    existing.tipCount += 1;
+    existing.amount += tip;
+    totals.set(crewMember, existing);
+  });
+
+  return Array.from(totals.values()).sort((a, b) => b.amount - a.amount);
+};
+
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
 export const RevenueTab = () => {
-  const [payments, setPayments] = useState<Payment[]>([]);
+  const [allPayments, setAllPayments] = useState<Payment[]>([]);
+  const [selectedCurrency, setSelectedCurrency] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState("week");
+  const [taxFrom, setTaxFrom] = useState(() => {
+    const now = new Date();
+    return toDateInput(new Date(now.getFullYear(), now.getMonth(), 1));
+  });
+  const [taxTo, setTaxTo] = useState(() => toDateInput(new Date()));
+  const [tipFrom, setTipFrom] = useState(() => {
+    const now = new Date();
+    return toDateInput(new Date(now.getFullYear(), now.getMonth(), 1));
+  });
+  const [tipTo, setTipTo] = useState(() => toDateInput(new Date()));
   const { toast } = useToast();
 
+  // Amounts in different currencies can't be added up, so every report covers one currency at a time
+  const currencies = Array.from(new Set(allPayments.map(payment => payment.currency || 'usd'))).sort();
+  const currency = selectedCurrency ?? currencies[0] ?? 'usd';
+  const payments = allPayments.filter(payment => (payment.currency || 'usd') === currency);
+  const money = (amountInCents: number) => formatCurrency(amountInCents / 100, currency);
+
   const fetchPayments = async () => {
     try {
       const { data, error } = await supabase
@@ -39,15 +160,29 @@ export const RevenueTab = () => {
         .select(`
           *,
           jobs (
-            title
+            title,
+            crew_member,
+            job_line_items (
+              tax_amount,
+              tax_rates (
+                name,
+                jurisdiction,
+                percentage
+              )
+            )
+          ),
+          disputes (
+            amount,
+            status
           )
         `)
-        .eq('payment_status', 'paid')
+        .in('payment_status', ['paid', 'partially_refunded', 'refunded'])
         .not('paid_at', 'is', null)
         .order('paid_at', { ascending: false });
 
       if (error) throw error;
-      setPayments(data || []);
+      // Credit applied to a job was already counted as revenue when the client first paid it
+      setAllPayments((data || []).filter(payment => payment.payment_method !== 'credit'));
     } catch (error: any) {
       toast({
         title: "Error",
@@ -90,7 +225,10 @@ export const RevenueTab = () => {
       return paidDate >= startDate;
     });
 
-    const totalRevenue = filteredPayments.reduce((sum, payment) => sum + payment.amount, 0);
+    const totalRevenue = filteredPayments.reduce((sum, payment) => sum + netAmount(payment), 0);
+    const refundedAmount = filteredPayments.reduce((sum, payment) => sum + (payment.refunded_amount || 0), 0);
+    const disputedAmount = filteredPayments.reduce((sum, payment) => sum + lostDisputeAmount(payment), 0);
+    const tipAmount = filteredPayments.reduce((sum, payment) => sum + netTipAmount(payment), 0);
     const paidJobs = filteredPayments.length;
     const stripePayments = filteredPayments.filter(p => p.payment_method === 'stripe').length;
     const manualPayments = filteredPayments.filter(p => p.payment_method === 'manual').length;
@@ -100,6 +238,9 @@ export const RevenueTab = () => {
       paidJobs,
       stripePayments,
       manualPayments,
+      refundedAmount,
+      disputedAmount,
+      tipAmount,
     };
   };
 
@@ -118,7 +259,7 @@ export const RevenueTab = () => {
           const paidDate = new Date(payment.paid_at);
           return paidDate.toDateString() === date.toDateString();
         })
-        .reduce((sum, payment) => sum + payment.amount, 0);
+        .reduce((sum, payment) => sum + netAmount(payment), 0);
 
       days.push({
         date: date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
@@ -129,8 +270,46 @@ export const RevenueTab = () => {
     return days;
   };
 
+  const getTaxReport = () => {
+    // Date inputs are local days; include the whole of the end day
+    const from = new Date(`${taxFrom}T00:00:00`);
+    const to = new Date(`${taxTo}T23:59:59.999`);
+
+    const periodPayments = payments.filter(payment => {
+      if (!payment.paid_at) return false;
+      const paidDate = new Date(payment.paid_at);
+      return paidDate >= from && paidDate <= to;
+    });
+
+    const rates = taxCollectedByRate(periodPayments);
+    const totalTax = rates.reduce((sum, rate) => sum + rate.amount, 0);
+    const taxableSales = periodPayments
+      .filter(payment => netTaxAmount(payment) > 0)
+      .reduce((sum, payment) => sum + netAmount(payment), 0);
+
+    return { rates, totalTax, taxableSales };
+  };
+
+  const getTipReport = () => {
+    const from = new Date(`${tipFrom}T00:00:00`);
+    const to = new Date(`${tipTo}T23:59:59.999`);
+
+    const periodPayments = payments.filter(payment => {
+      if (!payment.paid_at) return false;
+      const paidDate = new Date(payment.paid_at);
+      return paidDate >= from && paidDate <= to;
+    });
+
+    const crew = tipsByCrewMember(periodPayments);
+    const totalTips = crew.reduce((sum, member) => sum + member.amount, 0);
+
+    return { crew, totalTips };
+  };
+
   const stats = calculateStats(activeTab);
   const chartData = getChartData();
+  const taxReport = getTaxReport();
+  const tipReport = getTipReport();
 
   if (loading) {
     return <div className="flex justify-center p-8">Loading revenue data...</div>;
@@ -138,9 +317,23 @@ export const RevenueTab = () => {
 
   return (
     <div className="space-y-6">
-      <div>
-        <h2 className="text-2xl font-bold text-gray-900">Revenue Analytics</h2>
-        <p className="text-gray-600">Track your payment performance and revenue trends</p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Revenue Analytics</h2>
+          <p className="text-gray-600">Track your payment performance and revenue trends</p>
+        </div>
+        {currencies.length > 1 && (
+          <Select value={currency} onValueChange={setSelectedCurrency}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {currencies.map(code => (
+                <SelectItem key={code} value={code}>{code.toUpperCase()}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
@@ -160,8 +353,23 @@ export const RevenueTab = () => {
               </CardHeader>
               <CardContent>
                 <div className="text-2xl font-bold text-green-600">
-                  ${(stats.totalRevenue / 100).toFixed(2)}
+                  {money(stats.totalRevenue)}
                 </div>
+                {stats.refundedAmount > 0 && (
+                  <div className="text-xs text-red-600">
+                    -{money(stats.refundedAmount)} refunded
+                  </div>
+                )}
+                {stats.disputedAmount > 0 && (
+                  <div className="text-xs text-red-600">
+                    -{money(stats.disputedAmount)} lost to disputes
+                  </div>
+                )}
+                {stats.tipAmount > 0 && (
+                  <div className="text-xs text-muted-foreground">
+                    Includes {money(stats.tipAmount)} in tips
+                  </div>
+                )}
               </CardContent>
             </Card>
 
@@ -199,7 +407,7 @@ export const RevenueTab = () => {
               </CardHeader>
               <CardContent>
                 <div className="text-2xl font-bold text-orange-600">
-                  ${stats.paidJobs > 0 ? ((stats.totalRevenue / 100) / stats.paidJobs).toFixed(2) : '0.00'}
+                  {money(stats.paidJobs > 0 ? stats.totalRevenue / stats.paidJobs : 0)}
                 </div>
               </CardContent>
             </Card>
@@ -225,7 +433,7 @@ export const RevenueTab = () => {
                       <XAxis dataKey="date" />
                       <YAxis />
                       <Tooltip
-                        formatter={(value) => [`$${value}`, 'Revenue']}
+                        formatter={(value) => [formatCurrency(Number(value), currency), 'Revenue']}
                         labelStyle={{ color: '#374151' }}
                       />
                       <Bar dataKey="revenue" fill="#3B82F6" radius={[4, 4, 0, 0]} />
@@ -254,7 +462,7 @@ export const RevenueTab = () => {
                   <div className="flex items-center gap-2">
                     <Badge variant="secondary">{stats.stripePayments} jobs</Badge>
                     <span className="text-sm text-gray-600">
-                      ${((payments.filter(p => p.payment_method === 'stripe' && new Date(p.paid_at!) >= getDateRange(activeTab).startDate).reduce((sum, p) => sum + p.amount, 0)) / 100).toFixed(2)}
+                      {money(payments.filter(p => p.payment_method === 'stripe' && new Date(p.paid_at!) >= getDateRange(activeTab).startDate).reduce((sum, p) => sum + netAmount(p), 0))}
                     </span>
                   </div>
                 </div>
@@ -267,7 +475,7 @@ export const RevenueTab = () => {
                   <div className="flex items-center gap-2">
                     <Badge variant="secondary">{stats.manualPayments} jobs</Badge>
                     <span className="text-sm text-gray-600">
-                      ${((payments.filter(p => p.payment_method === 'manual' && new Date(p.paid_at!) >= getDateRange(activeTab).startDate).reduce((sum, p) => sum + p.amount, 0)) / 100).toFixed(2)}
+                      {money(payments.filter(p => p.payment_method === 'manual' && new Date(p.paid_at!) >= getDateRange(activeTab).startDate).reduce((sum, p) => sum + netAmount(p), 0))}
                     </span>
                   </div>
                 </div>
@@ -277,7 +485,132 @@ export const RevenueTab = () => {
         </TabsContent>
       </Tabs>
 
-      {payments.length === 0 && (
+      {/* Sales Tax Report */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Percent className="h-5 w-5" />
+            Sales Tax Collected
+          </CardTitle>
+          <CardDescription>
+            Tax collected by rate for the filing period, net of refunds
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 gap-4 max-w-md">
+            <div>
+              <Label htmlFor="tax_from">From</Label>
+              <Input
+                id="tax_from"
+                type="date"
+                value={taxFrom}
+                max={taxTo}
+                onChange={(e) => setTaxFrom(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="tax_to">To</Label>
+              <Input
+                id="tax_to"
+                type="date"
+                value={taxTo}
+                min={taxFrom}
+                onChange={(e) => setTaxTo(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          {taxReport.rates.length === 0 ? (
+            <p className="text-sm text-gray-500">No sales tax collected in this period</p>
+          ) : (
+            <div className="space-y-2">
+              {taxReport.rates.map((rate) => (
+                <div key={`${rate.label}|${rate.jurisdiction ?? ''}`} className="flex items-center justify-between">
+                  <div>
+                    <span className="font-medium">{rate.label}</span>
+                    {rate.jurisdiction && (
+                      <span className="text-sm text-gray-500 ml-2">{rate.jurisdiction}</span>
+                    )}
+                  </div>
+                  <span className="text-sm text-gray-600">{money(rate.amount)}</span>
+                </div>
+              ))}
+              <div className="flex items-center justify-between border-t pt-2 font-semibold">
+                <span>Total Tax Collected</span>
+                <span>{money(taxReport.totalTax)}</span>
+              </div>
+              <div className="text-xs text-muted-foreground">
+                From {money(taxReport.taxableSales)} in taxed payments
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Tips Report */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <HandCoins className="h-5 w-5" />
+            Tips by Crew Member
+          </CardTitle>
+          <CardDescription>
+            Tips collected online for the period, net of refunds, to pass on to your crew
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 gap-4 max-w-md">
+            <div>
+              <Label htmlFor="tip_from">From</Label>
+              <Input
+                id="tip_from"
+                type="date"
+                value={tipFrom}
+                max={tipTo}
+                onChange={(e) => setTipFrom(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="tip_to">To</Label>
+              <Input
+                id="tip_to"
+                type="date"
+                value={tipTo}
+                min={tipFrom}
+                onChange={(e) => setTipTo(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          {tipReport.crew.length === 0 ? (
+            <p className="text-sm text-gray-500">No tips collected in this period</p>
+          ) : (
+            <div className="space-y-2">
+              {tipReport.crew.map((member) => (
+                <div key={member.crewMember} className="flex items-center justify-between">
+                  <div>
+                    <span className="font-medium">{member.crewMember}</span>
+                    <span className="text-sm text-gray-500 ml-2">
+                      {member.tipCount} {member.tipCount === 1 ? 'tip' : 'tips'}
+                    </span>
+                  </div>
+                  <span className="text-sm text-gray-600">{money(member.amount)}</span>
+                </div>
+              ))}
+              <div className="flex items-center justify-between border-t pt-2 font-semibold">
+                <span>Total Tips</span>
+                <span>{money(tipReport.totalTips)}</span>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {allPayments.length === 0 && (
         <Card className="p-12 text-center">
           <CardContent>
             <p className="text-gray-500">No payment data available yet</p>
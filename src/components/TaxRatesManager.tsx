@@ -0,0 +1,270 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Star, Archive } from "lucide-react";
+import { TaxRate } from "@/utils/lineItems";
+
+interface TaxRatesManagerProps {
+  companyId: string | null;
+}
+
+const emptyForm = () => ({
+  name: "",
+  percentage: "",
+  jurisdiction: "",
+});
+
+export const TaxRatesManager = ({ companyId }: TaxRatesManagerProps) => {
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyForm());
+  const { toast } = useToast();
+
+  const fetchTaxRates = async () => {
+    if (!companyId) {
+      setTaxRates([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('tax_rates')
+        .select('id, name, percentage, jurisdiction, is_default')
+        .eq('company_id', companyId)
+        .eq('active', true)
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching tax rates:', error);
+        throw error;
+      }
+
+      setTaxRates(data || []);
+    } catch (error) {
+      console.error('Failed to fetch tax rates:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load tax rates",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTaxRates();
+  }, [companyId]);
+
+  const addTaxRate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!companyId) return;
+
+    const percentage = parseFloat(formData.percentage);
+    if (!formData.name.trim() || isNaN(percentage) || percentage < 0 || percentage >= 100) {
+      toast({
+        title: "Error",
+        description: "Enter a name and a percentage between 0 and 100",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('tax_rates')
+        .insert({
+          company_id: companyId,
+          name: formData.name.trim(),
+          percentage,
+          jurisdiction: formData.jurisdiction.trim() || null,
+          // The first rate becomes the default for new jobs
+          is_default: taxRates.length === 0,
+        });
+
+      if (error) {
+        console.error('Error adding tax rate:', error);
+        throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: "Tax rate added",
+      });
+      setFormData(emptyForm());
+      fetchTaxRates();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add tax rate",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setDefault = async (rate: TaxRate) => {
+    try {
+      // Clear the current default first; only one default is allowed per company
+      const { error: clearError } = await supabase
+        .from('tax_rates')
+        .update({ is_default: false })
+        .eq('company_id', companyId)
+        .eq('is_default', true);
+
+      if (clearError) throw clearError;
+
+      const { error } = await supabase
+        .from('tax_rates')
+        .update({ is_default: true })
+        .eq('id', rate.id);
+
+      if (error) throw error;
+
+      fetchTaxRates();
+    } catch (error) {
+      console.error('Failed to set default tax rate:', error);
+      toast({
+        title: "Error",
+        description: "Failed to set default tax rate",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Rates are archived rather than deleted so past jobs and tax reports keep their names
+  const archiveTaxRate = async (rate: TaxRate) => {
+    try {
+      const { error } = await supabase
+        .from('tax_rates')
+        .update({ active: false, is_default: false })
+        .eq('id', rate.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Tax Rate Archived",
+        description: `${rate.name} will no longer be offered on new jobs`,
+      });
+      fetchTaxRates();
+    } catch (error) {
+      console.error('Failed to archive tax rate:', error);
+      toast({
+        title: "Error",
+        description: "Failed to archive tax rate",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!companyId) {
+    return (
+      <p className="text-sm text-gray-500">
+        Generate a Company ID before adding tax rates.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading tax rates...</p>
+      ) : taxRates.length === 0 ? (
+        <p className="text-sm text-gray-500">No tax rates yet. Jobs will be created without sales tax.</p>
+      ) : (
+        <div className="space-y-2">
+          {taxRates.map((rate) => (
+            <div key={rate.id} className="flex items-center justify-between p-3 border rounded-lg">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{rate.name}</span>
+                  <span className="text-sm text-gray-600">{rate.percentage}%</span>
+                  {rate.is_default && <Badge variant="secondary">Default</Badge>}
+                </div>
+                {rate.jurisdiction && (
+                  <p className="text-xs text-gray-500">{rate.jurisdiction}</p>
+                )}
+              </div>
+              <div className="flex gap-1">
+                {!rate.is_default && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDefault(rate)}
+                    title="Make default"
+                  >
+                    <Star className="w-4 h-4" />
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => archiveTaxRate(rate)}
+                  title="Archive"
+                >
+                  <Archive className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={addTaxRate} className="space-y-3 pt-2 border-t">
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label htmlFor="tax_name">Name *</Label>
+            <Input
+              id="tax_name"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              placeholder="e.g., State Sales Tax"
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="tax_percentage">Rate (%) *</Label>
+            <Input
+              id="tax_percentage"
+              type="number"
+              step="0.001"
+              min="0"
+              max="99.999"
+              value={formData.percentage}
+              onChange={(e) => setFormData({ ...formData, percentage: e.target.value })}
+              placeholder="e.g., 8.25"
+              className="mt-1"
+            />
+          </div>
+        </div>
+        <div>
+          <Label htmlFor="tax_jurisdiction">Jurisdiction</Label>
+          <Input
+            id="tax_jurisdiction"
+            value={formData.jurisdiction}
+            onChange={(e) => setFormData({ ...formData, jurisdiction: e.target.value })}
+            placeholder="e.g., Travis County, TX"
+            className="mt-1"
+          />
+        </div>
+        <Button
+          type="submit"
+          disabled={saving}
+          size="sm"
+          className="bg-blue-600 hover:bg-blue-700"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          {saving ? "Adding..." : "Add Tax Rate"}
+        </Button>
+      </form>
+    </div>
+  );
+};
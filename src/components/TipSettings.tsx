@@ -0,0 +1,95 @@
+import { useState, useEffect } from "react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+interface TipSettingsProps {
+  companyId: string | null;
+}
+
+export const TipSettings = ({ companyId }: TipSettingsProps) => {
+  const [tipsEnabled, setTipsEnabled] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const fetchSettings = async () => {
+    if (!companyId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('company_billing_settings')
+        .select('tips_enabled')
+        .eq('company_id', companyId)
+        .maybeSingle();
+
+      if (error) throw error;
+      setTipsEnabled(data?.tips_enabled ?? false);
+    } catch (error) {
+      console.error('Failed to fetch tip settings:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchSettings();
+  }, [companyId]);
+
+  const toggleTips = async (enabled: boolean) => {
+    if (!companyId) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('company_billing_settings')
+        .upsert({ company_id: companyId, tips_enabled: enabled }, { onConflict: 'company_id' });
+
+      if (error) {
+        console.error('Error saving tip settings:', error);
+        throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: enabled
+          ? "Clients can add a tip when they pay online"
+          : "Tips are off",
+      });
+      setTipsEnabled(enabled);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save tip settings",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!companyId) {
+    return (
+      <p className="text-sm text-gray-500">
+        Generate a Company ID before setting up tips.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center space-x-2">
+        <Switch
+          id="tips_enabled"
+          checked={tipsEnabled}
+          onCheckedChange={toggleTips}
+          disabled={saving}
+        />
+        <Label htmlFor="tips_enabled" className="text-sm">
+          Offer a tip step on invoice pages
+        </Label>
+      </div>
+      <p className="text-xs text-gray-500">
+        Clients can add 10%, 15%, 20% or a custom tip when paying the balance. Tips are recorded separately from the job price and reported per crew member under Revenue.
+      </p>
+    </div>
+  );
+};
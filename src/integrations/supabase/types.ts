@@ -12,107 +12,985 @@ export type Database = {
       clients: {
         Row: {
           address: string | null
+          autopay_enabled: boolean
+          card_brand: string | null
+          card_last4: string | null
           company_id: string
           created_at: string
+          currency: string | null
+          discount_percentage: number | null
           email: string
           id: string
           name: string
+          payment_terms_days: number | null
           phone: string | null
+          stripe_account_id: string | null
+          stripe_customer_id: string | null
+          stripe_payment_method_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          autopay_enabled?: boolean
+          card_brand?: string | null
+          card_last4?: string | null
+          company_id: string
+          created_at?: string
+          currency?: string | null
+          discount_percentage?: number | null
+          email: string
+          id?: string
+          name: string
+          payment_terms_days?: number | null
+          phone?: string | null
+          stripe_account_id?: string | null
+          stripe_customer_id?: string | null
+          stripe_payment_method_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          autopay_enabled?: boolean
+          card_brand?: string | null
+          card_last4?: string | null
+          company_id?: string
+          created_at?: string
+          currency?: string | null
+          discount_percentage?: number | null
+          email?: string
+          id?: string
+          name?: string
+          payment_terms_days?: number | null
+          phone?: string | null
+          stripe_account_id?: string | null
+          stripe_customer_id?: string | null
+          stripe_payment_method_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "clients_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["company_id"]
+          },
+        ]
+      }
+      company_billing_settings: {
+        Row: {
+          bank_payment_min_amount: number | null
+          bank_payments_enabled: boolean
+          company_id: string
+          created_at: string
+          default_currency: string
+          late_fee_cap: number | null
+          late_fee_enabled: boolean
+          late_fee_frequency: string
+          late_fee_grace_days: number
+          late_fee_type: string
+          late_fee_value: number
+          payment_terms_days: number
+          reminders_enabled: boolean
+          tips_enabled: boolean
+          updated_at: string
+        }
+        Insert: {
+          bank_payment_min_amount?: number | null
+          bank_payments_enabled?: boolean
+          company_id: string
+          created_at?: string
+          default_currency?: string
+          late_fee_cap?: number | null
+          late_fee_enabled?: boolean
+          late_fee_frequency?: string
+          late_fee_grace_days?: number
+          late_fee_type?: string
+          late_fee_value?: number
+          payment_terms_days?: number
+          reminders_enabled?: boolean
+          tips_enabled?: boolean
+          updated_at?: string
+        }
+        Update: {
+          bank_payment_min_amount?: number | null
+          bank_payments_enabled?: boolean
+          company_id?: string
+          created_at?: string
+          default_currency?: string
+          late_fee_cap?: number | null
+          late_fee_enabled?: boolean
+          late_fee_frequency?: string
+          late_fee_grace_days?: number
+          late_fee_type?: string
+          late_fee_value?: number
+          payment_terms_days?: number
+          reminders_enabled?: boolean
+          tips_enabled?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      company_branding: {
+        Row: {
+          brand_color: string
+          business_name: string | null
+          company_id: string
+          contact_email: string | null
+          contact_phone: string | null
+          created_at: string
+          logo_url: string | null
+          updated_at: string
+          website: string | null
+        }
+        Insert: {
+          brand_color?: string
+          business_name?: string | null
+          company_id: string
+          contact_email?: string | null
+          contact_phone?: string | null
+          created_at?: string
+          logo_url?: string | null
+          updated_at?: string
+          website?: string | null
+        }
+        Update: {
+          brand_color?: string
+          business_name?: string | null
+          company_id?: string
+          contact_email?: string | null
+          contact_phone?: string | null
+          created_at?: string
+          logo_url?: string | null
+          updated_at?: string
+          website?: string | null
+        }
+        Relationships: []
+      }
+      company_fee_settings: {
+        Row: {
+          absorb_fees: boolean
+          company_id: string
+          created_at: string
+          exclude_tips_from_fee: boolean
+          fee_schedule_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          absorb_fees?: boolean
+          company_id: string
+          created_at?: string
+          exclude_tips_from_fee?: boolean
+          fee_schedule_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          absorb_fees?: boolean
+          company_id?: string
+          created_at?: string
+          exclude_tips_from_fee?: boolean
+          fee_schedule_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "company_fee_settings_fee_schedule_id_fkey"
+            columns: ["fee_schedule_id"]
+            isOneToOne: false
+            referencedRelation: "fee_schedules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_notes: {
+        Row: {
+          amount: number
+          client_id: string
+          company_id: string
+          created_at: string
+          currency: string
+          id: string
+          issued_by: string | null
+          job_id: string
+          reason: string
+        }
+        Insert: {
+          amount: number
+          client_id: string
+          company_id: string
+          created_at?: string
+          currency?: string
+          id?: string
+          issued_by?: string | null
+          job_id: string
+          reason: string
+        }
+        Update: {
+          amount?: number
+          client_id?: string
+          company_id?: string
+          created_at?: string
+          currency?: string
+          id?: string
+          issued_by?: string | null
+          job_id?: string
+          reason?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_notes_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_notes_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      discount_codes: {
+        Row: {
+          active: boolean
+          code: string
+          company_id: string
+          created_at: string
+          currency: string | null
+          description: string | null
+          discount_type: string
+          ends_at: string | null
+          id: string
+          max_uses: number | null
+          max_uses_per_client: number | null
+          starts_at: string | null
+          updated_at: string
+          value: number
+        }
+        Insert: {
+          active?: boolean
+          code: string
+          company_id: string
+          created_at?: string
+          currency?: string | null
+          description?: string | null
+          discount_type: string
+          ends_at?: string | null
+          id?: string
+          max_uses?: number | null
+          max_uses_per_client?: number | null
+          starts_at?: string | null
+          updated_at?: string
+          value: number
+        }
+        Update: {
+          active?: boolean
+          code?: string
+          company_id?: string
+          created_at?: string
+          currency?: string | null
+          description?: string | null
+          discount_type?: string
+          ends_at?: string | null
+          id?: string
+          max_uses?: number | null
+          max_uses_per_client?: number | null
+          starts_at?: string | null
+          updated_at?: string
+          value?: number
+        }
+        Relationships: []
+      }
+      disputes: {
+        Row: {
+          amount: number
+          closed_at: string | null
+          created_at: string
+          evidence_due_by: string | null
+          id: string
+          job_id: string
+          payment_id: string | null
+          reason: string | null
+          status: string
+          stripe_charge_id: string | null
+          stripe_dispute_id: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          closed_at?: string | null
+          created_at?: string
+          evidence_due_by?: string | null
+          id?: string
+          job_id: string
+          payment_id?: string | null
+          reason?: string | null
+          status: string
+          stripe_charge_id?: string | null
+          stripe_dispute_id: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          closed_at?: string | null
+          created_at?: string
+          evidence_due_by?: string | null
+          id?: string
+          job_id?: string
+          payment_id?: string | null
+          reason?: string | null
+          status?: string
+          stripe_charge_id?: string | null
+          stripe_dispute_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "disputes_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "disputes_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      estimate_line_items: {
+        Row: {
+          created_at: string
+          description: string
+          estimate_id: string
+          id: string
+          position: number
+          quantity: number
+          tax_amount: number
+          tax_rate_id: string | null
+          taxable: boolean
+          unit_price: number
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          estimate_id: string
+          id?: string
+          position?: number
+          quantity?: number
+          tax_amount?: number
+          tax_rate_id?: string | null
+          taxable?: boolean
+          unit_price: number
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          estimate_id?: string
+          id?: string
+          position?: number
+          quantity?: number
+          tax_amount?: number
+          tax_rate_id?: string | null
+          taxable?: boolean
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "estimate_line_items_estimate_id_fkey"
+            columns: ["estimate_id"]
+            isOneToOne: false
+            referencedRelation: "estimates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "estimate_line_items_tax_rate_id_fkey"
+            columns: ["tax_rate_id"]
+            isOneToOne: false
+            referencedRelation: "tax_rates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      estimates: {
+        Row: {
+          client_id: string
+          company_id: string
+          created_at: string
+          created_by: string | null
+          decline_reason: string | null
+          deposit_type: string | null
+          deposit_value: number | null
+          description: string | null
+          expires_at: string
+          id: string
+          job_id: string | null
+          phone_number: string | null
+          price: number
+          public_token: string
+          responded_at: string | null
+          scheduled_date: string | null
+          sent_at: string | null
+          signature_name: string | null
+          status: string
+          tax_amount: number
+          tax_rate_id: string | null
+          title: string
+          updated_at: string
+          viewed_at: string | null
+        }
+        Insert: {
+          client_id: string
+          company_id: string
+          created_at?: string
+          created_by?: string | null
+          decline_reason?: string | null
+          deposit_type?: string | null
+          deposit_value?: number | null
+          description?: string | null
+          expires_at: string
+          id?: string
+          job_id?: string | null
+          phone_number?: string | null
+          price: number
+          public_token?: string
+          responded_at?: string | null
+          scheduled_date?: string | null
+          sent_at?: string | null
+          signature_name?: string | null
+          status?: string
+          tax_amount?: number
+          tax_rate_id?: string | null
+          title: string
+          updated_at?: string
+          viewed_at?: string | null
+        }
+        Update: {
+          client_id?: string
+          company_id?: string
+          created_at?: string
+          created_by?: string | null
+          decline_reason?: string | null
+          deposit_type?: string | null
+          deposit_value?: number | null
+          description?: string | null
+          expires_at?: string
+          id?: string
+          job_id?: string | null
+          phone_number?: string | null
+          price?: number
+          public_token?: string
+          responded_at?: string | null
+          scheduled_date?: string | null
+          sent_at?: string | null
+          signature_name?: string | null
+          status?: string
+          tax_amount?: number
+          tax_rate_id?: string | null
+          title?: string
+          updated_at?: string
+          viewed_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "estimates_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "estimates_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "estimates_tax_rate_id_fkey"
+            columns: ["tax_rate_id"]
+            isOneToOne: false
+            referencedRelation: "tax_rates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fee_schedule_tiers: {
+        Row: {
+          created_at: string
+          fee_schedule_id: string
+          fixed_amount: number
+          id: string
+          max_fee: number | null
+          min_amount: number
+          payment_method: string
+          percentage: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          fee_schedule_id: string
+          fixed_amount?: number
+          id?: string
+          max_fee?: number | null
+          min_amount?: number
+          payment_method?: string
+          percentage?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          fee_schedule_id?: string
+          fixed_amount?: number
+          id?: string
+          max_fee?: number | null
+          min_amount?: number
+          payment_method?: string
+          percentage?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fee_schedule_tiers_fee_schedule_id_fkey"
+            columns: ["fee_schedule_id"]
+            isOneToOne: false
+            referencedRelation: "fee_schedules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fee_schedules: {
+        Row: {
+          created_at: string
+          id: string
+          is_default: boolean
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      invoice_sequences: {
+        Row: {
+          company_id: string
+          created_at: string
+          next_number: number
+          prefix: string
+          updated_at: string
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          next_number?: number
+          prefix?: string
+          updated_at?: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          next_number?: number
+          prefix?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      invoices: {
+        Row: {
+          client_id: string | null
+          company_id: string
+          created_at: string
+          created_by: string | null
+          due_date: string | null
+          id: string
+          invoice_number: string
+          issue_date: string
+          notes: string | null
+          paid_at: string | null
+          sent_at: string | null
+          sequence_number: number
+          status: string
           updated_at: string
+          viewed_at: string | null
+          voided_at: string | null
         }
         Insert: {
-          address?: string | null
+          client_id?: string | null
           company_id: string
           created_at?: string
-          email: string
+          created_by?: string | null
+          due_date?: string | null
           id?: string
-          name: string
-          phone?: string | null
+          invoice_number?: string
+          issue_date?: string
+          notes?: string | null
+          paid_at?: string | null
+          sent_at?: string | null
+          sequence_number?: number
+          status?: string
           updated_at?: string
+          viewed_at?: string | null
+          voided_at?: string | null
         }
         Update: {
-          address?: string | null
+          client_id?: string | null
           company_id?: string
           created_at?: string
-          email?: string
+          created_by?: string | null
+          due_date?: string | null
           id?: string
-          name?: string
-          phone?: string | null
+          invoice_number?: string
+          issue_date?: string
+          notes?: string | null
+          paid_at?: string | null
+          sent_at?: string | null
+          sequence_number?: number
+          status?: string
           updated_at?: string
+          viewed_at?: string | null
+          voided_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "clients_company_id_fkey"
-            columns: ["company_id"]
+            foreignKeyName: "invoices_client_id_fkey"
+            columns: ["client_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
-            referencedColumns: ["company_id"]
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_discounts: {
+        Row: {
+          amount: number
+          company_id: string
+          created_at: string
+          discount_code_id: string | null
+          discount_type: string
+          id: string
+          job_id: string
+          kind: string
+          label: string
+          value: number
+        }
+        Insert: {
+          amount?: number
+          company_id: string
+          created_at?: string
+          discount_code_id?: string | null
+          discount_type?: string
+          id?: string
+          job_id: string
+          kind: string
+          label?: string
+          value?: number
+        }
+        Update: {
+          amount?: number
+          company_id?: string
+          created_at?: string
+          discount_code_id?: string | null
+          discount_type?: string
+          id?: string
+          job_id?: string
+          kind?: string
+          label?: string
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_discounts_discount_code_id_fkey"
+            columns: ["discount_code_id"]
+            isOneToOne: false
+            referencedRelation: "discount_codes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "job_discounts_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_late_fees: {
+        Row: {
+          amount: number
+          applied_at: string
+          company_id: string
+          id: string
+          job_id: string
+          period: number
+        }
+        Insert: {
+          amount: number
+          applied_at?: string
+          company_id: string
+          id?: string
+          job_id: string
+          period: number
+        }
+        Update: {
+          amount?: number
+          applied_at?: string
+          company_id?: string
+          id?: string
+          job_id?: string
+          period?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_late_fees_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_line_items: {
+        Row: {
+          created_at: string
+          description: string
+          id: string
+          job_id: string
+          position: number
+          quantity: number
+          tax_amount: number
+          tax_rate_id: string | null
+          taxable: boolean
+          unit_price: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          id?: string
+          job_id: string
+          position?: number
+          quantity?: number
+          tax_amount?: number
+          tax_rate_id?: string | null
+          taxable?: boolean
+          unit_price: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          id?: string
+          job_id?: string
+          position?: number
+          quantity?: number
+          tax_amount?: number
+          tax_rate_id?: string | null
+          taxable?: boolean
+          unit_price?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_line_items_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "job_line_items_tax_rate_id_fkey"
+            columns: ["tax_rate_id"]
+            isOneToOne: false
+            referencedRelation: "tax_rates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_reminders: {
+        Row: {
+          channel: string
+          company_id: string
+          days_from_due: number
+          error_message: string | null
+          id: string
+          job_id: string
+          recipient: string
+          sent_at: string
+          status: string
+        }
+        Insert: {
+          channel: string
+          company_id: string
+          days_from_due: number
+          error_message?: string | null
+          id?: string
+          job_id: string
+          recipient: string
+          sent_at?: string
+          status: string
+        }
+        Update: {
+          channel?: string
+          company_id?: string
+          days_from_due?: number
+          error_message?: string | null
+          id?: string
+          job_id?: string
+          recipient?: string
+          sent_at?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_reminders_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
           },
         ]
       }
       jobs: {
         Row: {
+          allow_bank_payment: boolean
+          autopay_error: string | null
+          autopay_failed_at: string | null
           client_id: string
           client_name: string | null
           company_id: string | null
+          completed_at: string | null
           created_at: string
+          crew_member: string | null
+          currency: string
+          deposit_type: string | null
+          deposit_value: number | null
           description: string | null
+          discount_amount: number
+          due_date: string | null
           frequency: string | null
           id: string
+          invoice_id: string | null
           is_recurring: boolean | null
           job_name: string | null
+          last_viewed_at: string | null
+          late_fee_amount: number
           paid_at: string | null
           payment_url: string | null
+          payment_url_expires_at: string | null
           phone_number: string | null
           price: number
+          public_token: string
           receipt_id: string | null
           scheduled_date: string
           status: string | null
           stripe_checkout_url: string | null
+          stripe_session_account_id: string | null
+          stripe_session_id: string | null
+          tax_amount: number
+          tax_rate_id: string | null
           title: string
           updated_at: string
+          viewed_at: string | null
         }
         Insert: {
+          allow_bank_payment?: boolean
+          autopay_error?: string | null
+          autopay_failed_at?: string | null
           client_id: string
           client_name?: string | null
           company_id?: string | null
+          completed_at?: string | null
           created_at?: string
+          crew_member?: string | null
+          currency?: string
+          deposit_type?: string | null
+          deposit_value?: number | null
           description?: string | null
+          discount_amount?: number
+          due_date?: string | null
           frequency?: string | null
           id?: string
+          invoice_id?: string | null
           is_recurring?: boolean | null
           job_name?: string | null
+          last_viewed_at?: string | null
+          late_fee_amount?: number
           paid_at?: string | null
           payment_url?: string | null
+          payment_url_expires_at?: string | null
           phone_number?: string | null
           price: number
+          public_token?: string
           receipt_id?: string | null
           scheduled_date: string
           status?: string | null
           stripe_checkout_url?: string | null
+          stripe_session_account_id?: string | null
+          stripe_session_id?: string | null
+          tax_amount?: number
+          tax_rate_id?: string | null
           title: string
           updated_at?: string
+          viewed_at?: string | null
         }
         Update: {
+          allow_bank_payment?: boolean
+          autopay_error?: string | null
+          autopay_failed_at?: string | null
           client_id?: string
           client_name?: string | null
           company_id?: string | null
+          completed_at?: string | null
           created_at?: string
+          crew_member?: string | null
+          currency?: string
+          deposit_type?: string | null
+          deposit_value?: number | null
           description?: string | null
+          discount_amount?: number
+          due_date?: string | null
           frequency?: string | null
           id?: string
+          invoice_id?: string | null
           is_recurring?: boolean | null
           job_name?: string | null
+          last_viewed_at?: string | null
+          late_fee_amount?: number
           paid_at?: string | null
           payment_url?: string | null
+          payment_url_expires_at?: string | null
           phone_number?: string | null
           price?: number
+          public_token?: string
           receipt_id?: string | null
           scheduled_date?: string
           status?: string | null
           stripe_checkout_url?: string | null
+          stripe_session_account_id?: string | null
+          stripe_session_id?: string | null
+          tax_amount?: number
+          tax_rate_id?: string | null
           title?: string
           updated_at?: string
+          viewed_at?: string | null
         }
         Relationships: [
           {
@@ -129,43 +1007,138 @@ export type Database = {
             referencedRelation: "receipts"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "jobs_tax_rate_id_fkey"
+            columns: ["tax_rate_id"]
+            isOneToOne: false
+            referencedRelation: "tax_rates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "jobs_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      payment_reminder_steps: {
+        Row: {
+          active: boolean
+          company_id: string
+          created_at: string
+          days_from_due: number
+          email_subject: string
+          email_template: string
+          id: string
+          send_email: boolean
+          send_sms: boolean
+          sms_template: string
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          company_id: string
+          created_at?: string
+          days_from_due: number
+          email_subject: string
+          email_template: string
+          id?: string
+          send_email?: boolean
+          send_sms?: boolean
+          sms_template: string
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          company_id?: string
+          created_at?: string
+          days_from_due?: number
+          email_subject?: string
+          email_template?: string
+          id?: string
+          send_email?: boolean
+          send_sms?: boolean
+          sms_template?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       payments: {
         Row: {
           amount: number
+          base_amount: number | null
           card_saved: boolean | null
           created_at: string
+          currency: string
           id: string
           job_id: string | null
+          manual_method: string | null
           paid_at: string | null
           payment_method: string | null
           payment_status: string
+          platform_fee: number | null
+          recorded_by: string | null
+          reference_number: string | null
+          refunded_amount: number
+          refunded_base_amount: number
+          stripe_account_id: string | null
           stripe_payment_intent_id: string | null
+          stripe_payment_method_type: string | null
+          stripe_session_id: string | null
+          tax_amount: number
+          tip_amount: number
           updated_at: string
         }
         Insert: {
           amount: number
+          base_amount?: number | null
           card_saved?: boolean | null
           created_at?: string
+          currency?: string
           id?: string
           job_id?: string | null
+          manual_method?: string | null
           paid_at?: string | null
           payment_method?: string | null
           payment_status?: string
+          platform_fee?: number | null
+          recorded_by?: string | null
+          reference_number?: string | null
+          refunded_amount?: number
+          refunded_base_amount?: number
+          stripe_account_id?: string | null
           stripe_payment_intent_id?: string | null
+          stripe_payment_method_type?: string | null
+          stripe_session_id?: string | null
+          tax_amount?: number
+          tip_amount?: number
           updated_at?: string
         }
         Update: {
           amount?: number
+          base_amount?: number | null
           card_saved?: boolean | null
           created_at?: string
+          currency?: string
           id?: string
           job_id?: string | null
+          manual_method?: string | null
           paid_at?: string | null
           payment_method?: string | null
           payment_status?: string
+          platform_fee?: number | null
+          recorded_by?: string | null
+          reference_number?: string | null
+          refunded_amount?: number
+          refunded_base_amount?: number
+          stripe_account_id?: string | null
           stripe_payment_intent_id?: string | null
+          stripe_payment_method_type?: string | null
+          stripe_session_id?: string | null
+          tax_amount?: number
+          tip_amount?: number
           updated_at?: string
         }
         Relationships: [
@@ -218,26 +1191,32 @@ export type Database = {
         Row: {
           amount_paid: number
           created_at: string
+          currency: string
           id: string
           job_id: string
+          payment_id: string | null
           receipt_html: string
-          session_id: string
+          session_id: string | null
         }
         Insert: {
           amount_paid: number
           created_at?: string
+          currency?: string
           id?: string
           job_id: string
+          payment_id?: string | null
           receipt_html: string
-          session_id: string
+          session_id?: string | null
         }
         Update: {
           amount_paid?: number
           created_at?: string
+          currency?: string
           id?: string
           job_id?: string
+          payment_id?: string | null
           receipt_html?: string
-          session_id?: string
+          session_id?: string | null
         }
         Relationships: [
           {
@@ -247,14 +1226,153 @@ export type Database = {
             referencedRelation: "jobs"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "receipts_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      refunds: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          id: string
+          job_id: string
+          payment_id: string | null
+          reason: string | null
+          status: string
+          stripe_refund_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          job_id: string
+          payment_id?: string | null
+          reason?: string | null
+          status?: string
+          stripe_refund_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          job_id?: string
+          payment_id?: string | null
+          reason?: string | null
+          status?: string
+          stripe_refund_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "refunds_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refunds_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      stripe_webhook_events: {
+        Row: {
+          attempts: number
+          created_at: string
+          error: string | null
+          id: string
+          payload: Json
+          processed_at: string | null
+          status: string
+          stripe_account_id: string | null
+          type: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          error?: string | null
+          id: string
+          payload: Json
+          processed_at?: string | null
+          status?: string
+          stripe_account_id?: string | null
+          type: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          error?: string | null
+          id?: string
+          payload?: Json
+          processed_at?: string | null
+          status?: string
+          stripe_account_id?: string | null
+          type?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      tax_rates: {
+        Row: {
+          active: boolean
+          company_id: string
+          created_at: string
+          id: string
+          is_default: boolean
+          jurisdiction: string | null
+          name: string
+          percentage: number
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          company_id: string
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          jurisdiction?: string | null
+          name: string
+          percentage: number
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          company_id?: string
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          jurisdiction?: string | null
+          name?: string
+          percentage?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      set_invoice_numbering: {
+        Args: { new_prefix: string; new_next_number: number }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,291 @@
+import { useState, useEffect } from "react";
+import { useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { CheckCircle, XCircle, FileText } from "lucide-react";
+
+interface PublicEstimate {
+  title: string;
+  description: string | null;
+  client_name: string | null;
+  price: number;
+  tax_amount: number;
+  expires_at: string;
+  scheduled_date: string | null;
+  status: 'draft' | 'viewed' | 'accepted' | 'declined';
+  is_expired: boolean;
+  deposit_amount: number | null;
+  signature_name: string | null;
+  responded_at: string | null;
+  line_items: {
+    description: string;
+    quantity: number;
+    unit_price: number;
+    tax_amount: number;
+  }[];
+}
+
+// Date-only columns are stored as YYYY-MM-DD; parse them as local dates so they don't shift a day
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+// Public page where a client reviews an estimate and accepts (with a typed signature) or declines it
+const EstimateApproval = () => {
+  const { token } = useParams<{ token: string }>();
+  const [estimate, setEstimate] = useState<PublicEstimate | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [signatureName, setSignatureName] = useState("");
+  const [declining, setDeclining] = useState(false);
+  const [declineReason, setDeclineReason] = useState("");
+
+  const fetchEstimate = async () => {
+    try {
+      const { data, error: invokeError } = await supabase.functions.invoke('estimate-response', {
+        body: { token },
+      });
+
+      if (invokeError) throw invokeError;
+      if (!data?.success) throw new Error(data?.error || "Estimate not found");
+
+      setEstimate(data.estimate);
+    } catch (fetchError) {
+      console.error('Failed to load estimate:', fetchError);
+      setError(fetchError.message || "Failed to load estimate");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    document.title = "Estimate - Smart Invoice";
+    fetchEstimate();
+  }, [token]);
+
+  const respond = async (action: 'accept' | 'decline') => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const { data, error: invokeError } = await supabase.functions.invoke('estimate-response', {
+        body: { token, action, signatureName, declineReason },
+      });
+
+      if (invokeError) throw invokeError;
+      if (!data?.success) throw new Error(data?.error || "Failed to record your response");
+
+      // Estimates that ask for a deposit go straight to checkout
+      if (data.checkoutUrl) {
+        window.location.href = data.checkoutUrl;
+        return;
+      }
+
+      await fetchEstimate();
+    } catch (respondError) {
+      console.error('Failed to respond to estimate:', respondError);
+      setError(respondError.message || "Failed to record your response");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100">
+        <p className="text-gray-600">Loading estimate...</p>
+      </div>
+    );
+  }
+
+  if (!estimate) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100">
+        <div className="text-center">
+          <FileText className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-xl text-gray-600">{error || "Estimate not found"}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const isOpen = (estimate.status === 'draft' || estimate.status === 'viewed') && !estimate.is_expired;
+  const subtotal = estimate.price - estimate.tax_amount;
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-8 px-4">
+      <Card className="max-w-2xl mx-auto">
+        <CardHeader>
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <CardTitle className="text-2xl">{estimate.title}</CardTitle>
+              <CardDescription className="mt-1">
+                {estimate.client_name ? `Prepared for ${estimate.client_name} · ` : ''}
+                Valid until {formatDate(estimate.expires_at)}
+              </CardDescription>
+            </div>
+            {estimate.status === 'accepted' && (
+              <Badge className="bg-green-100 text-green-800">Accepted</Badge>
+            )}
+            {estimate.status === 'declined' && (
+              <Badge className="bg-red-100 text-red-800">Declined</Badge>
+            )}
+            {estimate.is_expired && (
+              <Badge className="bg-gray-100 text-gray-800">Expired</Badge>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {estimate.description && (
+            <p className="text-gray-700 whitespace-pre-line">{estimate.description}</p>
+          )}
+
+          <div className="space-y-2">
+            {estimate.line_items.map((item, index) => (
+              <div key={index} className="flex justify-between text-sm">
+                <span>
+                  {item.description}
+                  <span className="text-gray-500 ml-1">({item.quantity} × ${item.unit_price.toFixed(2)})</span>
+                </span>
+                <span>${(item.quantity * item.unit_price).toFixed(2)}</span>
+              </div>
+            ))}
+            <div className="border-t pt-2 space-y-1">
+              {estimate.tax_amount > 0 && (
+                <>
+                  <div className="flex justify-between text-sm text-gray-600">
+                    <span>Subtotal</span>
+                    <span>${subtotal.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between text-sm text-gray-600">
+                    <span>Sales Tax</span>
+                    <span>${estimate.tax_amount.toFixed(2)}</span>
+                  </div>
+                </>
+              )}
+              <div className="flex justify-between text-lg font-bold">
+                <span>Total</span>
+                <span>${estimate.price.toFixed(2)}</span>
+              </div>
+            </div>
+          </div>
+
+          {estimate.scheduled_date && (
+            <p className="text-sm text-gray-600">
+              Proposed service date: {formatDate(estimate.scheduled_date)}
+            </p>
+          )}
+
+          {estimate.deposit_amount != null && isOpen && (
+            <p className="text-sm text-gray-600">
+              A ${estimate.deposit_amount.toFixed(2)} deposit is due when you accept this estimate.
+            </p>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          {estimate.status === 'accepted' && (
+            <div className="flex items-center gap-2 text-green-700">
+              <CheckCircle className="w-5 h-5" />
+              <span>
+                Accepted by {estimate.signature_name}
+                {estimate.responded_at && ` on ${new Date(estimate.responded_at).toLocaleDateString()}`}
+              </span>
+            </div>
+          )}
+
+          {estimate.status === 'declined' && (
+            <div className="flex items-center gap-2 text-red-700">
+              <XCircle className="w-5 h-5" />
+              <span>
+                This estimate was declined
+                {estimate.responded_at && ` on ${new Date(estimate.responded_at).toLocaleDateString()}`}
+              </span>
+            </div>
+          )}
+
+          {estimate.is_expired && (
+            <p className="text-sm text-gray-600">
+              This estimate has expired. Please contact us for an updated estimate.
+            </p>
+          )}
+
+          {isOpen && !declining && (
+            <div className="space-y-3 border-t pt-4">
+              <div>
+                <Label htmlFor="signature_name">Type your full name to accept</Label>
+                <Input
+                  id="signature_name"
+                  value={signatureName}
+                  onChange={(e) => setSignatureName(e.target.value)}
+                  placeholder="Full name"
+                  className="mt-1 font-serif italic"
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setDeclining(true)}
+                  disabled={submitting}
+                  className="flex-1"
+                >
+                  Decline
+                </Button>
+                <Button
+                  onClick={() => respond('accept')}
+                  disabled={submitting || signatureName.trim().length < 2}
+                  className="flex-1 bg-blue-600 hover:bg-blue-700"
+                >
+                  {submitting
+                    ? "Submitting..."
+                    : estimate.deposit_amount != null
+                      ? "Accept & Pay Deposit"
+                      : "Accept Estimate"}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {isOpen && declining && (
+            <div className="space-y-3 border-t pt-4">
+              <div>
+                <Label htmlFor="decline_reason">Reason (optional)</Label>
+                <Textarea
+                  id="decline_reason"
+                  value={declineReason}
+                  onChange={(e) => setDeclineReason(e.target.value)}
+                  rows={3}
+                  className="mt-1"
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setDeclining(false)}
+                  disabled={submitting}
+                  className="flex-1"
+                >
+                  Back
+                </Button>
+                <Button
+                  onClick={() => respond('decline')}
+                  disabled={submitting}
+                  className="flex-1 bg-red-600 hover:bg-red-700"
+                >
+                  {submitting ? "Submitting..." : "Decline Estimate"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default EstimateApproval;
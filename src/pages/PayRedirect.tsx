@@ -0,0 +1,57 @@
+import { useState, useEffect } from "react";
+import { Link, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { FileText, Loader2 } from "lucide-react";
+
+// Shareable payment link: sends the client to the job's live checkout session, creating a fresh
+// one when the previous session has expired, so links in texts and emails never go stale
+const PayRedirect = () => {
+  const { token } = useParams<{ token: string }>();
+  const [error, setError] = useState<string | null>(null);
+
+  const redirectToCheckout = async () => {
+    try {
+      const { data, error: invokeError } = await supabase.functions.invoke('public-invoice', {
+        body: { token, action: 'pay' },
+      });
+
+      if (invokeError) throw invokeError;
+      if (data?.success && data.paid_with_credit) {
+        window.location.replace(`/invoice/${token}`);
+        return;
+      }
+      if (!data?.success || !data.url) throw new Error(data?.error || "Failed to start payment");
+
+      window.location.replace(data.url);
+    } catch (redirectError) {
+      console.error('Failed to open checkout:', redirectError);
+      setError(redirectError.message || "Failed to start payment");
+    }
+  };
+
+  useEffect(() => {
+    document.title = "Pay Invoice - Smart Invoice";
+    redirectToCheckout();
+  }, [token]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 px-4">
+      {error ? (
+        <div className="text-center space-y-2">
+          <FileText className="w-12 h-12 text-gray-400 mx-auto" />
+          <p className="text-xl text-gray-600">{error}</p>
+          <Link to={`/invoice/${token}`} className="text-sm text-blue-600 underline">
+            View invoice
+          </Link>
+        </div>
+      ) : (
+        <div className="flex items-center text-gray-600">
+          <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+          Opening secure checkout...
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PayRedirect;
@@ -0,0 +1,42 @@
+import { useEffect } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { XCircle } from "lucide-react";
+
+// Public page Stripe Checkout returns customers to when they back out of paying
+const PaymentCancelled = () => {
+  const [searchParams] = useSearchParams();
+  const invoiceToken = searchParams.get('invoice');
+
+  useEffect(() => {
+    document.title = "Payment Cancelled - Smart Invoice";
+  }, []);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 px-4">
+      <Card className="max-w-md w-full text-center">
+        <CardHeader>
+          <XCircle className="w-12 h-12 text-gray-400 mx-auto" />
+          <CardTitle className="text-2xl">Payment Cancelled</CardTitle>
+          <CardDescription>
+            Your payment was not completed and your card has not been charged.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {invoiceToken ? (
+            <Button asChild className="w-full bg-blue-600 hover:bg-blue-700">
+              <Link to={`/invoice/${invoiceToken}`}>Return to Invoice</Link>
+            </Button>
+          ) : (
+            <p className="text-sm text-gray-500">
+              You can pay any time using the link you were sent.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default PaymentCancelled;
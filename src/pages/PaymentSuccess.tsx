@@ -0,0 +1,216 @@
+import { useState, useEffect } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { supabase } from "@/integrations/supabase/client";
+import { formatCurrency } from "@/utils/currency";
+import { CheckCircle, Clock, Download, FileText, Loader2, Printer } from "lucide-react";
+
+interface ConfirmedPayment {
+  amount: number;
+  currency: string;
+  paid_at: string | null;
+  job_title: string | null;
+  client_name: string | null;
+  job_status: string | null;
+  invoice_token: string | null;
+}
+
+interface PublicReceipt {
+  id: string;
+  receipt_html: string;
+  created_at: string;
+}
+
+interface PaymentBranding {
+  business_name: string | null;
+  logo_url: string | null;
+  brand_color: string;
+}
+
+// The Stripe webhook usually lands within a few seconds of the redirect
+const POLL_INTERVAL_MS = 3000;
+const MAX_POLLS = 10;
+
+// Public page Stripe Checkout returns customers to after a successful payment
+const PaymentSuccess = () => {
+  const [searchParams] = useSearchParams();
+  const sessionId = searchParams.get('session_id');
+  const [payment, setPayment] = useState<ConfirmedPayment | null>(null);
+  const [receipt, setReceipt] = useState<PublicReceipt | null>(null);
+  const [branding, setBranding] = useState<PaymentBranding | null>(null);
+  const [polls, setPolls] = useState(0);
+  const [bankProcessing, setBankProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchConfirmation = async () => {
+    try {
+      const { data, error: invokeError } = await supabase.functions.invoke('payment-confirmation', {
+        body: { sessionId },
+      });
+
+      if (invokeError) throw invokeError;
+      if (!data?.success) throw new Error(data?.error || "Failed to look up your payment");
+
+      setBankProcessing(data.status === 'bank_processing');
+
+      if (data.status === 'paid') {
+        setPayment(data.payment);
+        setReceipt(data.receipt);
+        setBranding(data.branding);
+      }
+    } catch (fetchError) {
+      console.error('Failed to confirm payment:', fetchError);
+      setError(fetchError.message || "Failed to look up your payment");
+    } finally {
+      setPolls(prev => prev + 1);
+    }
+  };
+
+  useEffect(() => {
+    document.title = "Payment Received - Smart Invoice";
+
+    if (!sessionId) {
+      setError("This page is missing its payment reference");
+      return;
+    }
+
+    fetchConfirmation();
+  }, [sessionId]);
+
+  // Keep checking until the payment is recorded and its receipt has been generated
+  useEffect(() => {
+    if (!sessionId || error || bankProcessing || polls === 0 || polls >= MAX_POLLS) return;
+    if (payment && receipt) return;
+
+    const timer = setTimeout(fetchConfirmation, POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [polls]);
+
+  const downloadReceipt = () => {
+    if (!receipt) return;
+
+    const blob = new Blob([receipt.receipt_html], { type: 'text/html' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `receipt-${receipt.id.slice(0, 8)}.html`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const printReceipt = () => {
+    if (!receipt) return;
+
+    const printWindow = window.open('', '_blank');
+    if (printWindow) {
+      printWindow.document.write(receipt.receipt_html);
+      printWindow.document.close();
+      printWindow.print();
+    }
+  };
+
+  const stillWaiting = !error && polls < MAX_POLLS;
+
+  if (!payment) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100 px-4">
+        <Card className="max-w-md w-full text-center">
+          <CardContent className="pt-6 space-y-4">
+            {error ? (
+              <>
+                <FileText className="w-12 h-12 text-gray-400 mx-auto" />
+                <p className="text-gray-600">{error}</p>
+              </>
+            ) : bankProcessing ? (
+              <>
+                <Clock className="w-12 h-12 text-blue-600 mx-auto" />
+                <p className="text-gray-700">
+                  Thank you! Your bank payment has been submitted. Bank payments take a few business days to clear, and your receipt will be sent to you once it does.
+                </p>
+              </>
+            ) : stillWaiting ? (
+              <>
+                <Loader2 className="w-10 h-10 text-blue-600 mx-auto animate-spin" />
+                <p className="text-gray-600">Confirming your payment...</p>
+              </>
+            ) : (
+              <>
+                <CheckCircle className="w-12 h-12 text-green-600 mx-auto" />
+                <p className="text-gray-700">
+                  Thank you! Your payment was submitted and is still being confirmed. Your receipt will be sent to you once it's processed.
+                </p>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-8 px-4">
+      <Card className="max-w-2xl mx-auto overflow-hidden">
+        <div className="h-2" style={{ backgroundColor: branding?.brand_color || '#16a34a' }} />
+        <CardHeader className="text-center">
+          {branding?.logo_url && (
+            <img
+              src={branding.logo_url}
+              alt={branding.business_name || "Company logo"}
+              className="h-12 w-12 object-contain rounded mx-auto mb-2"
+            />
+          )}
+          <CheckCircle className="w-12 h-12 text-green-600 mx-auto" />
+          <CardTitle className="text-2xl">Payment Received</CardTitle>
+          <CardDescription>
+            {formatCurrency(payment.amount, payment.currency)}
+            {payment.job_title ? ` for ${payment.job_title}` : ''}
+            {branding?.business_name ? ` · ${branding.business_name}` : ''}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {payment.job_status === 'partially_paid' && (
+            <p className="text-sm text-center text-orange-600">
+              A balance remains on this invoice.
+              {payment.invoice_token && (
+                <> <Link to={`/invoice/${payment.invoice_token}`} className="underline">View invoice</Link></>
+              )}
+            </p>
+          )}
+
+          {receipt ? (
+            <>
+              <div className="flex justify-center gap-2">
+                <Button variant="outline" size="sm" onClick={downloadReceipt}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Download Receipt
+                </Button>
+                <Button variant="outline" size="sm" onClick={printReceipt}>
+                  <Printer className="w-4 h-4 mr-2" />
+                  Print
+                </Button>
+              </div>
+              <div
+                className="border rounded-lg p-4 bg-white overflow-auto"
+                dangerouslySetInnerHTML={{ __html: receipt.receipt_html }}
+              />
+            </>
+          ) : stillWaiting ? (
+            <div className="flex items-center justify-center text-gray-500 text-sm">
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              Preparing your receipt...
+            </div>
+          ) : (
+            <p className="text-sm text-center text-gray-500">
+              Your receipt isn't ready yet. Refresh this page in a minute to download it.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default PaymentSuccess;
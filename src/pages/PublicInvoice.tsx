@@ -0,0 +1,447 @@
+import { useState, useEffect } from "react";
+import { useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { supabase } from "@/integrations/supabase/client";
+import { formatCurrency } from "@/utils/currency";
+import { CheckCircle, Clock, CreditCard, FileText, Landmark, Mail, Phone, Globe } from "lucide-react";
+
+interface PublicInvoiceData {
+  invoice_number: string | null;
+  title: string;
+  description: string | null;
+  client_name: string | null;
+  scheduled_date: string | null;
+  due_date: string | null;
+  status: string;
+  price: number;
+  tax_amount: number;
+  late_fee_amount: number;
+  discount_amount: number;
+  amount_paid: number;
+  balance: number;
+  can_pay: boolean;
+  bank_payment_available: boolean;
+  tips_enabled: boolean;
+  deposit_amount: number | null;
+  can_apply_discount: boolean;
+  currency: string;
+  line_items: {
+    description: string;
+    quantity: number;
+    unit_price: number;
+  }[];
+  discounts: {
+    label: string;
+    amount: number;
+  }[];
+  late_fees: {
+    amount: number;
+    applied_at: string;
+  }[];
+  payments: {
+    paid_at: string | null;
+    method: string;
+    amount: number;
+  }[];
+}
+
+interface CompanyBranding {
+  business_name: string | null;
+  logo_url: string | null;
+  brand_color: string;
+  contact_email: string | null;
+  contact_phone: string | null;
+  website: string | null;
+}
+
+// Tip presets offered on the balance, as percentages
+const TIP_PERCENTAGES = [10, 15, 20];
+
+// Date-only columns are stored as YYYY-MM-DD; parse them as local dates so they don't shift a day
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+// Public page where a client reviews an invoice and pays it; checkout links are created on demand
+const PublicInvoice = () => {
+  const { token } = useParams<{ token: string }>();
+  const [invoice, setInvoice] = useState<PublicInvoiceData | null>(null);
+  const [branding, setBranding] = useState<CompanyBranding | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [paying, setPaying] = useState(false);
+  const [tipChoice, setTipChoice] = useState<string>('none');
+  const [customTip, setCustomTip] = useState("");
+  const [discountCode, setDiscountCode] = useState("");
+  const [applyingCode, setApplyingCode] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchInvoice = async () => {
+    try {
+      const { data, error: invokeError } = await supabase.functions.invoke('public-invoice', {
+        body: { token },
+      });
+
+      if (invokeError) throw invokeError;
+      if (!data?.success) throw new Error(data?.error || "Invoice not found");
+
+      setInvoice(data.invoice);
+      setBranding(data.branding);
+    } catch (fetchError) {
+      console.error('Failed to load invoice:', fetchError);
+      setError(fetchError.message || "Failed to load invoice");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchInvoice();
+  }, [token]);
+
+  useEffect(() => {
+    document.title = branding?.business_name
+      ? `Invoice - ${branding.business_name}`
+      : "Invoice - Smart Invoice";
+  }, [branding]);
+
+  // Tips go on top of the balance; deposits are paid without one
+  const pay = async (paymentType: 'deposit' | 'balance', paymentMethod?: 'us_bank_account', tip?: number) => {
+    setPaying(true);
+    setError(null);
+    try {
+      const { data, error: invokeError } = await supabase.functions.invoke('public-invoice', {
+        body: { token, action: 'pay', paymentType, paymentMethod, tip: tip || undefined },
+      });
+
+      if (invokeError) throw invokeError;
+      if (data?.success && data.paid_with_credit) {
+        // Account credit covered the balance, so there's nothing to pay; show the updated invoice
+        setPaying(false);
+        await fetchInvoice();
+        return;
+      }
+      if (!data?.success || !data.url) throw new Error(data?.error || "Failed to start payment");
+
+      window.location.href = data.url;
+    } catch (payError) {
+      console.error('Failed to start payment:', payError);
+      setError(payError.message || "Failed to start payment");
+      setPaying(false);
+    }
+  };
+
+  // Redeeming a code reprices the invoice, so it is reloaded to show the discount and new total
+  const applyDiscountCode = async () => {
+    setApplyingCode(true);
+    setError(null);
+    try {
+      const { data, error: invokeError } = await supabase.functions.invoke('public-invoice', {
+        body: { token, action: 'apply_discount', code: discountCode },
+      });
+
+      if (invokeError) throw invokeError;
+      if (!data?.success) throw new Error(data?.error || "Failed to apply discount code");
+
+      setDiscountCode("");
+      await fetchInvoice();
+    } catch (applyError) {
+      console.error('Failed to apply discount code:', applyError);
+      setError(applyError.message || "Failed to apply discount code");
+    } finally {
+      setApplyingCode(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100">
+        <p className="text-gray-600">Loading invoice...</p>
+      </div>
+    );
+  }
+
+  if (!invoice) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100">
+        <div className="text-center">
+          <FileText className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-xl text-gray-600">{error || "Invoice not found"}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const brandColor = branding?.brand_color || '#2563eb';
+  const lateFeeTotal = invoice.late_fee_amount;
+  // Line items before discounts, tax and late fees
+  const subtotal = invoice.price - invoice.tax_amount - lateFeeTotal + invoice.discount_amount;
+  const isPaid = invoice.balance <= 0 || invoice.status === 'paid';
+  const todayString = new Date().toISOString().split('T')[0];
+  const isOverdue = !isPaid && invoice.due_date != null && invoice.due_date < todayString;
+  const tipAmount = !invoice.tips_enabled || tipChoice === 'none'
+    ? 0
+    : tipChoice === 'custom'
+      ? Math.max(Math.round((parseFloat(customTip) || 0) * 100) / 100, 0)
+      : Math.round(invoice.balance * Number(tipChoice)) / 100;
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-8 px-4">
+      <Card className="max-w-2xl mx-auto overflow-hidden">
+        <div className="h-2" style={{ backgroundColor: brandColor }} />
+        <CardHeader>
+          {branding && (
+            <div className="flex items-center gap-3 mb-4">
+              {branding.logo_url && (
+                <img
+                  src={branding.logo_url}
+                  alt={branding.business_name || "Company logo"}
+                  className="h-12 w-12 object-contain rounded"
+                />
+              )}
+              <div className="min-w-0">
+                {branding.business_name && (
+                  <p className="font-semibold text-lg" style={{ color: brandColor }}>
+                    {branding.business_name}
+                  </p>
+                )}
+                <div className="flex flex-wrap gap-x-3 text-xs text-gray-500">
+                  {branding.contact_phone && (
+                    <span className="flex items-center gap-1">
+                      <Phone className="w-3 h-3" />
+                      {branding.contact_phone}
+                    </span>
+                  )}
+                  {branding.contact_email && (
+                    <a href={`mailto:${branding.contact_email}`} className="flex items-center gap-1 hover:underline">
+                      <Mail className="w-3 h-3" />
+                      {branding.contact_email}
+                    </a>
+                  )}
+                  {branding.website && (
+                    <a href={branding.website} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 hover:underline">
+                      <Globe className="w-3 h-3" />
+                      {branding.website.replace(/^https?:\/\//, '')}
+                    </a>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <CardTitle className="text-2xl">{invoice.title}</CardTitle>
+              <CardDescription className="mt-1">
+                {invoice.invoice_number ? `Invoice ${invoice.invoice_number}` : 'Invoice'}
+                {invoice.client_name ? ` · Billed to ${invoice.client_name}` : ''}
+              </CardDescription>
+            </div>
+            {isPaid && (
+              <Badge className="bg-green-100 text-green-800">Paid</Badge>
+            )}
+            {isOverdue && (
+              <Badge className="bg-red-100 text-red-800">Overdue</Badge>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-x-4 text-sm text-gray-600 mt-2">
+            {invoice.scheduled_date && <span>Service date: {formatDate(invoice.scheduled_date)}</span>}
+            {invoice.due_date && <span>Due: {formatDate(invoice.due_date)}</span>}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {invoice.description && (
+            <p className="text-gray-700 whitespace-pre-line">{invoice.description}</p>
+          )}
+
+          <div className="space-y-2">
+            {invoice.line_items.length > 0 ? (
+              invoice.line_items.map((item, index) => (
+                <div key={index} className="flex justify-between text-sm">
+                  <span>
+                    {item.description}
+                    <span className="text-gray-500 ml-1">({item.quantity} × {formatCurrency(item.unit_price, invoice.currency)})</span>
+                  </span>
+                  <span>{formatCurrency(item.quantity * item.unit_price, invoice.currency)}</span>
+                </div>
+              ))
+            ) : (
+              <div className="flex justify-between text-sm">
+                <span>{invoice.title}</span>
+                <span>{formatCurrency(subtotal, invoice.currency)}</span>
+              </div>
+            )}
+            {invoice.late_fees.map((fee, index) => (
+              <div key={`late-fee-${index}`} className="flex justify-between text-sm text-red-700">
+                <span>Late fee ({new Date(fee.applied_at).toLocaleDateString()})</span>
+                <span>{formatCurrency(fee.amount, invoice.currency)}</span>
+              </div>
+            ))}
+            <div className="border-t pt-2 space-y-1">
+              {(invoice.tax_amount > 0 || lateFeeTotal > 0 || invoice.discounts.length > 0) && (
+                <div className="flex justify-between text-sm text-gray-600">
+                  <span>Subtotal</span>
+                  <span>{formatCurrency(subtotal, invoice.currency)}</span>
+                </div>
+              )}
+              {invoice.discounts.map((discount, index) => (
+                <div key={`discount-${index}`} className="flex justify-between text-sm text-green-700">
+                  <span>{discount.label}</span>
+                  <span>-{formatCurrency(discount.amount, invoice.currency)}</span>
+                </div>
+              ))}
+              {invoice.tax_amount > 0 && (
+                <div className="flex justify-between text-sm text-gray-600">
+                  <span>Sales Tax</span>
+                  <span>{formatCurrency(invoice.tax_amount, invoice.currency)}</span>
+                </div>
+              )}
+              {lateFeeTotal > 0 && (
+                <div className="flex justify-between text-sm text-gray-600">
+                  <span>Late Fees</span>
+                  <span>{formatCurrency(lateFeeTotal, invoice.currency)}</span>
+                </div>
+              )}
+              <div className="flex justify-between text-lg font-bold">
+                <span>Total</span>
+                <span>{formatCurrency(invoice.price, invoice.currency)}</span>
+              </div>
+            </div>
+          </div>
+
+          {invoice.payments.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="font-semibold text-gray-900">Payment History</h3>
+              {invoice.payments.map((payment, index) => (
+                <div key={index} className="flex justify-between text-sm text-gray-600">
+                  <span>
+                    {payment.paid_at ? new Date(payment.paid_at).toLocaleDateString() : 'Pending'} · {payment.method}
+                  </span>
+                  <span>-{formatCurrency(payment.amount, invoice.currency)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between font-semibold border-t pt-2">
+                <span>Balance Due</span>
+                <span>{formatCurrency(invoice.balance, invoice.currency)}</span>
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          {isPaid ? (
+            <div className="flex items-center gap-2 text-green-700">
+              <CheckCircle className="w-5 h-5" />
+              <span>This invoice has been paid in full. Thank you!</span>
+            </div>
+          ) : invoice.status === 'processing' ? (
+            <div className="flex items-center gap-2 text-blue-700">
+              <Clock className="w-5 h-5" />
+              <span>Your bank payment is processing. This usually takes a few business days.</span>
+            </div>
+          ) : invoice.can_pay && (
+            <div className="space-y-3 border-t pt-4">
+              {invoice.can_apply_discount && (
+                <div className="space-y-2">
+                  <span className="text-sm font-medium text-gray-900">Have a discount code?</span>
+                  <div className="flex gap-2 max-w-sm">
+                    <Input
+                      value={discountCode}
+                      onChange={(e) => setDiscountCode(e.target.value.toUpperCase())}
+                      placeholder="Discount code"
+                      className="font-mono"
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={applyDiscountCode}
+                      disabled={applyingCode || paying || !discountCode.trim()}
+                    >
+                      {applyingCode ? "Applying..." : "Apply"}
+                    </Button>
+                  </div>
+                </div>
+              )}
+              {invoice.tips_enabled && (
+                <div className="space-y-2">
+                  <span className="text-sm font-medium text-gray-900">Add a tip for your crew</span>
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      size="sm"
+                      variant={tipChoice === 'none' ? 'default' : 'outline'}
+                      onClick={() => setTipChoice('none')}
+                    >
+                      No tip
+                    </Button>
+                    {TIP_PERCENTAGES.map(percentage => (
+                      <Button
+                        key={percentage}
+                        size="sm"
+                        variant={tipChoice === String(percentage) ? 'default' : 'outline'}
+                        onClick={() => setTipChoice(String(percentage))}
+                      >
+                        {percentage}% ({formatCurrency(Math.round(invoice.balance * percentage) / 100, invoice.currency)})
+                      </Button>
+                    ))}
+                    <Button
+                      size="sm"
+                      variant={tipChoice === 'custom' ? 'default' : 'outline'}
+                      onClick={() => setTipChoice('custom')}
+                    >
+                      Custom
+                    </Button>
+                  </div>
+                  {tipChoice === 'custom' && (
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={customTip}
+                      onChange={(e) => setCustomTip(e.target.value)}
+                      placeholder={`Tip amount (${invoice.currency.toUpperCase()})`}
+                      className="max-w-[200px]"
+                    />
+                  )}
+                </div>
+              )}
+              <div className="flex flex-col sm:flex-row gap-2">
+                {invoice.deposit_amount != null && (
+                  <Button
+                    variant="outline"
+                    onClick={() => pay('deposit')}
+                    disabled={paying}
+                    className="flex-1"
+                  >
+                    Pay {formatCurrency(invoice.deposit_amount, invoice.currency)} Deposit
+                  </Button>
+                )}
+                <Button
+                  onClick={() => pay('balance', undefined, tipAmount)}
+                  disabled={paying}
+                  className="flex-1 text-white hover:opacity-90"
+                  style={{ backgroundColor: brandColor }}
+                >
+                  <CreditCard className="w-4 h-4 mr-2" />
+                  {paying ? "Redirecting..." : `Pay Now ${formatCurrency(invoice.balance + tipAmount, invoice.currency)}`}
+                </Button>
+                {invoice.bank_payment_available && (
+                  <Button
+                    variant="outline"
+                    onClick={() => pay('balance', 'us_bank_account', tipAmount)}
+                    disabled={paying}
+                    className="flex-1"
+                  >
+                    <Landmark className="w-4 h-4 mr-2" />
+                    Pay by Bank (lower fee)
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default PublicInvoice;
@@ -0,0 +1,15 @@
+// Currencies companies and clients can bill in, as the lowercase ISO 4217 codes Stripe uses
+export const CURRENCIES = [
+  { code: 'usd', label: 'US Dollar (USD)' },
+  { code: 'cad', label: 'Canadian Dollar (CAD)' },
+];
+
+export const DEFAULT_CURRENCY = 'usd';
+
+// Formats a dollar (not cent) amount in the given currency for the viewer's locale,
+// e.g. $12.50 or CA$12.50 for a US viewer
+export const formatCurrency = (amount: number, currency: string | null | undefined = DEFAULT_CURRENCY): string =>
+  new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency: (currency || DEFAULT_CURRENCY).toUpperCase(),
+  }).format(amount);
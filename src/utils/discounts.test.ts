@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { DiscountDraft, discountAmounts, discountedLineItemsTax } from "./discounts";
+import { LineItemDraft, TaxRate, emptyLineItem, lineItemsTotal } from "./lineItems";
+
+const percentage = (value: number): DiscountDraft => ({ label: `${value}% off`, discount_type: 'percentage', value });
+const fixed = (value: number): DiscountDraft => ({ label: `${value} off`, discount_type: 'fixed', value });
+
+const item = (overrides: Partial<LineItemDraft>): LineItemDraft => ({
+  ...emptyLineItem(),
+  description: "Window cleaning",
+  ...overrides,
+});
+
+const taxRates: TaxRate[] = [
+  { id: 'city', name: 'City', percentage: 8.25, jurisdiction: 'Austin', is_default: true },
+];
+
+describe("discountAmounts", () => {
+  it("takes every percentage off the full subtotal, not off what earlier discounts left", () => {
+    expect(discountAmounts(200, [percentage(10), percentage(10)])).toEqual([20, 20]);
+  });
+
+  it("applies discounts in order, so a later one only gets what is left", () => {
+    expect(discountAmounts(200, [percentage(50), fixed(150)])).toEqual([100, 100]);
+    expect(discountAmounts(200, [fixed(300), percentage(10)])).toEqual([200, 0]);
+  });
+
+  it("rounds percentage discounts to cents like reprice_job", () => {
+    // 15% of $33.33 is $4.9995
+    expect(discountAmounts(33.33, [percentage(15)])).toEqual([5]);
+    // 12.5% of $10.01 is $1.25125
+    expect(discountAmounts(10.01, [percentage(12.5)])).toEqual([1.25]);
+  });
+
+  it("returns nothing when the job has no discounts", () => {
+    expect(discountAmounts(200, [])).toEqual([]);
+  });
+});
+
+describe("discountedLineItemsTax", () => {
+  const items = [
+    item({ quantity: "2", unit_price: "40", taxable: true }),
+    item({ quantity: "1", unit_price: "20" }),
+  ];
+  const subtotal = lineItemsTotal(items);
+
+  it("shrinks each taxed line by the share discounts take off the subtotal", () => {
+    // A $25 discount leaves 75% of the $100 subtotal, so the $80 taxed line is taxed on $60
+    expect(discountedLineItemsTax(items, 'city', taxRates, subtotal, 25)).toBe(4.95);
+  });
+
+  it("is the plain line item tax when nothing is discounted", () => {
+    expect(discountedLineItemsTax(items, 'city', taxRates, subtotal, 0)).toBe(6.6);
+  });
+
+  it("charges no tax once discounts cover the subtotal", () => {
+    expect(discountedLineItemsTax(items, 'city', taxRates, subtotal, subtotal)).toBe(0);
+  });
+
+  it("adds up to the job price create-checkout charges, in cents", () => {
+    const discounts = [percentage(10), fixed(5)];
+    const discountTotal = discountAmounts(subtotal, discounts).reduce((sum, amount) => sum + amount, 0);
+    const tax = discountedLineItemsTax(items, 'city', taxRates, subtotal, discountTotal);
+    // $100 less $15 is $85; the $80 taxed line keeps 85% of its $6.60 tax
+    expect(tax).toBe(5.61);
+    expect(Math.round((subtotal - discountTotal + tax) * 100)).toBe(9061);
+  });
+});
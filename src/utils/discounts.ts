@@ -0,0 +1,38 @@
+import { LineItemDraft, TaxRate, lineItemAmount, lineItemTaxRate } from "./lineItems";
+
+export interface DiscountDraft {
+  label: string;
+  discount_type: 'percentage' | 'fixed';
+  value: number;
+}
+
+// Mirrors reprice_job in the database, which sets the saved amounts: percentages come off the line
+// items subtotal, the client discount before a code, and no discount takes the subtotal below zero
+export const discountAmounts = (subtotal: number, discounts: DiscountDraft[]): number[] => {
+  let remaining = subtotal;
+  return discounts.map(discount => {
+    const amount = Math.min(
+      discount.discount_type === 'percentage'
+        ? Math.round(subtotal * discount.value) / 100
+        : discount.value,
+      remaining
+    );
+    remaining = Math.round((remaining - amount) * 100) / 100;
+    return amount;
+  });
+};
+
+// Tax on what is left after discounts; each line's tax shrinks by the share taken off the subtotal
+export const discountedLineItemsTax = (
+  items: LineItemDraft[],
+  jobTaxRateId: string | null,
+  taxRates: TaxRate[],
+  subtotal: number,
+  discountTotal: number
+): number => {
+  const factor = subtotal > 0 ? (subtotal - discountTotal) / subtotal : 1;
+  return Math.round(items.reduce((sum, item) => {
+    const rate = lineItemTaxRate(item, jobTaxRateId, taxRates);
+    return sum + (rate ? Math.round(lineItemAmount(item) * rate.percentage * factor) / 100 : 0);
+  }, 0) * 100) / 100;
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from "vitest";
+import { FeeSettings, FeeTier, calculatePlatformFee, feePreview } from "./fees";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const cardTier = (min_amount: number, percentage: number, fixed_amount: number, max_fee: number | null = null): FeeTier => ({
+  payment_method: 'card',
+  min_amount,
+  percentage,
+  fixed_amount,
+  max_fee,
+});
+
+// Smaller charges pay a higher rate; large ones are capped
+const tiers = [
+  cardTier(0, 3.5, 30),
+  cardTier(10000, 2.9, 30),
+  cardTier(100000, 2.5, 0, 2000),
+];
+
+const settings = (overrides: Partial<FeeSettings> = {}): FeeSettings => ({
+  companyHasSettings: true,
+  scheduleName: 'Standard',
+  tiers,
+  bankTiers: [],
+  absorbFees: false,
+  excludeTipsFromFee: false,
+  ...overrides,
+});
+
+describe("calculatePlatformFee", () => {
+  it("uses the highest tier the amount reaches", () => {
+    expect(calculatePlatformFee(5000, tiers)).toBe(205);
+    expect(calculatePlatformFee(9999, tiers)).toBe(380);
+    expect(calculatePlatformFee(10000, tiers)).toBe(320);
+  });
+
+  it("doesn't depend on the order tiers are listed in", () => {
+    expect(calculatePlatformFee(25000, [...tiers].reverse())).toBe(calculatePlatformFee(25000, tiers));
+  });
+
+  it("rounds the percentage to whole cents before adding the fixed fee, like create-checkout", () => {
+    // 2.9% of $123.45 is 358.005 cents
+    expect(calculatePlatformFee(12345, tiers)).toBe(388);
+    // 3.5% of $0.99 is 3.465 cents
+    expect(calculatePlatformFee(99, tiers)).toBe(33);
+  });
+
+  it("caps the fee at the tier's max_fee", () => {
+    expect(calculatePlatformFee(100000, tiers)).toBe(2000);
+    expect(calculatePlatformFee(500000, tiers)).toBe(2000);
+  });
+
+  it("charges nothing when no tier covers the amount", () => {
+    expect(calculatePlatformFee(5000, [cardTier(10000, 2.9, 30)])).toBe(0);
+    expect(calculatePlatformFee(5000, [])).toBe(0);
+  });
+
+  it("accepts percentages that come back from the database as strings", () => {
+    const stored = { ...cardTier(0, 0, 30), percentage: "2.9" as unknown as number };
+    expect(calculatePlatformFee(10000, [stored])).toBe(320);
+  });
+});
+
+describe("feePreview", () => {
+  it("adds the fee to what the client pays by default", () => {
+    expect(feePreview(10000, settings())).toEqual({
+      platformFee: 320,
+      clientPays: 10320,
+      companyNets: 10000,
+    });
+  });
+
+  it("takes the fee out of the company's share when fees are absorbed", () => {
+    expect(feePreview(10000, settings({ absorbFees: true }))).toEqual({
+      platformFee: 320,
+      clientPays: 10000,
+      companyNets: 9680,
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface FeeTier {
+  payment_method: string;
+  min_amount: number;
+  percentage: number;
+  fixed_amount: number;
+  max_fee: number | null;
+}
+
+export interface FeeSettings {
+  companyHasSettings: boolean;
+  scheduleName: string | null;
+  tiers: FeeTier[];
+  // Bank debit (ACH) tiers; empty when the schedule only prices cards
+  bankTiers: FeeTier[];
+  absorbFees: boolean;
+  excludeTipsFromFee: boolean;
+}
+
+// Mirrors calculatePlatformFee in the create-checkout edge function
+export const calculatePlatformFee = (amountInCents: number, tiers: FeeTier[]): number => {
+  const tier = [...tiers]
+    .sort((a, b) => b.min_amount - a.min_amount)
+    .find(candidate => amountInCents >= candidate.min_amount);
+
+  if (!tier) return 0;
+
+  const fee = Math.round(amountInCents * (Number(tier.percentage) / 100)) + tier.fixed_amount;
+  return tier.max_fee != null ? Math.min(fee, tier.max_fee) : fee;
+};
+
+// The company's negotiated fee schedule, falling back to the default one
+export const fetchFeeSettings = async (companyId: string): Promise<FeeSettings> => {
+  const { data: settings, error: settingsError } = await supabase
+    .from('company_fee_settings')
+    .select('fee_schedule_id, absorb_fees, exclude_tips_from_fee')
+    .eq('company_id', companyId)
+    .maybeSingle();
+
+  if (settingsError) throw settingsError;
+
+  const scheduleQuery = supabase
+    .from('fee_schedules')
+    .select('name, fee_schedule_tiers(payment_method, min_amount, percentage, fixed_amount, max_fee)');
+
+  const { data: schedule, error: scheduleError } = await (settings?.fee_schedule_id
+    ? scheduleQuery.eq('id', settings.fee_schedule_id)
+    : scheduleQuery.eq('is_default', true)
+  ).maybeSingle();
+
+  if (scheduleError) throw scheduleError;
+
+  const scheduleTiers = schedule?.fee_schedule_tiers ?? [];
+
+  return {
+    companyHasSettings: !!settings,
+    scheduleName: schedule?.name ?? null,
+    tiers: scheduleTiers.filter(tier => tier.payment_method === 'card'),
+    bankTiers: scheduleTiers.filter(tier => tier.payment_method === 'us_bank_account'),
+    absorbFees: settings?.absorb_fees ?? false,
+    excludeTipsFromFee: settings?.exclude_tips_from_fee ?? false,
+  };
+};
+
+// What the client pays and what the company keeps for a charge, in cents
+export const feePreview = (amountInCents: number, feeSettings: FeeSettings) => {
+  const platformFee = calculatePlatformFee(amountInCents, feeSettings.tiers);
+  return {
+    platformFee,
+    clientPays: feeSettings.absorbFees ? amountInCents : amountInCents + platformFee,
+    companyNets: feeSettings.absorbFees ? amountInCents - platformFee : amountInCents,
+  };
+};
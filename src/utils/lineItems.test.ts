@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+  LineItemDraft,
+  TaxRate,
+  completeLineItems,
+  emptyLineItem,
+  lineItemAmount,
+  lineItemTax,
+  lineItemTaxRate,
+  lineItemsTax,
+  lineItemsTotal,
+} from "./lineItems";
+
+const item = (overrides: Partial<LineItemDraft>): LineItemDraft => ({
+  ...emptyLineItem(),
+  description: "Lawn mowing",
+  ...overrides,
+});
+
+const taxRates: TaxRate[] = [
+  { id: 'state', name: 'State', percentage: 6.25, jurisdiction: 'TX', is_default: true },
+  { id: 'city', name: 'City', percentage: 8.25, jurisdiction: 'Austin', is_default: false },
+];
+
+describe("lineItemAmount", () => {
+  it("rounds quantity times unit price to cents, like ROUND(quantity * unit_price, 2) in reprice_job", () => {
+    expect(lineItemAmount(item({ quantity: "3", unit_price: "33.333" }))).toBe(100);
+    expect(lineItemAmount(item({ quantity: "1.5", unit_price: "45" }))).toBe(67.5);
+    expect(lineItemAmount(item({ quantity: "3", unit_price: "0.1" }))).toBe(0.3);
+  });
+
+  it("treats blank or invalid fields as zero", () => {
+    expect(lineItemAmount(item({ quantity: "", unit_price: "20" }))).toBe(0);
+    expect(lineItemAmount(item({ quantity: "2", unit_price: "abc" }))).toBe(0);
+  });
+});
+
+describe("lineItemsTotal", () => {
+  it("adds the rounded line amounts without floating point drift", () => {
+    const items = [
+      item({ quantity: "1", unit_price: "0.1" }),
+      item({ quantity: "1", unit_price: "0.2" }),
+      item({ quantity: "3", unit_price: "33.333" }),
+    ];
+    expect(lineItemsTotal(items)).toBe(100.3);
+  });
+});
+
+describe("lineItemTaxRate", () => {
+  it("uses the line's own rate over the job's", () => {
+    expect(lineItemTaxRate(item({ taxable: true, tax_rate_id: 'city' }), 'state', taxRates)?.id).toBe('city');
+    expect(lineItemTaxRate(item({ taxable: true }), 'state', taxRates)?.id).toBe('state');
+  });
+
+  it("returns null for untaxed lines and unknown rates", () => {
+    expect(lineItemTaxRate(item({ tax_rate_id: 'city' }), 'state', taxRates)).toBeNull();
+    expect(lineItemTaxRate(item({ taxable: true }), null, taxRates)).toBeNull();
+    expect(lineItemTaxRate(item({ taxable: true }), 'missing', taxRates)).toBeNull();
+  });
+});
+
+describe("lineItemTax", () => {
+  it("rounds each line's tax to cents", () => {
+    // 8.25% of $19.99 is $1.649175
+    expect(lineItemTax(item({ quantity: "1", unit_price: "19.99", taxable: true }), 'city', taxRates)).toBe(1.65);
+  });
+
+  it("charges nothing on untaxed lines", () => {
+    expect(lineItemTax(item({ quantity: "1", unit_price: "19.99" }), 'city', taxRates)).toBe(0);
+  });
+});
+
+describe("lineItemsTax", () => {
+  it("sums the per-line rounded tax, as the saved tax_amount column does", () => {
+    const items = [
+      item({ quantity: "1", unit_price: "19.99", taxable: true }),
+      item({ quantity: "2", unit_price: "10.01", taxable: true, tax_rate_id: 'state' }),
+      item({ quantity: "1", unit_price: "50" }),
+    ];
+    // $1.65 city tax plus 6.25% of $20.02, $1.25125
+    expect(lineItemsTax(items, 'city', taxRates)).toBe(2.9);
+  });
+});
+
+describe("completeLineItems", () => {
+  it("drops rows without a description or a positive amount", () => {
+    const items = [
+      item({ quantity: "1", unit_price: "20" }),
+      item({ description: "  ", quantity: "1", unit_price: "20" }),
+      item({ quantity: "1", unit_price: "" }),
+      item({ quantity: "0", unit_price: "20" }),
+    ];
+    expect(completeLineItems(items)).toEqual([items[0]]);
+  });
+});
@@ -0,0 +1,56 @@
+export interface LineItemDraft {
+  description: string;
+  quantity: string;
+  unit_price: string;
+  taxable: boolean;
+  // Overrides the job's tax rate for this line; null uses the job's rate
+  tax_rate_id: string | null;
+}
+
+export interface TaxRate {
+  id: string;
+  name: string;
+  percentage: number;
+  jurisdiction: string | null;
+  is_default: boolean;
+}
+
+export const emptyLineItem = (): LineItemDraft => ({
+  description: "",
+  quantity: "1",
+  unit_price: "",
+  taxable: false,
+  tax_rate_id: null,
+});
+
+export const lineItemAmount = (item: LineItemDraft): number => {
+  const quantity = parseFloat(item.quantity) || 0;
+  const unitPrice = parseFloat(item.unit_price) || 0;
+  return Math.round(quantity * unitPrice * 100) / 100;
+};
+
+export const lineItemsTotal = (items: LineItemDraft[]): number =>
+  Math.round(items.reduce((sum, item) => sum + lineItemAmount(item), 0) * 100) / 100;
+
+// Rate applied to a line, or null when the line isn't taxed
+export const lineItemTaxRate = (
+  item: LineItemDraft,
+  jobTaxRateId: string | null,
+  taxRates: TaxRate[]
+): TaxRate | null => {
+  if (!item.taxable) return null;
+  const rateId = item.tax_rate_id ?? jobTaxRateId;
+  return taxRates.find(rate => rate.id === rateId) ?? null;
+};
+
+export const lineItemTax = (item: LineItemDraft, jobTaxRateId: string | null, taxRates: TaxRate[]): number => {
+  const rate = lineItemTaxRate(item, jobTaxRateId, taxRates);
+  return rate ? Math.round(lineItemAmount(item) * rate.percentage) / 100 : 0;
+};
+
+export const lineItemsTax = (items: LineItemDraft[], jobTaxRateId: string | null, taxRates: TaxRate[]): number =>
+  Math.round(items.reduce((sum, item) => sum + lineItemTax(item, jobTaxRateId, taxRates), 0) * 100) / 100;
+
+// Line items with a description and a positive amount; blank rows are ignored
+export const completeLineItems = (items: LineItemDraft[]): LineItemDraft[] =>
+  items.filter(item => item.description.trim() && lineItemAmount(item) > 0);
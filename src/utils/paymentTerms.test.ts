@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { addDays, daysOverdue, formatPaymentTerms, isJobOverdue } from "./paymentTerms";
+
+describe("formatPaymentTerms", () => {
+  it("describes zero days as due on receipt", () => {
+    expect(formatPaymentTerms(0)).toBe("Due on receipt");
+    expect(formatPaymentTerms(30)).toBe("Net 30");
+  });
+});
+
+describe("addDays", () => {
+  it("rolls over months and years", () => {
+    expect(addDays("2025-01-25", 7)).toBe("2025-02-01");
+    expect(addDays("2025-12-20", 15)).toBe("2026-01-04");
+  });
+
+  it("handles leap years", () => {
+    expect(addDays("2024-02-28", 1)).toBe("2024-02-29");
+    expect(addDays("2025-02-28", 1)).toBe("2025-03-01");
+  });
+
+  it("returns the same date for due-on-receipt terms", () => {
+    expect(addDays("2025-07-18", 0)).toBe("2025-07-18");
+  });
+});
+
+describe("daysOverdue", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2025, 6, 18, 15, 30));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("counts whole days past the due date", () => {
+    expect(daysOverdue("2025-07-17")).toBe(1);
+    expect(daysOverdue("2025-06-18")).toBe(30);
+  });
+
+  it("is zero on or before the due date, or without one", () => {
+    expect(daysOverdue("2025-07-18")).toBe(0);
+    expect(daysOverdue("2025-08-01")).toBe(0);
+    expect(daysOverdue(null)).toBe(0);
+  });
+
+  it("only counts unpaid jobs as overdue", () => {
+    expect(isJobOverdue({ status: 'pending', due_date: "2025-07-01" })).toBe(true);
+    expect(isJobOverdue({ status: 'partially_paid', due_date: "2025-07-01" })).toBe(true);
+    expect(isJobOverdue({ status: 'paid', due_date: "2025-07-01" })).toBe(false);
+    expect(isJobOverdue({ status: 'pending', due_date: "2025-07-18" })).toBe(false);
+    expect(isJobOverdue({ status: null, due_date: "2025-07-01" })).toBe(false);
+  });
+});
@@ -0,0 +1,30 @@
+// Payment terms are stored as a number of days after the job/invoice date; 0 means due on receipt
+export const PAYMENT_TERM_PRESETS = [0, 7, 15, 30];
+
+export const DEFAULT_PAYMENT_TERMS_DAYS = 0;
+
+export const formatPaymentTerms = (days: number): string =>
+  days === 0 ? "Due on receipt" : `Net ${days}`;
+
+// Adds days to a YYYY-MM-DD date without going through UTC, so the result never shifts a day
+export const addDays = (date: string, days: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const result = new Date(year, month - 1, day + days);
+  return `${result.getFullYear()}-${String(result.getMonth() + 1).padStart(2, '0')}-${String(result.getDate()).padStart(2, '0')}`;
+};
+
+// Whole days past the due date, or 0 when not yet due
+export const daysOverdue = (dueDate: string | null): number => {
+  if (!dueDate) return 0;
+  const [year, month, day] = dueDate.split('-').map(Number);
+  const due = new Date(year, month - 1, day);
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return Math.max(Math.round((today.getTime() - due.getTime()) / (24 * 60 * 60 * 1000)), 0);
+};
+
+// Jobs still owing money; only these can be overdue
+export const UNPAID_JOB_STATUSES = ['pending', 'partially_paid'];
+
+export const isJobOverdue = (job: { status: string | null; due_date: string | null }): boolean =>
+  UNPAID_JOB_STATUSES.includes(job.status ?? '') && daysOverdue(job.due_date) > 0;
@@ -0,0 +1,70 @@
+export interface ReminderStep {
+  id: string;
+  days_from_due: number;
+  send_sms: boolean;
+  send_email: boolean;
+  sms_template: string;
+  email_subject: string;
+  email_template: string;
+  active: boolean;
+}
+
+export type ReminderStepDraft = Omit<ReminderStep, 'id'>;
+
+// Placeholders filled in by the send-payment-reminders function. {amount_due} includes the currency
+// symbol for the job's currency
+export const REMINDER_PLACEHOLDERS = [
+  '{client_name}',
+  '{job_title}',
+  '{amount_due}',
+  '{due_date}',
+  '{days_overdue}',
+  '{payment_link}',
+];
+
+// 3 days before the due date, on the due date, then 7 and 14 days late
+export const DEFAULT_REMINDER_STEPS: ReminderStepDraft[] = [
+  {
+    days_from_due: -3,
+    send_sms: true,
+    send_email: true,
+    sms_template: 'Hi {client_name}, a friendly reminder that {amount_due} for "{job_title}" is due on {due_date}. Pay here: {payment_link}',
+    email_subject: 'Upcoming payment for {job_title}',
+    email_template: 'Hi {client_name},\n\nThis is a friendly reminder that {amount_due} for "{job_title}" is due on {due_date}.\n\nYou can pay online here: {payment_link}\n\nThank you!',
+    active: true,
+  },
+  {
+    days_from_due: 0,
+    send_sms: true,
+    send_email: true,
+    sms_template: 'Hi {client_name}, {amount_due} for "{job_title}" is due today. Pay here: {payment_link}',
+    email_subject: 'Payment due today for {job_title}',
+    email_template: 'Hi {client_name},\n\nYour payment of {amount_due} for "{job_title}" is due today.\n\nYou can pay online here: {payment_link}\n\nThank you!',
+    active: true,
+  },
+  {
+    days_from_due: 7,
+    send_sms: true,
+    send_email: true,
+    sms_template: 'Hi {client_name}, {amount_due} for "{job_title}" is now {days_overdue} days overdue. Please pay here: {payment_link}',
+    email_subject: 'Overdue payment for {job_title}',
+    email_template: 'Hi {client_name},\n\nOur records show {amount_due} for "{job_title}" was due on {due_date} and is now {days_overdue} days overdue.\n\nPlease pay online here: {payment_link}\n\nIf you have already paid, please disregard this message.',
+    active: true,
+  },
+  {
+    days_from_due: 14,
+    send_sms: true,
+    send_email: true,
+    sms_template: 'Hi {client_name}, {amount_due} for "{job_title}" is {days_overdue} days overdue. Please pay as soon as possible: {payment_link}',
+    email_subject: 'Final reminder: payment for {job_title} is {days_overdue} days overdue',
+    email_template: 'Hi {client_name},\n\n{amount_due} for "{job_title}" was due on {due_date} and is now {days_overdue} days overdue.\n\nPlease pay as soon as possible here: {payment_link}\n\nIf you have already paid, please disregard this message.',
+    active: true,
+  },
+];
+
+export const formatReminderTiming = (daysFromDue: number): string => {
+  if (daysFromDue === 0) return 'On the due date';
+  const days = Math.abs(daysFromDue);
+  const unit = days === 1 ? 'day' : 'days';
+  return daysFromDue < 0 ? `${days} ${unit} before due` : `${days} ${unit} after due`;
+};
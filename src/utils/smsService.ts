@@ -1,5 +1,6 @@
 
 import { supabase } from "@/integrations/supabase/client";
+import { formatCurrency } from "@/utils/currency";
 
 export interface SMSRequest {
   phoneNumber: string;
@@ -35,6 +36,6 @@ export const sendSMSNotification = async ({ phoneNumber, message, jobId }: SMSRe
   }
 };
 
-export const formatPaymentLinkSMS = (paymentUrl: string, jobTitle: string, clientName: string, amount: number): string => {
-  return `Hi ${clientName}! Your payment link for "${jobTitle}" ($${amount.toFixed(2)}) is ready: ${paymentUrl}`;
+export const formatPaymentLinkSMS = (paymentUrl: string, jobTitle: string, clientName: string, amount: number, currency?: string | null): string => {
+  return `Hi ${clientName}! Your payment link for "${jobTitle}" (${formatCurrency(amount, currency)}) is ready: ${paymentUrl}`;
 };
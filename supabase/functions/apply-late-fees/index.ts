@@ -0,0 +1,207 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import Stripe from 'https://esm.sh/stripe@14.21.0'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Monthly late fees repeat every 30 days past the grace period
+const LATE_FEE_PERIOD_DAYS = 30
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / (24 * 60 * 60 * 1000))
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Create Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    // Payment links send clients back to the app, so regenerated links need its URL
+    const siteUrl = Deno.env.get('SITE_URL')
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY')
+    const stripe = stripeSecretKey ? new Stripe(stripeSecretKey, { apiVersion: '2023-10-16' }) : null
+
+    const today = new Date().toISOString().split('T')[0]
+
+    console.log(`Applying late fees for date: ${today}`)
+
+    const { data: companies, error: companiesError } = await supabase
+      .from('company_billing_settings')
+      .select('company_id, late_fee_type, late_fee_value, late_fee_grace_days, late_fee_frequency, late_fee_cap')
+      .eq('late_fee_enabled', true)
+      .gt('late_fee_value', 0)
+
+    if (companiesError) {
+      throw companiesError
+    }
+
+    let appliedFees = 0
+    let regeneratedLinks = 0
+
+    for (const rule of companies || []) {
+      const { data: jobs, error: jobsError } = await supabase
+        .from('jobs')
+        .select(`
+          id,
+          price,
+          due_date,
+          late_fee_amount,
+          payment_url,
+          payment_url_expires_at,
+          stripe_session_id,
+          stripe_session_account_id,
+          payments (
+            amount,
+            base_amount,
+            refunded_base_amount,
+            payment_status
+          ),
+          job_late_fees (
+            period
+          )
+        `)
+        .eq('company_id', rule.company_id)
+        .in('status', ['pending', 'partially_paid'])
+        .lt('due_date', today)
+
+      if (jobsError) {
+        throw jobsError
+      }
+
+      for (const job of jobs || []) {
+        const daysLate = daysBetween(job.due_date, today) - rule.late_fee_grace_days
+        if (daysLate <= 0) {
+          continue
+        }
+
+        const period = rule.late_fee_frequency === 'monthly'
+          ? Math.floor((daysLate - 1) / LATE_FEE_PERIOD_DAYS) + 1
+          : 1
+        if ((job.job_late_fees || []).some(fee => fee.period === period)) {
+          continue
+        }
+
+        const paidInCents = (job.payments || [])
+          .filter(p => p.payment_status === 'paid' || p.payment_status === 'partially_refunded')
+          .reduce((sum, p) => sum + Math.max((p.base_amount ?? p.amount) - (p.refunded_base_amount || 0), 0), 0)
+        const balance = Number(job.price) - paidInCents / 100
+        if (balance <= 0) {
+          continue
+        }
+
+        // Percentage fees are charged on what's still owed, not on earlier late fees
+        const existingLateFees = Number(job.late_fee_amount) || 0
+        let amount = rule.late_fee_type === 'percentage'
+          ? Math.round(Math.max(balance - existingLateFees, 0) * Number(rule.late_fee_value)) / 100
+          : Number(rule.late_fee_value)
+
+        if (rule.late_fee_cap != null) {
+          amount = Math.min(amount, Number(rule.late_fee_cap) - existingLateFees)
+        }
+        amount = Math.round(amount * 100) / 100
+
+        if (amount <= 0) {
+          continue
+        }
+
+        const { data: updatedJob, error: applyError } = await supabase
+          .rpc('apply_job_late_fee', { target_job_id: job.id, fee_period: period, fee_amount: amount })
+
+        if (applyError) {
+          throw applyError
+        }
+
+        if (!updatedJob) {
+          continue
+        }
+
+        console.log(`Applied $${amount.toFixed(2)} late fee (period ${period}) to job ${job.id}`)
+        appliedFees++
+
+        // A link that was already shared would still charge the old total; expired ones are
+        // replaced when the client next opens them, so there's nothing to regenerate
+        if (!job.payment_url || (job.payment_url_expires_at && job.payment_url_expires_at <= new Date().toISOString())) {
+          continue
+        }
+
+        let regenerated = false
+        if (siteUrl) {
+          const { data: checkout, error: checkoutError } = await supabase.functions.invoke('create-checkout', {
+            body: { jobId: job.id },
+            headers: { origin: siteUrl },
+          })
+
+          if (checkoutError || !checkout?.success) {
+            console.error(`Failed to regenerate payment link for job ${job.id}:`, checkoutError || checkout?.error)
+          } else {
+            regenerated = true
+            regeneratedLinks++
+          }
+        } else {
+          console.warn('SITE_URL not configured, cannot regenerate payment links')
+        }
+
+        // create-checkout expires the session it replaces; without a replacement the old one is expired here
+        if (!regenerated) {
+          if (stripe && job.stripe_session_id) {
+            try {
+              await stripe.checkout.sessions.expire(
+                job.stripe_session_id,
+                {},
+                job.stripe_session_account_id ? { stripeAccount: job.stripe_session_account_id } : undefined
+              )
+            } catch (expireError) {
+              console.log(`Could not expire checkout session for job ${job.id}:`, expireError.message)
+            }
+          }
+
+          const { error: clearError } = await supabase
+            .from('jobs')
+            .update({
+              payment_url: null,
+              stripe_checkout_url: null,
+              stripe_session_id: null,
+              stripe_session_account_id: null,
+              payment_url_expires_at: null,
+            })
+            .eq('id', job.id)
+
+          if (clearError) {
+            console.error(`Failed to clear stale payment link for job ${job.id}:`, clearError)
+          }
+        }
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        message: `Applied ${appliedFees} late fees, regenerated ${regeneratedLinks} payment links`,
+        appliedFees,
+        regeneratedLinks
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    )
+
+  } catch (error) {
+    console.error('Error applying late fees:', error)
+
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500
+      }
+    )
+  }
+})
@@ -10,31 +10,319 @@ const corsHeaders = {
   "Access-Control-Max-Age": "86400",
 };
 
-// Platform account ID to avoid self-transfer
-const PLATFORM_STRIPE_ACCOUNT_ID = "acct_1RWAfbLgPKVoUe8t";
-
-// Updated tiered platform fee calculation
-const calculatePlatformFee = (amountInCents) => {
-  const amountInDollars = amountInCents / 100;
-  
-  if (amountInDollars < 100) {
-    // Under $100: 4.9% + $0.30
-    return Math.round(amountInCents * 0.049) + 30;
+// Platform account ID to avoid self-transfer; looked up from the API key when not configured
+const PLATFORM_STRIPE_ACCOUNT_ID = Deno.env.get("PLATFORM_STRIPE_ACCOUNT_ID");
+
+// The looked-up platform account is kept for the life of the worker, so only its first checkout pays
+// for the extra API call
+let cachedPlatformAccountId: string | null = PLATFORM_STRIPE_ACCOUNT_ID ?? null;
+
+// Returns null when the lookup fails, leaving the connected account check to decide the routing
+const resolvePlatformAccountId = async (stripe: Stripe) => {
+  if (cachedPlatformAccountId) {
+    return cachedPlatformAccountId;
   }
-  if (amountInDollars < 500) {
-    // $100–$499: 3.9% + $0.30
-    return Math.round(amountInCents * 0.039) + 30;
+
+  try {
+    cachedPlatformAccountId = (await stripe.accounts.retrieve()).id;
+  } catch (accountError) {
+    console.error("Error looking up the platform Stripe account:", accountError);
   }
-  if (amountInDollars < 1000) {
-    // $500–$999: 2.9% + $0.30
-    return Math.round(amountInCents * 0.029) + 30;
+
+  return cachedPlatformAccountId;
+};
+
+// Amounts in messages shown to the client use the locale that goes with the job's currency
+const CURRENCY_LOCALES: Record<string, string> = {
+  usd: 'en-US',
+  cad: 'en-CA',
+};
+
+const formatMoney = (amount: number, currency: string) =>
+  new Intl.NumberFormat(CURRENCY_LOCALES[currency] ?? 'en-US', {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+  }).format(amount);
+
+interface FeeTier {
+  min_amount: number;
+  percentage: number;
+  fixed_amount: number;
+  max_fee: number | null;
+  payment_method: 'card' | 'us_bank_account';
+}
+
+// Checkout payment methods a charge can be collected with
+const PAYMENT_METHODS = ['card', 'us_bank_account'];
+
+// Platform fee from the tier covering the amount: percentage plus fixed cents, capped at max_fee
+const calculatePlatformFee = (amountInCents: number, tiers: FeeTier[]) => {
+  const tier = [...tiers]
+    .sort((a, b) => b.min_amount - a.min_amount)
+    .find((candidate) => amountInCents >= candidate.min_amount);
+
+  if (!tier) return 0;
+
+  const fee = Math.round(amountInCents * (Number(tier.percentage) / 100)) + tier.fixed_amount;
+  return tier.max_fee != null ? Math.min(fee, tier.max_fee) : fee;
+};
+
+// The company's negotiated schedule, falling back to the default one. Tiers are picked for the
+// payment method, using the card tiers when the schedule has none for it
+const fetchFeeSettings = async (supabaseAdmin, companyId: string | null, paymentMethod: string) => {
+  let feeScheduleId = null;
+  let absorbFees = false;
+  let excludeTipsFromFee = false;
+
+  if (companyId) {
+    const { data: settings, error: settingsError } = await supabaseAdmin
+      .from('company_fee_settings')
+      .select('fee_schedule_id, absorb_fees, exclude_tips_from_fee')
+      .eq('company_id', companyId)
+      .maybeSingle();
+
+    if (settingsError) {
+      console.error("Error fetching company fee settings:", settingsError);
+    }
+
+    feeScheduleId = settings?.fee_schedule_id ?? null;
+    absorbFees = settings?.absorb_fees ?? false;
+    excludeTipsFromFee = settings?.exclude_tips_from_fee ?? false;
   }
-  if (amountInDollars < 2500) {
-    // $1,000–$2,499: 1.9% + $0.30
-    return Math.round(amountInCents * 0.019) + 30;
+
+  let scheduleQuery = supabaseAdmin
+    .from('fee_schedules')
+    .select('id, name, fee_schedule_tiers(min_amount, percentage, fixed_amount, max_fee, payment_method)');
+
+  scheduleQuery = feeScheduleId
+    ? scheduleQuery.eq('id', feeScheduleId)
+    : scheduleQuery.eq('is_default', true);
+
+  const { data: schedule, error: scheduleError } = await scheduleQuery.maybeSingle();
+
+  if (scheduleError) {
+    console.error("Error fetching fee schedule:", scheduleError);
   }
-  // $2,500+: 1.5% flat (no fixed fee)
-  return Math.round(amountInCents * 0.015);
+
+  const allTiers = (schedule?.fee_schedule_tiers ?? []) as FeeTier[];
+  const methodTiers = allTiers.filter((tier) => tier.payment_method === paymentMethod);
+
+  return {
+    schedule: schedule ? { id: schedule.id, name: schedule.name } : null,
+    tiers: methodTiers.length > 0 ? methodTiers : allTiers.filter((tier) => tier.payment_method === 'card'),
+    absorbFees,
+    excludeTipsFromFee,
+  };
+};
+
+// Credit can be spent by the service role (the invoice page and autopay) or by a member of the job's
+// company; anyone else calling with just a job id can't touch the client's credit
+const callerCanApplyCredit = async (supabaseAdmin, token: string | undefined, companyId: string | null) => {
+  if (!token || !companyId) {
+    return false;
+  }
+
+  if (token === Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) {
+    return true;
+  }
+
+  const { data: { user } } = await supabaseAdmin.auth.getUser(token);
+  if (!user) {
+    return false;
+  }
+
+  const { data: profile } = await supabaseAdmin
+    .from('profiles')
+    .select('company_id')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  return profile?.company_id === companyId;
+};
+
+// Credit the client can put toward the job, in cents: their balance plus whatever is held for the job's
+// current checkout, which is released when that checkout is replaced
+const availableClientCredit = async (supabaseAdmin, job, currency: string) => {
+  const [{ data: balance, error: balanceError }, { data: held, error: heldError }] = await Promise.all([
+    supabaseAdmin.rpc('client_credit_balance', {
+      target_client_id: job.client_id,
+      target_company_id: job.company_id,
+      target_currency: currency,
+    }),
+    supabaseAdmin
+      .from('payments')
+      .select('amount')
+      .eq('job_id', job.id)
+      .eq('payment_method', 'credit')
+      .eq('payment_status', 'pending'),
+  ]);
+
+  if (balanceError || heldError) {
+    console.error("Error fetching client credit:", balanceError || heldError);
+    return 0;
+  }
+
+  return Math.max((balance || 0) + (held || []).reduce((sum, payment) => sum + payment.amount, 0), 0);
+};
+
+// Holds credit toward a checkout as a pending credit payment; the webhook settles it once the Stripe
+// payment goes through, and it is released if the charge fails or the session expires
+const reserveClientCredit = async (supabaseAdmin, jobId: string, amountInCents: number) => {
+  const { data: payment, error: reserveError } = await supabaseAdmin
+    .rpc('reserve_client_credit', { target_job_id: jobId, credit_amount: amountInCents });
+
+  if (reserveError) {
+    console.error("Error holding client credit:", reserveError);
+    return null;
+  }
+
+  return payment?.id ? payment : null;
+};
+
+const releaseClientCredit = async (supabaseAdmin, paymentId: string) => {
+  const { error: releaseError } = await supabaseAdmin
+    .from('payments')
+    .update({ payment_status: 'failed' })
+    .eq('id', paymentId)
+    .eq('payment_method', 'credit')
+    .eq('payment_status', 'pending');
+
+  if (releaseError) {
+    console.error("Error releasing held client credit:", releaseError);
+  }
+};
+
+// Pays the job's whole balance from the client's account credit and sends a receipt for the credit
+// payment; returns the payment row, or null when the credit doesn't cover the balance
+const applyClientCredit = async (supabaseAdmin, jobId: string) => {
+  const { data: payment, error: creditError } = await supabaseAdmin
+    .rpc('apply_client_credit', { target_job_id: jobId });
+
+  if (creditError) {
+    console.error("Error applying client credit:", creditError);
+    return null;
+  }
+
+  if (!payment?.id) {
+    return null;
+  }
+
+  console.log("Applied client credit to job:", jobId, payment.amount);
+
+  try {
+    const receiptResponse = await fetch(
+      `${Deno.env.get("SUPABASE_URL")}/functions/v1/generate-receipt`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+        },
+        body: JSON.stringify({
+          jobId,
+          paymentId: payment.id,
+          amountPaid: payment.amount,
+          paymentDate: payment.paid_at,
+          paymentMethod: 'credit',
+        })
+      }
+    );
+
+    if (!receiptResponse.ok) {
+      console.error("Failed to generate credit receipt:", await receiptResponse.text());
+    }
+  } catch (receiptError) {
+    console.error("Error triggering credit receipt:", receiptError);
+  }
+
+  return payment;
+};
+
+// Job discounts reach Checkout as a one-off coupon so they show as their own line. Coupons live on
+// the account that processes the charge, like customers
+const createDiscountCoupon = async (
+  stripe: Stripe,
+  discounts: { label: string }[],
+  amountInCents: number,
+  currency: string,
+  stripeAccount: string | null
+) => {
+  const coupon = await stripe.coupons.create(
+    {
+      amount_off: amountInCents,
+      currency,
+      duration: 'once',
+      max_redemptions: 1,
+      name: discounts.map((discount) => discount.label).join(' + ').slice(0, 40),
+    },
+    stripeAccount ? { stripeAccount } : undefined
+  );
+
+  return coupon.id;
+};
+
+// A replaced session stays payable on Stripe until it expires, so it is closed as soon as it's superseded.
+// Sessions that were already paid or expired can't be, which is fine
+const expireCheckoutSession = async (stripe: Stripe, sessionId: string, stripeAccount: string | null) => {
+  try {
+    await stripe.checkout.sessions.expire(sessionId, {}, stripeAccount ? { stripeAccount } : undefined);
+    console.log("Expired superseded checkout session:", sessionId);
+  } catch (expireError) {
+    console.log("Could not expire superseded checkout session:", sessionId, expireError.message);
+  }
+};
+
+// The client's Stripe Customer on the account that processes the charge, created on first use
+const ensureStripeCustomer = async (
+  stripe: Stripe,
+  supabaseAdmin,
+  clientId: string,
+  stripeAccount: string | null
+) => {
+  const { data: client, error: clientError } = await supabaseAdmin
+    .from('clients')
+    .select('id, name, email, phone, company_id, stripe_customer_id, stripe_account_id')
+    .eq('id', clientId)
+    .single();
+
+  if (clientError || !client) {
+    console.error("Error fetching client for Stripe customer:", clientError);
+    return null;
+  }
+
+  if (client.stripe_customer_id && client.stripe_account_id === stripeAccount) {
+    return client.stripe_customer_id;
+  }
+
+  const customer = await stripe.customers.create(
+    {
+      name: client.name,
+      email: client.email || undefined,
+      phone: client.phone || undefined,
+      metadata: { client_id: client.id, company_id: client.company_id },
+    },
+    stripeAccount ? { stripeAccount } : undefined
+  );
+
+  // Customers can't move between Stripe accounts, so a card saved on the old one no longer applies
+  const { error: updateError } = await supabaseAdmin
+    .from('clients')
+    .update({
+      stripe_customer_id: customer.id,
+      stripe_account_id: stripeAccount,
+      stripe_payment_method_id: null,
+      card_brand: null,
+      card_last4: null,
+      autopay_enabled: false,
+    })
+    .eq('id', client.id);
+
+  if (updateError) {
+    console.error("Error saving Stripe customer on client:", updateError);
+  }
+
+  console.log("Created Stripe customer for client:", client.id, customer.id);
+  return customer.id;
 };
 
 serve(async (req) => {
@@ -89,8 +377,14 @@ serve(async (req) => {
       );
     }
 
-    const { jobId } = requestBody;
-    console.log("Received job ID:", jobId);
+    // deposit is optional: { type: 'fixed' | 'percentage', value: number }
+    // offSession charges the client's saved card for the balance instead of creating a Checkout session;
+    // attemptId names the charge attempt, so Stripe collapses repeats of the same attempt
+    // paymentMethod is 'card' (default) or 'us_bank_account' where the company allows bank payments
+    // tip is an optional gratuity in dollars added on top of the job price
+    // applyCredit puts the client's account credit toward a full, untipped payment of the balance
+    const { jobId, deposit, offSession, attemptId, paymentMethod = 'card', tip, applyCredit } = requestBody;
+    console.log("Received job ID:", jobId, deposit ? `with deposit request: ${JSON.stringify(deposit)}` : "");
 
     if (!jobId) {
       console.error("Job ID is required but not provided");
@@ -106,6 +400,22 @@ serve(async (req) => {
       );
     }
 
+    // Charging a saved card needs no one present, so only process-recurring-jobs may ask for it
+    const callerToken = req.headers.get("Authorization")?.replace("Bearer ", "");
+    if (offSession && callerToken !== Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) {
+      console.error("Off-session charge requested without the service role key for job:", jobId);
+      return new Response(
+        JSON.stringify({ 
+          success: false,
+          error: "Not authorized to charge a saved card" 
+        }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 403,
+        }
+      );
+    }
+
     // Initialize Supabase client with service role key
     const supabaseAdmin = createClient(
       Deno.env.get("SUPABASE_URL") ?? "",
@@ -150,14 +460,89 @@ serve(async (req) => {
 
     console.log("Job details fetched:", { id: job.id, job_name: job.job_name, price: job.price, company_id: job.company_id });
 
+    // A bank payment that hasn't cleared yet isn't counted as paid, so don't let it be paid twice
+    if (job.status === 'processing') {
+      console.error("Job has a payment still processing:", jobId);
+      return new Response(
+        JSON.stringify({ 
+          success: false,
+          error: "A bank payment for this job is still processing" 
+        }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 200,
+        }
+      );
+    }
+
+    if (!PAYMENT_METHODS.includes(paymentMethod) || (paymentMethod === 'us_bank_account' && offSession)) {
+      console.error("Unsupported payment method:", paymentMethod);
+      return new Response(
+        JSON.stringify({ 
+          success: false,
+          error: "Unsupported payment method" 
+        }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 200,
+        }
+      );
+    }
+
+    const tipInCents = tip ? Math.round(parseFloat(tip) * 100) : 0;
+    if (isNaN(tipInCents) || tipInCents < 0 || (tipInCents > 0 && offSession)) {
+      console.error("Invalid tip:", tip);
+      return new Response(
+        JSON.stringify({ 
+          success: false,
+          error: "Invalid tip amount" 
+        }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 200,
+        }
+      );
+    }
+
+    // Jobs are charged in the currency they were priced in
+    const currency = job.currency || 'usd';
+
+    if (paymentMethod === 'us_bank_account') {
+      const { data: billingSettings } = await supabaseAdmin
+        .from('company_billing_settings')
+        .select('bank_payments_enabled, bank_payment_min_amount')
+        .eq('company_id', job.company_id)
+        .maybeSingle();
+
+      // ACH debits are only available in US dollars
+      const bankAllowed = currency === 'usd' && billingSettings?.bank_payments_enabled && (
+        job.allow_bank_payment ||
+        (billingSettings.bank_payment_min_amount != null && parseFloat(job.price) >= Number(billingSettings.bank_payment_min_amount))
+      );
+
+      if (!bankAllowed) {
+        console.error("Bank payments are not enabled for job:", jobId);
+        return new Response(
+          JSON.stringify({ 
+            success: false,
+            error: "Bank payments aren't available for this job" 
+          }),
+          {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+            status: 200,
+          }
+        );
+      }
+    }
+
     // Safe price handling
-    let basePriceInCents;
+    let jobPriceInCents;
     try {
       const jobPrice = parseFloat(job.price);
       if (isNaN(jobPrice) || jobPrice <= 0) {
         throw new Error("Invalid price value");
       }
-      basePriceInCents = Math.round(jobPrice * 100);
+      jobPriceInCents = Math.round(jobPrice * 100);
     } catch (priceError) {
       console.error("Invalid job price:", job.price, priceError);
       return new Response(
@@ -172,15 +557,175 @@ serve(async (req) => {
       );
     }
 
-    // Calculate updated tiered platform fee
-    const platformFee = calculatePlatformFee(basePriceInCents);
-    const totalPriceInCents = basePriceInCents + platformFee;
+    // Only charge what is still owed after earlier deposits and partial payments
+    const { data: existingPayments, error: paymentsError } = await supabaseAdmin
+      .from('payments')
+      .select('amount, base_amount, refunded_base_amount')
+      .eq('job_id', jobId)
+      .in('payment_status', ['paid', 'partially_refunded']);
+
+    if (paymentsError) {
+      console.error("Error fetching existing payments:", paymentsError);
+    }
+
+    const amountPaidInCents = (existingPayments || []).reduce(
+      (sum, payment) => sum + Math.max((payment.base_amount ?? payment.amount) - (payment.refunded_base_amount || 0), 0),
+      0
+    );
+    const balanceInCents = jobPriceInCents - amountPaidInCents;
+
+    if (balanceInCents <= 0) {
+      console.error("Job already paid in full:", jobId);
+      return new Response(
+        JSON.stringify({ 
+          success: false,
+          error: "This job has already been paid in full" 
+        }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 200,
+        }
+      );
+    }
+
+    let basePriceInCents = balanceInCents;
+    let paymentType = amountPaidInCents > 0 ? 'balance' : 'full';
+
+    if (deposit) {
+      const depositValue = parseFloat(deposit.value);
+      const depositInCents = deposit.type === 'percentage'
+        ? Math.round(jobPriceInCents * (depositValue / 100))
+        : Math.round(depositValue * 100);
+
+      if (isNaN(depositInCents) || depositInCents <= 0 || depositInCents >= balanceInCents) {
+        console.error("Invalid deposit amount:", deposit, depositInCents);
+        return new Response(
+          JSON.stringify({ 
+            success: false,
+            error: `Deposit must be more than ${formatMoney(0, currency)} and less than the ${formatMoney(balanceInCents / 100, currency)} balance` 
+          }),
+          {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+            status: 200,
+          }
+        );
+      }
+
+      basePriceInCents = depositInCents;
+      paymentType = 'deposit';
+    }
+
+    // Account credit only goes toward a full payment of the balance, so a deposit, a tipped checkout or a
+    // regenerated link never spends it
+    const creditAllowed = Boolean(applyCredit) && !deposit && tipInCents === 0 && Boolean(job.client_id) &&
+      await callerCanApplyCredit(supabaseAdmin, callerToken, job.company_id);
+    const creditInCents = creditAllowed
+      ? Math.min(await availableClientCredit(supabaseAdmin, job, currency), balanceInCents)
+      : 0;
+
+    if (creditInCents > 0 && creditInCents >= balanceInCents) {
+      const creditPayment = await applyClientCredit(supabaseAdmin, jobId);
+      if (!creditPayment) {
+        console.error("Client credit no longer covers the balance:", jobId);
+        return new Response(
+          JSON.stringify({ 
+            success: false,
+            error: "The client's account credit changed, please try again" 
+          }),
+          {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+            status: 200,
+          }
+        );
+      }
+
+      console.log("Job paid in full with account credit:", jobId);
+      return new Response(
+        JSON.stringify({ 
+          success: true,
+          paidWithCredit: true,
+          creditApplied: creditPayment.amount / 100,
+        }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 200,
+        }
+      );
+    }
+
+    // The rest is charged as a balance; the credit is held just before the charge goes out
+    if (creditInCents > 0) {
+      basePriceInCents = balanceInCents - creditInCents;
+      paymentType = 'balance';
+    }
+
+    // The job price includes sales tax; each payment carries its proportional share of it
+    const jobTaxInCents = Math.round((parseFloat(job.tax_amount) || 0) * 100);
+    const taxInCents = Math.round(basePriceInCents * jobTaxInCents / jobPriceInCents);
+
+    // Late fees are part of the job price but shown on their own line when paying the rest of the job
+    const jobLateFeeInCents = Math.round((parseFloat(job.late_fee_amount) || 0) * 100);
+    const lateFeeInCents = paymentType === 'deposit'
+      ? 0
+      : Math.min(jobLateFeeInCents, basePriceInCents - taxInCents);
+
+    console.log(`Job price: ${jobPriceInCents} cents, already paid: ${amountPaidInCents} cents, charging ${paymentType}: ${basePriceInCents} cents (${taxInCents} cents tax, ${lateFeeInCents} cents late fees)`);
+
+    const feeSettings = await fetchFeeSettings(supabaseAdmin, job.company_id, paymentMethod);
+    if (!feeSettings.schedule) {
+      console.error("No fee schedule configured for company:", job.company_id);
+      return new Response(
+        JSON.stringify({ 
+          success: false,
+          error: "No platform fee schedule is configured" 
+        }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 200,
+        }
+      );
+    }
+
+    if (tipInCents > basePriceInCents) {
+      console.error("Tip exceeds the amount being paid:", tipInCents, basePriceInCents);
+      return new Response(
+        JSON.stringify({ 
+          success: false,
+          error: "Tip can't be more than the amount being paid" 
+        }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 200,
+        }
+      );
+    }
+
+    // Calculate the tiered platform fee; companies that absorb it pay it out of the base price
+    const feeableAmountInCents = basePriceInCents + (feeSettings.excludeTipsFromFee ? 0 : tipInCents);
+    const platformFee = calculatePlatformFee(feeableAmountInCents, feeSettings.tiers);
+    const customerFee = feeSettings.absorbFees ? 0 : platformFee;
+    const totalPriceInCents = basePriceInCents + tipInCents + customerFee;
     
-    console.log(`Updated Tiered Fee Pricing:
+    console.log(`Tiered Fee Pricing (${feeSettings.schedule.name} schedule):
       - Base price (to connected account): ${basePriceInCents} cents ($${basePriceInCents/100})
-      - Platform fee (updated tiers): ${platformFee} cents ($${platformFee/100})
+      - Tip: ${tipInCents} cents${feeSettings.excludeTipsFromFee ? ' (excluded from fee)' : ''}
+      - Platform fee: ${platformFee} cents ($${platformFee/100})${feeSettings.absorbFees ? ' (absorbed by company)' : ''}
       - Total customer pays: ${totalPriceInCents} cents ($${totalPriceInCents/100})
-      - Fee percentage: ${((platformFee / basePriceInCents) * 100).toFixed(2)}%`);
+      - Fee percentage: ${((platformFee / feeableAmountInCents) * 100).toFixed(2)}%`);
+
+    if (feeSettings.absorbFees && platformFee >= basePriceInCents + tipInCents) {
+      console.error("Absorbed platform fee exceeds the charge:", platformFee, basePriceInCents);
+      return new Response(
+        JSON.stringify({ 
+          success: false,
+          error: "Job price too low to cover the platform fee" 
+        }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 200,
+        }
+      );
+    }
 
     if (totalPriceInCents < 50) {
       console.error("Total price too low for Stripe (minimum $0.50):", totalPriceInCents);
@@ -221,8 +766,10 @@ serve(async (req) => {
         connectedStripeAccountId = companyProfile.stripe_account_id;
         console.log("Found company Stripe account:", connectedStripeAccountId);
         
+        const platformStripeAccountId = await resolvePlatformAccountId(stripe);
+
         // Check if company account is different from platform account
-        if (connectedStripeAccountId !== PLATFORM_STRIPE_ACCOUNT_ID) {
+        if (connectedStripeAccountId !== platformStripeAccountId) {
           // Verify the connected account can accept charges
           try {
             const account = await stripe.accounts.retrieve(connectedStripeAccountId);
@@ -252,30 +799,179 @@ serve(async (req) => {
     console.log("Creating Stripe checkout session with updated tiered fee model");
 
     // Create checkout session configuration
-    const sessionConfig = {
-      payment_method_types: ['card'],
-      line_items: [
-        {
-          price_data: {
-            currency: 'usd',
-            product_data: {
-              name: job.job_name || 'Service',
-              description: `Service for ${job.client_name || 'Client'}`,
-            },
-            unit_amount: totalPriceInCents, // Customer pays base + updated tiered fee
+    // Every charge is billed against an invoice number; jobs without one get their own invoice
+    const { data: invoice, error: invoiceError } = await supabaseAdmin
+      .rpc('ensure_job_invoice', { target_job_id: jobId });
+
+    if (invoiceError) {
+      console.error("Error assigning invoice to job:", invoiceError);
+    }
+
+    const invoiceNumber = invoice?.invoice_number ?? null;
+    console.log("Billing job under invoice:", invoiceNumber);
+
+    // Sales tax is always shown as its own line
+    const taxLineItem = {
+      price_data: {
+        currency,
+        product_data: {
+          name: 'Sales Tax',
+        },
+        unit_amount: taxInCents,
+      },
+      quantity: 1,
+    };
+
+    const lateFeeLineItem = {
+      price_data: {
+        currency,
+        product_data: {
+          name: 'Late Fee',
+        },
+        unit_amount: lateFeeInCents,
+      },
+      quantity: 1,
+    };
+
+    const tipLineItem = {
+      price_data: {
+        currency,
+        product_data: {
+          name: 'Tip',
+        },
+        unit_amount: tipInCents,
+      },
+      quantity: 1,
+    };
+
+    // Single line item covering the whole charge, used for deposits, balances and unitemized jobs
+    let checkoutLineItems = [
+      {
+        price_data: {
+          currency,
+          product_data: {
+            name: paymentType === 'deposit'
+              ? `${job.job_name || 'Service'} (Deposit)`
+              : paymentType === 'balance'
+                ? `${job.job_name || 'Service'} (Balance)`
+                : job.job_name || 'Service',
+            description: invoiceNumber
+              ? `Invoice ${invoiceNumber} · Service for ${job.client_name || 'Client'}`
+              : `Service for ${job.client_name || 'Client'}`,
           },
-          quantity: 1,
+          unit_amount: totalPriceInCents - taxInCents - lateFeeInCents - tipInCents, // Customer pays base + fee unless the company absorbs it
         },
-      ],
+        quantity: 1,
+      },
+      lateFeeLineItem,
+      taxLineItem,
+      tipLineItem,
+    ].filter((item) => item.price_data.unit_amount > 0);
+
+    // Discounts already came off the job price; itemized sessions list the full line items, so
+    // they take the discount back off with a coupon
+    let itemizedDiscounts: { label: string; amount: number }[] = [];
+    let itemizedDiscountInCents = 0;
+
+    // Itemize full payments so the customer sees each job line item plus the fee
+    if (paymentType === 'full') {
+      const { data: jobLineItems, error: lineItemsError } = await supabaseAdmin
+        .from('job_line_items')
+        .select('description, quantity, unit_price')
+        .eq('job_id', jobId)
+        .order('position', { ascending: true });
+
+      if (lineItemsError) {
+        console.error("Error fetching job line items:", lineItemsError);
+      }
+
+      const { data: jobDiscounts, error: discountsError } = await supabaseAdmin
+        .from('job_discounts')
+        .select('label, amount')
+        .eq('job_id', jobId)
+        .order('kind', { ascending: true });
+
+      if (discountsError) {
+        console.error("Error fetching job discounts:", discountsError);
+      }
+
+      const discountInCents = (jobDiscounts || []).reduce(
+        (sum, discount) => sum + Math.round(Number(discount.amount) * 100),
+        0
+      );
+
+      if (jobLineItems && jobLineItems.length > 0) {
+        const itemizedLineItems = jobLineItems.map((item) => {
+          const quantity = Number(item.quantity);
+          const unitPriceInCents = Math.round(Number(item.unit_price) * 100);
+          // Stripe only accepts whole quantities, so fold fractional ones into the amount
+          const isWholeQuantity = Number.isInteger(quantity);
+          return {
+            price_data: {
+              currency,
+              product_data: {
+                name: isWholeQuantity
+                  ? item.description
+                  : `${item.description} (${quantity} × ${formatMoney(unitPriceInCents / 100, currency)})`,
+              },
+              unit_amount: isWholeQuantity ? unitPriceInCents : Math.round(quantity * unitPriceInCents),
+            },
+            quantity: isWholeQuantity ? quantity : 1,
+          };
+        }).filter((item) => item.price_data.unit_amount > 0);
+
+        const itemizedTotal = itemizedLineItems.reduce(
+          (sum, item) => sum + item.price_data.unit_amount * item.quantity,
+          0
+        );
+
+        // Rounding can drift a cent from the stored job price; only itemize when it matches
+        if (!discountsError && itemizedTotal - discountInCents + taxInCents + lateFeeInCents === basePriceInCents) {
+          itemizedDiscounts = (jobDiscounts || []).filter((discount) => Number(discount.amount) > 0);
+          itemizedDiscountInCents = discountInCents;
+          checkoutLineItems = [
+            ...itemizedLineItems,
+            lateFeeLineItem,
+            taxLineItem,
+            tipLineItem,
+            {
+              price_data: {
+                currency,
+                product_data: {
+                  name: 'Processing Fee',
+                },
+                unit_amount: customerFee,
+              },
+              quantity: 1,
+            },
+          ].filter((item) => item.price_data.unit_amount > 0);
+        } else {
+          console.warn(`Line items total ${itemizedTotal} cents less ${discountInCents} cents discounts plus ${taxInCents} cents tax and ${lateFeeInCents} cents late fees does not match job price ${basePriceInCents} cents, using a single line item`);
+        }
+      }
+    }
+
+    const sessionConfig = {
+      payment_method_types: [paymentMethod],
+      line_items: checkoutLineItems,
       mode: 'payment',
       success_url: `${req.headers.get("origin")}/payment-success?session_id={CHECKOUT_SESSION_ID}`,
-      cancel_url: `${req.headers.get("origin")}/`,
+      cancel_url: `${req.headers.get("origin")}/payment-cancelled?invoice=${job.public_token}`,
       metadata: {
         job_id: jobId,
+        invoice_id: invoice?.id ?? '',
+        invoice_number: invoiceNumber ?? '',
         client_name: job.client_name || 'Unknown Client',
         base_price: (basePriceInCents / 100).toString(),
         platform_fee: (platformFee / 100).toString(),
+        fee_absorbed: feeSettings.absorbFees ? 'true' : 'false',
+        tax_amount: (taxInCents / 100).toString(),
+        late_fee_amount: (lateFeeInCents / 100).toString(),
+        tip_amount: (tipInCents / 100).toString(),
+        currency,
         total_price: (totalPriceInCents / 100).toString(),
+        payment_type: paymentType,
+        payment_method: paymentMethod,
         company_id: job.company_id || '',
         routing_method: useStripeConnect ? 'stripe_connect_updated_tiers' : 'platform_only',
       },
@@ -294,7 +990,188 @@ serve(async (req) => {
       console.log('- Platform receives updated tiered fee:', platformFee, 'cents');
     }
 
+    const processingAccount = useStripeConnect ? connectedStripeAccountId : null;
+
+    // Clients pay as a Stripe Customer so their payments are grouped in Stripe and Checkout is prefilled
+    let customerId = null;
+    if (job.client_id) {
+      try {
+        customerId = await ensureStripeCustomer(stripe, supabaseAdmin, job.client_id, processingAccount);
+      } catch (customerError) {
+        console.error("Error creating Stripe customer:", customerError);
+      }
+    }
+
+    // Credit is held only once the charge is about to go out, and released again if it doesn't
+    let creditReservation = null;
+    const holdCredit = async () => {
+      if (creditInCents === 0) {
+        return true;
+      }
+
+      creditReservation = await reserveClientCredit(supabaseAdmin, jobId, creditInCents);
+      if (creditReservation) {
+        sessionConfig.metadata.credit_payment_id = creditReservation.id;
+        sessionConfig.metadata.credit_amount = (creditInCents / 100).toString();
+      }
+      return Boolean(creditReservation);
+    };
+
+    const releaseCredit = async () => {
+      if (creditReservation) {
+        await releaseClientCredit(supabaseAdmin, creditReservation.id);
+      }
+    };
+
+    const creditChangedResponse = () => new Response(
+      JSON.stringify({ 
+        success: false,
+        error: "The client's account credit changed, please try again" 
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      }
+    );
+
+    if (offSession) {
+      const { data: client } = await supabaseAdmin
+        .from('clients')
+        .select('stripe_payment_method_id, autopay_enabled')
+        .eq('id', job.client_id)
+        .maybeSingle();
+
+      if (!customerId || !client?.stripe_payment_method_id || !client.autopay_enabled) {
+        return new Response(
+          JSON.stringify({ 
+            success: false,
+            code: 'no_saved_card',
+            error: "No saved card on file for this client" 
+          }),
+          {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+            status: 200,
+          }
+        );
+      }
+
+      if (!await holdCredit()) {
+        return creditChangedResponse();
+      }
+
+      // Same amount, metadata and Connect routing as a Checkout session; the webhook records it from
+      // payment_intent.succeeded because there is no session to complete
+      try {
+        const paymentIntent = await stripe.paymentIntents.create(
+          {
+            ...(sessionConfig.payment_intent_data ?? {}),
+            amount: totalPriceInCents,
+            currency,
+            customer: customerId,
+            payment_method: client.stripe_payment_method_id,
+            off_session: true,
+            confirm: true,
+            description: job.job_name || job.title,
+            metadata: { ...sessionConfig.metadata, off_session: 'true' },
+          },
+          {
+            // A repeated run of the same attempt can't charge twice, while a new attempt isn't answered
+            // with an earlier attempt's cached decline
+            idempotencyKey: `off-session-${jobId}-${attemptId ?? crypto.randomUUID()}`,
+            ...(processingAccount ? { stripeAccount: processingAccount } : {}),
+          }
+        );
+
+        console.log("Off-session charge created:", paymentIntent.id, paymentIntent.status);
+
+        if (paymentIntent.status !== 'succeeded') {
+          await releaseCredit();
+        }
+
+        return new Response(
+          JSON.stringify({ 
+            success: paymentIntent.status === 'succeeded',
+            paymentIntentId: paymentIntent.id,
+            status: paymentIntent.status,
+            error: paymentIntent.status === 'succeeded' ? undefined : `Charge is ${paymentIntent.status}`
+          }),
+          {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+            status: 200,
+          }
+        );
+      } catch (chargeError) {
+        // Declined cards and cards that need the client to authenticate end up here
+        console.error("Off-session charge failed:", chargeError);
+        await releaseCredit();
+        return new Response(
+          JSON.stringify({ 
+            success: false,
+            code: chargeError.code || 'charge_failed',
+            error: chargeError.message || "The saved card could not be charged" 
+          }),
+          {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+            status: 200,
+          }
+        );
+      }
+    }
+
+    if (customerId) {
+      sessionConfig.customer = customerId;
+    }
+
+    // Recurring clients also get their card saved for automatic charges
+    if (customerId && job.is_recurring && paymentMethod === 'card') {
+      sessionConfig.payment_intent_data = {
+        ...(sessionConfig.payment_intent_data ?? {}),
+        setup_future_usage: 'off_session',
+      };
+    }
+
+    // Both the Connect session and the platform fallback become the job's payment link the same way.
+    // A tipped session is the paying client's own, so it never replaces the link shared with them
+    const saveCheckoutSession = async (session: Stripe.Checkout.Session, sessionAccount: string | null) => {
+      const { error: updateError } = tipInCents > 0 && !deposit
+        ? { error: null }
+        : await supabaseAdmin
+          .from('jobs')
+          .update({ 
+            ...(tipInCents === 0 ? {
+              payment_url: session.url,
+              stripe_checkout_url: session.url,
+              stripe_session_id: session.id,
+              stripe_session_account_id: sessionAccount,
+              payment_url_expires_at: new Date(session.expires_at * 1000).toISOString(),
+            } : {}),
+            // Remember a requested deposit so the public invoice page can offer it again
+            ...(deposit ? { deposit_type: deposit.type, deposit_value: parseFloat(deposit.value) } : {})
+          })
+          .eq('id', jobId);
+
+      if (updateError) {
+        console.error("Error updating job with payment link:", updateError);
+        console.log("Continuing despite update error - payment link still generated");
+      } else {
+        console.log("Job updated with payment URL");
+      }
+
+      if (tipInCents === 0 && job.stripe_session_id && job.stripe_session_id !== session.id) {
+        await expireCheckoutSession(stripe, job.stripe_session_id, job.stripe_session_account_id);
+      }
+    };
+
+    if (!await holdCredit()) {
+      return creditChangedResponse();
+    }
+
     try {
+      if (itemizedDiscountInCents > 0) {
+        const couponId = await createDiscountCoupon(stripe, itemizedDiscounts, itemizedDiscountInCents, currency, processingAccount);
+        sessionConfig.discounts = [{ coupon: couponId }];
+      }
+
       // Create Stripe checkout session - use stripeAccount parameter for Connect
       const session = useStripeConnect && connectedStripeAccountId 
         ? await stripe.checkout.sessions.create(sessionConfig, { 
@@ -305,38 +1182,37 @@ serve(async (req) => {
       console.log("SUCCESS: Stripe session created:", session.id);
       console.log("- Session URL:", session.url);
 
-      // Update job with payment URL
-      const { error: updateError } = await supabaseAdmin
-        .from('jobs')
-        .update({ 
-          payment_url: session.url,
-          stripe_checkout_url: session.url 
-        })
-        .eq('id', jobId);
-
-      if (updateError) {
-        console.error("Error updating job with payment link:", updateError);
-        console.log("Continuing despite update error - payment link still generated");
-      } else {
-        console.log("Job updated with payment URL");
-      }
+      await saveCheckoutSession(session, processingAccount);
 
       return new Response(
         JSON.stringify({ 
           success: true,
           url: session.url,
           sessionId: session.id,
+          invoiceNumber,
           pricing_info: {
             base_price: basePriceInCents / 100,
             platform_fee: platformFee / 100,
+            tax_amount: taxInCents / 100,
+            late_fee_amount: lateFeeInCents / 100,
+            tip_amount: tipInCents / 100,
+            discount_amount: (parseFloat(job.discount_amount) || 0),
+            currency,
             total_customer_pays: totalPriceInCents / 100,
-            fee_percentage: ((platformFee / basePriceInCents) * 100).toFixed(2) + '%',
+            fee_absorbed: feeSettings.absorbFees,
+            net_amount: (basePriceInCents + tipInCents - (feeSettings.absorbFees ? platformFee : 0)) / 100,
+            payment_type: paymentType,
+            payment_method: paymentMethod,
+            remaining_balance: (balanceInCents - creditInCents - basePriceInCents) / 100,
+            credit_applied: creditInCents / 100,
+            fee_percentage: ((platformFee / feeableAmountInCents) * 100).toFixed(2) + '%',
             connect_used: useStripeConnect
           },
           routing_info: {
             method: useStripeConnect ? 'stripe_connect_updated_tiers' : 'platform_only',
             destination_account: useStripeConnect ? connectedStripeAccountId : 'platform',
             fee_amount_cents: platformFee,
+            fee_schedule: feeSettings.schedule.name,
             base_amount_cents: basePriceInCents,
             charges_enabled: connectedAccountChargesEnabled
           }
@@ -355,15 +1231,31 @@ serve(async (req) => {
         
         const fallbackConfig = { ...sessionConfig };
         delete fallbackConfig.payment_intent_data;
+        // The customer belongs to the connected account, so the platform session can't use it
+        delete fallbackConfig.customer;
+        if (itemizedDiscountInCents > 0) {
+          fallbackConfig.discounts = [{
+            coupon: await createDiscountCoupon(stripe, itemizedDiscounts, itemizedDiscountInCents, currency, null),
+          }];
+        }
         
-        const fallbackSession = await stripe.checkout.sessions.create(fallbackConfig);
+        let fallbackSession;
+        try {
+          fallbackSession = await stripe.checkout.sessions.create(fallbackConfig);
+        } catch (fallbackError) {
+          await releaseCredit();
+          throw fallbackError;
+        }
         console.log("FALLBACK SUCCESS: Created platform-only session:", fallbackSession.id);
+
+        await saveCheckoutSession(fallbackSession, null);
         
         return new Response(
           JSON.stringify({ 
             success: true,
             url: fallbackSession.url,
             sessionId: fallbackSession.id,
+            invoiceNumber,
             warning: "Routed to platform account due to Stripe Connect issue"
           }),
           {
@@ -374,6 +1266,7 @@ serve(async (req) => {
       }
       
       // Re-throw error if not using Connect
+      await releaseCredit();
       throw stripeError;
     }
   } catch (error) {
@@ -0,0 +1,289 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import Stripe from "https://esm.sh/stripe@14.21.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, authorization, x-client-info, apikey",
+  "Access-Control-Max-Age": "86400",
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+// Amounts in messages use the locale that goes with the job's currency
+const CURRENCY_LOCALES: Record<string, string> = {
+  usd: 'en-US',
+  cad: 'en-CA',
+};
+
+const formatMoney = (amount: number, currency: string) =>
+  new Intl.NumberFormat(CURRENCY_LOCALES[currency] ?? 'en-US', {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+  }).format(amount);
+
+// Refunds come off the whole charge, so only the job price's share of them reopens the balance
+const refundedBaseAmount = (payment: { amount: number; base_amount: number | null }, refundedAmount: number) =>
+  payment.base_amount === null
+    ? refundedAmount
+    : Math.min(Math.round(refundedAmount * payment.base_amount / payment.amount), payment.base_amount);
+
+serve(async (req) => {
+  console.log("Create refund function called with method:", req.method);
+
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      headers: corsHeaders,
+      status: 200
+    });
+  }
+
+  try {
+    const stripeSecretKey = Deno.env.get("STRIPE_SECRET_KEY");
+    if (!stripeSecretKey) {
+      console.error("STRIPE_SECRET_KEY not found in environment");
+      return jsonResponse({
+        success: false,
+        error: "Stripe configuration missing. Please add your Stripe secret key to edge function secrets."
+      });
+    }
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      console.error("No authorization header provided");
+      return jsonResponse({ success: false, error: "No authorization header provided" }, 401);
+    }
+
+    // Initialize Supabase client with service role key
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: userData, error: userError } = await supabaseAdmin.auth.getUser(token);
+
+    if (userError || !userData.user) {
+      console.error("User authentication error:", userError);
+      return jsonResponse({ success: false, error: "User not authenticated" }, 401);
+    }
+
+    const user = userData.user;
+
+    let requestBody;
+    try {
+      requestBody = await req.json();
+    } catch (jsonError) {
+      console.error("Failed to parse request body:", jsonError);
+      return jsonResponse({ success: false, error: "Invalid request body - must be valid JSON" });
+    }
+
+    // amountInCents is optional; omitting it refunds whatever is left on the job's Stripe payments.
+    // paymentId limits the refund to one of those payments
+    const { jobId, paymentId, amountInCents, reason } = requestBody;
+    console.log("Refund requested:", { jobId, paymentId, amountInCents, reason, user: user.email });
+
+    if (!jobId) {
+      return jsonResponse({ success: false, error: "Job ID is required" });
+    }
+
+    const { data: profile, error: profileError } = await supabaseAdmin
+      .from('profiles')
+      .select('company_id')
+      .eq('id', user.id)
+      .single();
+
+    if (profileError || !profile?.company_id) {
+      console.error("Error fetching user profile:", profileError);
+      return jsonResponse({ success: false, error: "User profile not found" });
+    }
+
+    const { data: job, error: jobError } = await supabaseAdmin
+      .from('jobs')
+      .select('id, company_id, status')
+      .eq('id', jobId)
+      .single();
+
+    if (jobError || !job) {
+      console.error("Error fetching job:", jobError);
+      return jsonResponse({ success: false, error: "Job not found" });
+    }
+
+    if (job.company_id !== profile.company_id) {
+      console.error("User does not belong to the job's company:", user.email, jobId);
+      return jsonResponse({ success: false, error: "You can only refund jobs for your own company" }, 403);
+    }
+
+    // A refund is taken from the job's Stripe payments newest first, or from just the one named by paymentId
+    let paymentsQuery = supabaseAdmin
+      .from('payments')
+      .select('id, amount, base_amount, refunded_amount, currency, stripe_payment_intent_id, stripe_account_id')
+      .eq('job_id', jobId)
+      .eq('payment_method', 'stripe')
+      .in('payment_status', ['paid', 'partially_refunded'])
+      .not('stripe_payment_intent_id', 'is', null)
+      .order('paid_at', { ascending: false });
+
+    if (paymentId) {
+      paymentsQuery = paymentsQuery.eq('id', paymentId);
+    }
+
+    const { data: payments, error: paymentError } = await paymentsQuery;
+
+    if (paymentError) {
+      console.error("Error fetching payments:", paymentError);
+      return jsonResponse({ success: false, error: `Failed to fetch payments: ${paymentError.message}` });
+    }
+
+    const refundablePayments = (payments || []).filter((payment) => payment.amount > (payment.refunded_amount || 0));
+    if (refundablePayments.length === 0) {
+      return jsonResponse({ success: false, error: "No refundable Stripe payment found for this job" });
+    }
+
+    const refundableAmount = refundablePayments.reduce(
+      (sum, payment) => sum + payment.amount - (payment.refunded_amount || 0),
+      0
+    );
+    const refundAmount = amountInCents ? Math.round(amountInCents) : refundableAmount;
+    const currency = refundablePayments[0].currency || 'usd';
+
+    if (refundAmount <= 0 || refundAmount > refundableAmount) {
+      console.error("Invalid refund amount:", refundAmount, "refundable:", refundableAmount);
+      return jsonResponse({
+        success: false,
+        error: `Refund amount must be between ${formatMoney(0.01, currency)} and ${formatMoney(refundableAmount / 100, currency)}`
+      });
+    }
+
+    // Initialize Stripe
+    const stripe = new Stripe(stripeSecretKey, {
+      apiVersion: "2023-10-16",
+    });
+
+    let refundedInCents = 0;
+    let refundFailure: string | null = null;
+    const refundIds: string[] = [];
+
+    for (const payment of refundablePayments) {
+      const paymentRefundAmount = Math.min(payment.amount - (payment.refunded_amount || 0), refundAmount - refundedInCents);
+      if (paymentRefundAmount <= 0) {
+        break;
+      }
+
+      // The charge lives on whichever account create-checkout routed the session to
+      let refund;
+      try {
+        refund = await stripe.refunds.create(
+          {
+            payment_intent: payment.stripe_payment_intent_id,
+            amount: paymentRefundAmount,
+            reason: 'requested_by_customer',
+            metadata: {
+              job_id: jobId,
+              reason: reason || '',
+              requested_by: user.id,
+            },
+          },
+          payment.stripe_account_id ? { stripeAccount: payment.stripe_account_id } : undefined
+        );
+      } catch (stripeError) {
+        // Refunds already made stand, so record them and report how far this one got
+        console.error("Stripe refund failed for payment:", payment.id, stripeError);
+        refundFailure = stripeError.message || "Stripe refund failed";
+        break;
+      }
+
+      console.log("SUCCESS: Stripe refund created:", refund.id, refund.status);
+      refundedInCents += refund.amount;
+      refundIds.push(refund.id);
+
+      const { error: refundInsertError } = await supabaseAdmin
+        .from('refunds')
+        .upsert({
+          job_id: jobId,
+          payment_id: payment.id,
+          stripe_refund_id: refund.id,
+          amount: refund.amount,
+          reason: reason || null,
+          status: refund.status ?? 'pending',
+          created_by: user.id
+        }, { onConflict: 'stripe_refund_id' });
+
+      if (refundInsertError) {
+        console.error("Error recording refund:", refundInsertError);
+      }
+
+      // Update totals now; charge.refunded will reconcile them against Stripe
+      const refundedAmount = (payment.refunded_amount || 0) + refund.amount;
+      const refundStatus = refundedAmount >= payment.amount ? 'refunded' : 'partially_refunded';
+
+      const { error: paymentUpdateError } = await supabaseAdmin
+        .from('payments')
+        .update({
+          refunded_amount: refundedAmount,
+          refunded_base_amount: refundedBaseAmount(payment, refundedAmount),
+          payment_status: refundStatus
+        })
+        .eq('id', payment.id);
+
+      if (paymentUpdateError) {
+        console.error("Error updating payment refund totals:", paymentUpdateError);
+      }
+    }
+
+    if (refundedInCents === 0) {
+      return jsonResponse({ success: false, error: refundFailure || "Stripe refund failed" });
+    }
+
+    // Other payments on the job may still stand, so the job is only refunded once none of them do
+    const { data: jobPayments, error: jobPaymentsError } = await supabaseAdmin
+      .from('payments')
+      .select('amount, base_amount, refunded_base_amount')
+      .eq('job_id', jobId)
+      .in('payment_status', ['paid', 'partially_refunded']);
+
+    if (jobPaymentsError) {
+      console.error("Error fetching job payments:", jobPaymentsError);
+    }
+
+    const amountKeptInCents = (jobPayments || []).reduce(
+      (sum, jobPayment) => sum + Math.max((jobPayment.base_amount ?? jobPayment.amount) - (jobPayment.refunded_base_amount || 0), 0),
+      0
+    );
+    const jobStatus = amountKeptInCents > 0 ? 'partially_refunded' : 'refunded';
+
+    if (!jobPaymentsError) {
+      const { error: jobUpdateError } = await supabaseAdmin
+        .from('jobs')
+        .update({ status: jobStatus })
+        .eq('id', jobId);
+
+      if (jobUpdateError) {
+        console.error("Error updating job refund status:", jobUpdateError);
+      }
+    }
+
+    // A Stripe failure partway through still reports the refunds that went through
+    return jsonResponse({
+      success: true,
+      refundIds,
+      amount: refundedInCents / 100,
+      status: jobStatus,
+      ...(refundFailure ? { warning: `Only part of the refund went through: ${refundFailure}` } : {}),
+    });
+  } catch (error) {
+    console.error("Error in create-refund function:", error);
+    return jsonResponse({
+      success: false,
+      error: error.message || "Internal server error",
+      details: "Check the function logs for more information"
+    });
+  }
+});
@@ -0,0 +1,295 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Statuses an estimate can still be accepted or declined from
+const OPEN_STATUSES = ['draft', 'sent', 'viewed'];
+
+// Errors are returned with a 200 and success: false so the approval page can show the message
+const jsonResponse = (body: unknown) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status: 200,
+  });
+
+interface Estimate {
+  id: string;
+  company_id: string;
+  client_id: string;
+  title: string;
+  description: string | null;
+  phone_number: string | null;
+  price: number;
+  tax_amount: number;
+  tax_rate_id: string | null;
+  scheduled_date: string | null;
+  deposit_type: 'fixed' | 'percentage' | null;
+  deposit_value: number | null;
+}
+
+interface EstimateLineItem {
+  description: string;
+  quantity: number;
+  unit_price: number;
+  taxable: boolean;
+  tax_rate_id: string | null;
+  tax_amount: number;
+  position: number;
+}
+
+// Adds days to a YYYY-MM-DD date in UTC
+const addDays = (date: string, days: number) => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+};
+
+const depositAmount = (estimate: Estimate) => {
+  if (!estimate.deposit_type) return null;
+  const value = Number(estimate.deposit_value);
+  return estimate.deposit_type === 'percentage'
+    ? Math.round(Number(estimate.price) * value) / 100
+    : value;
+};
+
+// Creates the job exactly as CreateJobDialog does: the job row first, then its line items
+const convertToJob = async (supabase, estimate: Estimate, lineItems: EstimateLineItem[]) => {
+  const { data: client, error: clientError } = await supabase
+    .from('clients')
+    .select('name, payment_terms_days')
+    .eq('id', estimate.client_id)
+    .single();
+
+  if (clientError) throw clientError;
+
+  const { data: billingSettings } = await supabase
+    .from('company_billing_settings')
+    .select('payment_terms_days')
+    .eq('company_id', estimate.company_id)
+    .maybeSingle();
+
+  const scheduledDate = estimate.scheduled_date ?? new Date().toISOString().split('T')[0];
+  const paymentTermsDays = client.payment_terms_days ?? billingSettings?.payment_terms_days ?? 0;
+
+  const { data: job, error: jobError } = await supabase
+    .from('jobs')
+    .insert({
+      title: estimate.title,
+      job_name: estimate.title,
+      client_name: client.name,
+      price: estimate.price,
+      tax_amount: estimate.tax_amount,
+      tax_rate_id: estimate.tax_rate_id,
+      phone_number: estimate.phone_number,
+      company_id: estimate.company_id,
+      status: 'pending',
+      description: estimate.description,
+      scheduled_date: scheduledDate,
+      due_date: addDays(scheduledDate, paymentTermsDays),
+      is_recurring: false,
+      frequency: null,
+      client_id: estimate.client_id,
+    })
+    .select()
+    .single();
+
+  if (jobError) throw jobError;
+
+  if (lineItems.length > 0) {
+    const { error: lineItemsError } = await supabase
+      .from('job_line_items')
+      .insert(lineItems.map((item) => ({
+        job_id: job.id,
+        description: item.description,
+        quantity: item.quantity,
+        unit_price: item.unit_price,
+        taxable: item.taxable,
+        tax_rate_id: item.tax_rate_id,
+        tax_amount: item.tax_amount,
+        position: item.position,
+      })));
+
+    if (lineItemsError) {
+      await supabase.from('jobs').delete().eq('id', job.id);
+      throw lineItemsError;
+    }
+  }
+
+  return job;
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // action is omitted to just load the estimate, or 'accept' / 'decline'
+    const { token, action, signatureName, declineReason } = await req.json();
+
+    if (!token) {
+      return jsonResponse({ success: false, error: "Estimate token is required" });
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const { data: estimate, error: estimateError } = await supabase
+      .from('estimates')
+      .select('*, clients(name)')
+      .eq('public_token', token)
+      .maybeSingle();
+
+    if (estimateError) {
+      console.error("Error fetching estimate:", estimateError);
+      throw new Error("Failed to load estimate");
+    }
+
+    if (!estimate) {
+      return jsonResponse({ success: false, error: "Estimate not found" });
+    }
+
+    const { data: lineItems, error: lineItemsError } = await supabase
+      .from('estimate_line_items')
+      .select('description, quantity, unit_price, taxable, tax_rate_id, tax_amount, position')
+      .eq('estimate_id', estimate.id)
+      .order('position', { ascending: true });
+
+    if (lineItemsError) {
+      console.error("Error fetching estimate line items:", lineItemsError);
+    }
+
+    const today = new Date().toISOString().split('T')[0];
+    const isExpired = estimate.expires_at < today;
+
+    if (!action) {
+      // First open of a sent estimate counts as viewed
+      if (estimate.status === 'sent') {
+        await supabase
+          .from('estimates')
+          .update({ status: 'viewed', viewed_at: new Date().toISOString() })
+          .eq('id', estimate.id)
+          .eq('status', 'sent');
+      }
+
+      return jsonResponse({
+        success: true,
+        estimate: {
+          title: estimate.title,
+          description: estimate.description,
+          client_name: estimate.clients?.name ?? null,
+          price: Number(estimate.price),
+          tax_amount: Number(estimate.tax_amount),
+          expires_at: estimate.expires_at,
+          scheduled_date: estimate.scheduled_date,
+          status: estimate.status === 'sent' ? 'viewed' : estimate.status,
+          is_expired: isExpired && OPEN_STATUSES.includes(estimate.status),
+          deposit_amount: depositAmount(estimate),
+          signature_name: estimate.signature_name,
+          responded_at: estimate.responded_at,
+          line_items: (lineItems || []).map((item) => ({
+            description: item.description,
+            quantity: Number(item.quantity),
+            unit_price: Number(item.unit_price),
+            tax_amount: Number(item.tax_amount),
+          })),
+        },
+      });
+    }
+
+    if (action !== 'accept' && action !== 'decline') {
+      return jsonResponse({ success: false, error: "Unknown action" });
+    }
+
+    if (!OPEN_STATUSES.includes(estimate.status)) {
+      return jsonResponse({ success: false, error: `This estimate has already been ${estimate.status}` });
+    }
+
+    if (isExpired) {
+      return jsonResponse({ success: false, error: "This estimate has expired" });
+    }
+
+    const signature = (signatureName ?? '').trim();
+    if (action === 'accept' && signature.length < 2) {
+      return jsonResponse({ success: false, error: "Type your full name to accept the estimate" });
+    }
+
+    // Only one response is recorded, even if the page is submitted twice
+    const { data: responded, error: respondError } = await supabase
+      .from('estimates')
+      .update({
+        status: action === 'accept' ? 'accepted' : 'declined',
+        responded_at: new Date().toISOString(),
+        signature_name: signature || null,
+        decline_reason: action === 'decline' ? (declineReason ?? '').trim() || null : null,
+      })
+      .eq('id', estimate.id)
+      .in('status', OPEN_STATUSES)
+      .select('id')
+      .maybeSingle();
+
+    if (respondError) {
+      console.error("Error recording estimate response:", respondError);
+      throw new Error("Failed to record your response");
+    }
+
+    if (!responded) {
+      return jsonResponse({ success: false, error: "This estimate has already been answered" });
+    }
+
+    if (action === 'decline') {
+      console.log("Estimate declined:", estimate.id);
+      return jsonResponse({ success: true, status: 'declined' });
+    }
+
+    let job;
+    try {
+      job = await convertToJob(supabase, estimate, lineItems || []);
+    } catch (conversionError) {
+      console.error("Error converting estimate to job:", conversionError);
+      // Reopen the estimate so the client can try again
+      await supabase
+        .from('estimates')
+        .update({ status: estimate.status, responded_at: null, signature_name: null })
+        .eq('id', estimate.id);
+      throw new Error("Failed to accept the estimate, please try again");
+    }
+
+    await supabase
+      .from('estimates')
+      .update({ job_id: job.id })
+      .eq('id', estimate.id);
+
+    console.log("Estimate accepted and converted to job:", estimate.id, job.id);
+
+    // Collect the deposit right away when the estimate asks for one
+    let checkoutUrl = null;
+    if (estimate.deposit_type) {
+      const { data: checkout, error: checkoutError } = await supabase.functions.invoke('create-checkout', {
+        body: {
+          jobId: job.id,
+          deposit: { type: estimate.deposit_type, value: Number(estimate.deposit_value) },
+        },
+        headers: { origin: req.headers.get("origin") ?? "" },
+      });
+
+      if (checkoutError || !checkout?.success) {
+        console.error("Error creating deposit checkout:", checkoutError || checkout?.error);
+      } else {
+        // No link when the client's account credit already covered the job
+        checkoutUrl = checkout.url ?? null;
+      }
+    }
+
+    return jsonResponse({ success: true, status: 'accepted', checkoutUrl });
+  } catch (error) {
+    console.error("Error in estimate-response function:", error);
+    return jsonResponse({ success: false, error: error.message || "Internal server error" });
+  }
+});
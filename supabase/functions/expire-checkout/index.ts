@@ -0,0 +1,156 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import Stripe from "https://esm.sh/stripe@14.21.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, authorization, x-client-info, apikey",
+  "Access-Control-Max-Age": "86400",
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+// Closes a job's live payment link before a payment is recorded outside Stripe, so the client
+// can't pay the same balance twice
+serve(async (req) => {
+  console.log("Expire checkout function called with method:", req.method);
+
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      headers: corsHeaders,
+      status: 200
+    });
+  }
+
+  try {
+    const stripeSecretKey = Deno.env.get("STRIPE_SECRET_KEY");
+    if (!stripeSecretKey) {
+      console.error("STRIPE_SECRET_KEY not found in environment");
+      return jsonResponse({
+        success: false,
+        error: "Stripe configuration missing. Please add your Stripe secret key to edge function secrets."
+      });
+    }
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      console.error("No authorization header provided");
+      return jsonResponse({ success: false, error: "No authorization header provided" }, 401);
+    }
+
+    // Initialize Supabase client with service role key
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: userData, error: userError } = await supabaseAdmin.auth.getUser(token);
+
+    if (userError || !userData.user) {
+      console.error("User authentication error:", userError);
+      return jsonResponse({ success: false, error: "User not authenticated" }, 401);
+    }
+
+    const user = userData.user;
+
+    let requestBody;
+    try {
+      requestBody = await req.json();
+    } catch (jsonError) {
+      console.error("Failed to parse request body:", jsonError);
+      return jsonResponse({ success: false, error: "Invalid request body - must be valid JSON" });
+    }
+
+    const { jobId } = requestBody;
+    console.log("Expiring payment link:", { jobId, user: user.email });
+
+    if (!jobId) {
+      return jsonResponse({ success: false, error: "Job ID is required" });
+    }
+
+    const { data: profile, error: profileError } = await supabaseAdmin
+      .from('profiles')
+      .select('company_id')
+      .eq('id', user.id)
+      .single();
+
+    if (profileError || !profile?.company_id) {
+      console.error("Error fetching user profile:", profileError);
+      return jsonResponse({ success: false, error: "User profile not found" });
+    }
+
+    const { data: job, error: jobError } = await supabaseAdmin
+      .from('jobs')
+      .select('id, company_id, status, stripe_session_id, stripe_session_account_id')
+      .eq('id', jobId)
+      .single();
+
+    if (jobError || !job) {
+      console.error("Error fetching job:", jobError);
+      return jsonResponse({ success: false, error: "Job not found" });
+    }
+
+    if (job.company_id !== profile.company_id) {
+      console.error("User does not belong to the job's company:", user.email, jobId);
+      return jsonResponse({ success: false, error: "You can only update jobs for your own company" }, 403);
+    }
+
+    // A bank debit in flight may still clear, so nothing else can be recorded until it settles
+    if (job.status === 'processing') {
+      return jsonResponse({ success: false, error: "A bank payment for this job is still processing" });
+    }
+
+    if (job.stripe_session_id) {
+      const stripe = new Stripe(stripeSecretKey, {
+        apiVersion: "2023-10-16",
+      });
+      const requestOptions = job.stripe_session_account_id
+        ? { stripeAccount: job.stripe_session_account_id }
+        : undefined;
+
+      // A completed session is a payment the webhook hasn't recorded yet, not a link to close
+      const session = await stripe.checkout.sessions.retrieve(job.stripe_session_id, {}, requestOptions);
+      if (session.status === 'complete') {
+        console.error("Checkout session already completed:", session.id);
+        return jsonResponse({ success: false, error: "The client has already paid through the payment link" });
+      }
+
+      if (session.status === 'open') {
+        await stripe.checkout.sessions.expire(session.id, {}, requestOptions);
+        console.log("Expired checkout session:", session.id);
+      }
+    }
+
+    const { error: jobUpdateError } = await supabaseAdmin
+      .from('jobs')
+      .update({
+        payment_url: null,
+        stripe_checkout_url: null,
+        stripe_session_id: null,
+        payment_url_expires_at: null
+      })
+      .eq('id', jobId);
+
+    if (jobUpdateError) {
+      console.error("Error clearing payment link:", jobUpdateError);
+      return jsonResponse({ success: false, error: "Failed to clear the payment link" });
+    }
+
+    return jsonResponse({ success: true });
+  } catch (error) {
+    console.error("Error in expire-checkout function:", error);
+    return jsonResponse({
+      success: false,
+      error: error.message || "Internal server error",
+      details: "Check the function logs for more information"
+    });
+  }
+});
@@ -9,16 +9,117 @@ const corsHeaders = {
 
 interface ReceiptData {
   jobId: string;
-  sessionId: string;
+  sessionId?: string;
+  paymentId?: string;
   amountPaid: number;
   paymentDate: string;
+  // Set for payments recorded outside Stripe (cash, check, Zelle)
+  paymentMethod?: string;
+  referenceNumber?: string;
 }
 
-const generateReceiptHTML = (job: any, receiptData: ReceiptData) => {
-  const baseAmount = job.price;
+const MANUAL_METHOD_LABELS: Record<string, string> = {
+  cash: 'Cash',
+  check: 'Check',
+  zelle: 'Zelle',
+  other: 'Other',
+  // Not a manual method; credit payments are spent from the client's account credit balance
+  credit: 'Account credit',
+};
+
+interface PaymentHistoryEntry {
+  id: string;
+  amount: number;
+  base_amount: number | null;
+  refunded_base_amount: number | null;
+  tax_amount: number | null;
+  tip_amount: number | null;
+  payment_method: string | null;
+  manual_method: string | null;
+  stripe_payment_method_type: string | null;
+  paid_at: string | null;
+}
+
+interface LineItem {
+  description: string;
+  quantity: number;
+  unit_price: number;
+  tax_amount: number;
+  tax_rates: { name: string; percentage: number } | null;
+}
+
+interface JobDiscount {
+  label: string;
+  amount: number;
+}
+
+interface LateFee {
+  amount: number;
+  applied_at: string;
+}
+
+// Tax charged per rate across the job's line items, in dollars
+const taxByRate = (lineItems: LineItem[]) => {
+  const totals = new Map<string, number>();
+  lineItems.forEach(item => {
+    if (!item.tax_rates || Number(item.tax_amount) <= 0) return;
+    const label = `${item.tax_rates.name} (${Number(item.tax_rates.percentage)}%)`;
+    totals.set(label, (totals.get(label) || 0) + Number(item.tax_amount));
+  });
+  return Array.from(totals.entries());
+};
+
+// Receipts are rendered server-side, so amounts use the locale that goes with the job's currency
+const CURRENCY_LOCALES: Record<string, string> = {
+  usd: 'en-US',
+  cad: 'en-CA',
+};
+
+const formatMoney = (amount: number, currency: string) =>
+  new Intl.NumberFormat(CURRENCY_LOCALES[currency] ?? 'en-US', {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+  }).format(amount);
+
+// The receipt is shown as HTML in the app, so text from jobs, line items and the request is escaped
+const escapeHtml = (value: unknown) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Portion of a payment applied to the job price, in cents (excludes processing fees)
+const appliedAmount = (payment: PaymentHistoryEntry) =>
+  Math.max((payment.base_amount ?? payment.amount) - (payment.refunded_base_amount || 0), 0);
+
+const generateReceiptHTML = (
+  job: any,
+  receiptData: ReceiptData,
+  payments: PaymentHistoryEntry[],
+  lineItems: LineItem[],
+  discounts: JobDiscount[],
+  lateFees: LateFee[],
+  invoiceNumber: string | null,
+  creditBalance: number
+) => {
+  const currentPayment = payments.find(payment => payment.id === receiptData.paymentId);
+  const money = (amount: number) => formatMoney(amount, job.currency || 'usd');
   const totalAmount = receiptData.amountPaid / 100; // Convert from cents
-  const platformFee = totalAmount - baseAmount;
+  const baseAmount = currentPayment?.base_amount != null ? currentPayment.base_amount / 100 : job.price;
+  const tipAmount = (currentPayment?.tip_amount || 0) / 100;
+  const platformFee = totalAmount - baseAmount - tipAmount;
+  const jobTax = Number(job.tax_amount) || 0;
+  const taxAmount = currentPayment ? (currentPayment.tax_amount || 0) / 100 : jobTax;
+  // Late fees are never taxed; a payment covers its proportional share, like tax
+  const jobLateFees = Number(job.late_fee_amount) || 0;
+  const lateFeeAmount = Math.round(baseAmount * jobLateFees / Number(job.price) * 100) / 100;
   const paymentDate = new Date(receiptData.paymentDate).toLocaleDateString();
+  const isManualPayment = !!receiptData.paymentMethod && receiptData.paymentMethod !== 'stripe';
+  const amountPaidToDate = payments.reduce((sum, payment) => sum + appliedAmount(payment), 0) / 100;
+  const remainingBalance = Math.max(job.price - amountPaidToDate, 0);
+  const showHistory = payments.length > 1 || remainingBalance > 0;
 
   return `
     <!DOCTYPE html>
@@ -30,9 +131,11 @@ const generateReceiptHTML = (job: any, receiptData: ReceiptData) => {
         body { font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; }
         .header { text-align: center; border-bottom: 2px solid #333; padding-bottom: 20px; margin-bottom: 30px; }
         .paid-stamp { background: #22c55e; color: white; padding: 10px 20px; border-radius: 5px; font-weight: bold; display: inline-block; margin: 20px 0; }
+        .paid-stamp.partial { background: #f97316; }
         .details { margin: 20px 0; }
         .row { display: flex; justify-content: space-between; margin: 10px 0; }
         .total { font-weight: bold; font-size: 18px; border-top: 2px solid #333; padding-top: 10px; }
+        .note { color: #666; font-size: 14px; }
         .footer { margin-top: 40px; text-align: center; color: #666; font-size: 14px; }
       </style>
     </head>
@@ -40,47 +143,176 @@ const generateReceiptHTML = (job: any, receiptData: ReceiptData) => {
       <div class="header">
         <h1>Smart Invoice</h1>
         <h2>Payment Receipt</h2>
-        <div class="paid-stamp">✅ PAID</div>
+        ${remainingBalance > 0
+          ? '<div class="paid-stamp partial">PARTIAL PAYMENT</div>'
+          : '<div class="paid-stamp">✅ PAID</div>'}
       </div>
       
       <div class="details">
         <div class="row">
           <span><strong>Invoice #:</strong></span>
-          <span>${job.id.slice(0, 8).toUpperCase()}</span>
+          <span>${escapeHtml(invoiceNumber ?? job.id.slice(0, 8).toUpperCase())}</span>
         </div>
         <div class="row">
           <span><strong>Date of Payment:</strong></span>
-          <span>${paymentDate}</span>
+          <span>${escapeHtml(paymentDate)}</span>
         </div>
         <div class="row">
           <span><strong>Service:</strong></span>
-          <span>${job.job_name || 'Service'}</span>
+          <span>${escapeHtml(job.job_name || 'Service')}</span>
         </div>
         <div class="row">
           <span><strong>Client:</strong></span>
-          <span>${job.client_name || 'N/A'}</span>
+          <span>${escapeHtml(job.client_name || 'N/A')}</span>
+        </div>
+      </div>
+
+      ${lineItems.length > 0 ? `
+      <div class="details">
+        <h3>Items</h3>
+        ${lineItems.map(item => `
+        <div class="row">
+          <span>${escapeHtml(item.description)} (${Number(item.quantity)} × ${money(Number(item.unit_price))})</span>
+          <span>${money(Number(item.quantity) * Number(item.unit_price))}</span>
         </div>
+        `).join('')}
+        ${discounts.map(discount => `
+        <div class="row">
+          <span>${escapeHtml(discount.label)}</span>
+          <span>-${money(Number(discount.amount))}</span>
+        </div>
+        `).join('')}
+        ${lateFees.map(fee => `
+        <div class="row">
+          <span>Late Fee (${new Date(fee.applied_at).toLocaleDateString()})</span>
+          <span>${money(Number(fee.amount))}</span>
+        </div>
+        `).join('')}
+        ${jobTax > 0 || discounts.length > 0 ? `
+        <div class="row">
+          <span>Subtotal:</span>
+          <span>${money(Number(job.price) - jobTax)}</span>
+        </div>
+        ${taxByRate(lineItems).map(([label, amount]) => `
+        <div class="row">
+          <span>${escapeHtml(label)}:</span>
+          <span>${money(amount)}</span>
+        </div>
+        `).join('')}
+        <div class="row">
+          <span><strong>Total:</strong></span>
+          <span><strong>${money(Number(job.price))}</strong></span>
+        </div>
+        ` : ''}
       </div>
+      ` : ''}
 
+      ${isManualPayment ? `
+      <div class="details">
+        <h3>Payment Details</h3>
+        <div class="row">
+          <span>Service Amount:</span>
+          <span>${money(baseAmount - taxAmount - lateFeeAmount)}</span>
+        </div>
+        ${lateFeeAmount > 0 ? `
+        <div class="row">
+          <span>Late Fee:</span>
+          <span>${money(lateFeeAmount)}</span>
+        </div>
+        ` : ''}
+        ${taxAmount > 0 ? `
+        <div class="row">
+          <span>Sales Tax:</span>
+          <span>${money(taxAmount)}</span>
+        </div>
+        ` : ''}
+        <div class="row">
+          <span>Payment Method:</span>
+          <span>${escapeHtml(MANUAL_METHOD_LABELS[receiptData.paymentMethod!] || receiptData.paymentMethod)}</span>
+        </div>
+        ${receiptData.referenceNumber ? `
+        <div class="row">
+          <span>Reference #:</span>
+          <span>${escapeHtml(receiptData.referenceNumber)}</span>
+        </div>
+        ` : ''}
+        <div class="row total">
+          <span>Total Paid:</span>
+          <span>${money(totalAmount)}</span>
+        </div>
+      </div>
+      ` : `
       <div class="details">
         <h3>Payment Breakdown</h3>
         <div class="row">
           <span>Service Amount:</span>
-          <span>$${baseAmount.toFixed(2)}</span>
+          <span>${money(baseAmount - taxAmount - lateFeeAmount)}</span>
+        </div>
+        ${lateFeeAmount > 0 ? `
+        <div class="row">
+          <span>Late Fee:</span>
+          <span>${money(lateFeeAmount)}</span>
         </div>
+        ` : ''}
+        ${taxAmount > 0 ? `
+        <div class="row">
+          <span>Sales Tax:</span>
+          <span>${money(taxAmount)}</span>
+        </div>
+        ` : ''}
+        ${tipAmount > 0 ? `
+        <div class="row">
+          <span>Tip:</span>
+          <span>${money(tipAmount)}</span>
+        </div>
+        ` : ''}
         <div class="row">
           <span>Processing Fee:</span>
-          <span>$${platformFee.toFixed(2)}</span>
+          <span>${money(platformFee)}</span>
         </div>
         <div class="row total">
           <span>Total Paid:</span>
-          <span>$${totalAmount.toFixed(2)}</span>
+          <span>${money(totalAmount)}</span>
+        </div>
+      </div>
+      `}
+
+      ${showHistory ? `
+      <div class="details">
+        <h3>Payment History</h3>
+        ${payments.map(payment => `
+        <div class="row">
+          <span>${payment.paid_at ? new Date(payment.paid_at).toLocaleDateString() : 'Pending'} · ${payment.payment_method === 'manual'
+            ? MANUAL_METHOD_LABELS[payment.manual_method ?? 'other'] || 'Manual'
+            : payment.payment_method === 'credit' ? MANUAL_METHOD_LABELS.credit
+            : payment.stripe_payment_method_type === 'us_bank_account' ? 'Bank transfer' : 'Card'}</span>
+          <span>${money(appliedAmount(payment) / 100)}</span>
+        </div>
+        `).join('')}
+        <div class="row">
+          <span>Job Total:</span>
+          <span>${money(Number(job.price))}</span>
+        </div>
+        <div class="row total">
+          <span>Remaining Balance:</span>
+          <span>${money(remainingBalance)}</span>
         </div>
       </div>
+      ` : ''}
+
+      ${creditBalance > 0 ? `
+      <div class="details">
+        <div class="row">
+          <span>Account Credit Remaining:</span>
+          <span>${money(creditBalance / 100)}</span>
+        </div>
+        <p class="note">Your credit is applied automatically to your next invoice.</p>
+      </div>
+      ` : ''}
 
       <div class="footer">
         <p>Thank you for your payment!</p>
-        <p>Receipt ID: ${receiptData.sessionId}</p>
+        <p>Receipt ID: ${escapeHtml(receiptData.sessionId || receiptData.paymentId)}</p>
         <p>Generated on ${new Date().toLocaleDateString()}</p>
       </div>
     </body>
@@ -115,8 +347,78 @@ serve(async (req) => {
       throw new Error("Job not found");
     }
 
+    // Receipts reference the job's invoice number; jobs paid without one get their own invoice
+    const { data: invoice, error: invoiceError } = await supabase
+      .rpc('ensure_job_invoice', { target_job_id: receiptData.jobId });
+
+    if (invoiceError) {
+      console.error("Error assigning invoice to job:", invoiceError);
+    }
+
+    // Get every payment on the job for the history and remaining balance
+    const { data: payments, error: paymentsError } = await supabase
+      .from('payments')
+      .select('id, amount, base_amount, refunded_base_amount, tax_amount, tip_amount, payment_method, manual_method, stripe_payment_method_type, paid_at')
+      .eq('job_id', receiptData.jobId)
+      .in('payment_status', ['paid', 'partially_refunded'])
+      .order('paid_at', { ascending: true });
+
+    if (paymentsError) {
+      console.error("Error fetching payment history:", paymentsError);
+    }
+
+    // Get line items for an itemized receipt
+    const { data: lineItems, error: lineItemsError } = await supabase
+      .from('job_line_items')
+      .select('description, quantity, unit_price, tax_amount, tax_rates(name, percentage)')
+      .eq('job_id', receiptData.jobId)
+      .order('position', { ascending: true });
+
+    if (lineItemsError) {
+      console.error("Error fetching line items:", lineItemsError);
+    }
+
+    // Get discounts so they show as their own lines under the items
+    const { data: discounts, error: discountsError } = await supabase
+      .from('job_discounts')
+      .select('label, amount')
+      .eq('job_id', receiptData.jobId)
+      .gt('amount', 0)
+      .order('kind', { ascending: true });
+
+    if (discountsError) {
+      console.error("Error fetching job discounts:", discountsError);
+    }
+
+    // Get late fees so they show as their own lines
+    const { data: lateFees, error: lateFeesError } = await supabase
+      .from('job_late_fees')
+      .select('amount, applied_at')
+      .eq('job_id', receiptData.jobId)
+      .order('period', { ascending: true });
+
+    if (lateFeesError) {
+      console.error("Error fetching late fees:", lateFeesError);
+    }
+
+    // Credit the client still holds after this payment, in cents
+    let creditBalance = 0;
+    if (job.client_id) {
+      const { data: balance, error: creditError } = await supabase
+        .rpc('client_credit_balance', {
+          target_client_id: job.client_id,
+          target_company_id: job.company_id,
+          target_currency: job.currency || 'usd',
+        });
+
+      if (creditError) {
+        console.error("Error fetching client credit balance:", creditError);
+      }
+      creditBalance = balance ?? 0;
+    }
+
     // Generate receipt HTML
-    const receiptHTML = generateReceiptHTML(job, receiptData);
+    const receiptHTML = generateReceiptHTML(job, receiptData, payments || [], lineItems || [], discounts || [], lateFees || [], invoice?.invoice_number ?? null, creditBalance);
     
     // Store receipt in database for future access
     const receiptId = crypto.randomUUID();
@@ -125,8 +427,10 @@ serve(async (req) => {
       .insert({
         id: receiptId,
         job_id: receiptData.jobId,
-        session_id: receiptData.sessionId,
+        session_id: receiptData.sessionId ?? null,
+        payment_id: receiptData.paymentId ?? null,
         amount_paid: receiptData.amountPaid,
+        currency: job.currency || 'usd',
         receipt_html: receiptHTML,
         created_at: new Date().toISOString()
       });
@@ -0,0 +1,97 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Errors are returned with a 200 and success: false so the payment pages can show the message
+const jsonResponse = (body: unknown) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status: 200,
+  });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // The Checkout session id is unguessable, so it doubles as the customer's access token
+    const { sessionId } = await req.json();
+
+    if (!sessionId || typeof sessionId !== 'string' || !sessionId.startsWith('cs_')) {
+      return jsonResponse({ success: false, error: "A valid checkout session is required" });
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const { data: payment, error: paymentError } = await supabase
+      .from('payments')
+      .select('job_id, amount, currency, paid_at, payment_status')
+      .eq('stripe_session_id', sessionId)
+      .maybeSingle();
+
+    if (paymentError) {
+      console.error("Error fetching payment:", paymentError);
+      throw new Error("Failed to look up your payment");
+    }
+
+    // The webhook records the payment a few seconds after Stripe redirects, so the page polls until then
+    if (!payment?.job_id) {
+      return jsonResponse({ success: true, status: 'processing' });
+    }
+
+    // Bank debits are recorded at checkout but take a few business days to clear
+    if (payment.payment_status === 'processing') {
+      return jsonResponse({ success: true, status: 'bank_processing' });
+    }
+
+    const [{ data: job }, { data: receipt }] = await Promise.all([
+      supabase
+        .from('jobs')
+        .select('title, job_name, client_name, status, company_id, public_token')
+        .eq('id', payment.job_id)
+        .single(),
+      supabase
+        .from('receipts')
+        .select('id, receipt_html, created_at')
+        .eq('session_id', sessionId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+    ]);
+
+    const { data: branding } = job
+      ? await supabase
+        .from('company_branding')
+        .select('business_name, logo_url, brand_color')
+        .eq('company_id', job.company_id)
+        .maybeSingle()
+      : { data: null };
+
+    return jsonResponse({
+      success: true,
+      status: 'paid',
+      payment: {
+        amount: payment.amount / 100,
+        currency: payment.currency,
+        paid_at: payment.paid_at,
+        job_title: job ? job.job_name || job.title : null,
+        client_name: job?.client_name ?? null,
+        job_status: job?.status ?? null,
+        invoice_token: job?.public_token ?? null,
+      },
+      receipt: receipt ?? null,
+      branding: branding ?? null,
+    });
+  } catch (error) {
+    console.error("Error in payment-confirmation function:", error);
+    return jsonResponse({ success: false, error: error.message || "Internal server error" });
+  }
+});
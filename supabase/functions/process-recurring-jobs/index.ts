@@ -1,11 +1,89 @@
 
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+interface AutopayJob {
+  id: string
+  title: string
+  job_name: string | null
+  price: number
+  currency: string
+  phone_number: string | null
+  public_token: string
+  clients: { name: string; phone: string | null } | null
+  payments: { amount: number; base_amount: number | null; refunded_base_amount: number; payment_status: string }[]
+}
+
+// Charges the client's saved card for a finished occurrence. When the charge fails the job is
+// flagged and the client is texted a payment link instead, so the balance can still be collected.
+// attemptId is the date the run processes, so a repeated run doesn't charge the occurrence twice
+const chargeSavedCard = async (
+  supabase: SupabaseClient,
+  job: AutopayJob,
+  siteUrl: string | undefined,
+  attemptId: string
+) => {
+  const { data: charge, error: chargeError } = await supabase.functions.invoke('create-checkout', {
+    body: { jobId: job.id, offSession: true, attemptId, applyCredit: true },
+  })
+
+  if (!chargeError && charge?.success) {
+    console.log(charge.paidWithCredit
+      ? `Paid job ${job.id} with account credit`
+      : `Charged saved card for job ${job.id}: ${charge.paymentIntentId}`)
+    return true
+  }
+
+  const reason = chargeError?.message || charge?.error || 'Charge failed'
+  console.error(`Automatic charge failed for job ${job.id}:`, reason)
+
+  await supabase
+    .from('jobs')
+    .update({ autopay_failed_at: new Date().toISOString(), autopay_error: reason })
+    .eq('id', job.id)
+
+  if (!siteUrl) {
+    console.warn('SITE_URL not configured, cannot send a fallback payment link')
+    return false
+  }
+
+  const { data: checkout, error: checkoutError } = await supabase.functions.invoke('create-checkout', {
+    body: { jobId: job.id },
+    headers: { origin: siteUrl },
+  })
+
+  if (checkoutError || !checkout?.success) {
+    console.error(`Failed to create fallback payment link for job ${job.id}:`, checkoutError || checkout?.error)
+    return false
+  }
+
+  const paidInCents = (job.payments || [])
+    .filter(p => p.payment_status === 'paid' || p.payment_status === 'partially_refunded')
+    .reduce((sum, p) => sum + Math.max((p.base_amount ?? p.amount) - (p.refunded_base_amount || 0), 0), 0)
+  const balance = Number(job.price) - paidInCents / 100
+
+  const phoneNumber = job.phone_number || job.clients?.phone
+  if (phoneNumber) {
+    const { error: smsError } = await supabase.functions.invoke('send-sms', {
+      body: {
+        phoneNumber,
+        message: `Hi ${job.clients?.name || 'there'}! We couldn't charge your card on file for "${job.job_name || job.title}" (${new Intl.NumberFormat('en-US', { style: 'currency', currency: (job.currency || 'usd').toUpperCase() }).format(balance)}). Please pay here: ${siteUrl}/pay/${job.public_token}`,
+        jobId: job.id,
+      },
+    })
+
+    if (smsError) {
+      console.error(`Failed to text fallback payment link for job ${job.id}:`, smsError)
+    }
+  }
+
+  return false
+}
+
 Deno.serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -17,6 +95,8 @@ Deno.serve(async (req) => {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
     
+    const siteUrl = Deno.env.get('SITE_URL')
+    
     const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
     // Calculate yesterday's date
@@ -26,8 +106,34 @@ Deno.serve(async (req) => {
 
     console.log(`Processing recurring jobs for date: ${yesterdayStr}`)
 
+    // Unpaid occurrences are charged to the client's saved card once the work is marked completed,
+    // and only once: a failed charge is left to the payment link sent in its place
+    const { data: autopayJobs, error: autopayFetchError } = await supabase
+      .from('jobs')
+      .select('*, clients!inner(name, phone, autopay_enabled, stripe_payment_method_id), payments(amount, base_amount, refunded_base_amount, payment_status)')
+      .eq('is_recurring', true)
+      .in('status', ['pending', 'partially_paid'])
+      .not('completed_at', 'is', null)
+      .is('autopay_failed_at', null)
+      .lt('scheduled_date', `${yesterdayStr}T23:59:59`)
+      .eq('clients.autopay_enabled', true)
+      .not('clients.stripe_payment_method_id', 'is', null)
+
+    if (autopayFetchError) {
+      throw autopayFetchError
+    }
+
+    const chargedJobs = []
+    for (const job of autopayJobs || []) {
+      if (await chargeSavedCard(supabase, job, siteUrl, yesterdayStr)) {
+        chargedJobs.push(job)
+      }
+    }
+
+    console.log(`Charged ${chargedJobs.length} of ${autopayJobs?.length || 0} occurrences to saved cards`)
+
     // Find recurring jobs that were scheduled yesterday and are paid/completed
-    const { data: recurringJobs, error: fetchError } = await supabase
+    const { data: settledJobs, error: fetchError } = await supabase
       .from('jobs')
       .select('*')
       .eq('is_recurring', true)
@@ -39,6 +145,16 @@ Deno.serve(async (req) => {
       throw fetchError
     }
 
+    // Charged jobs are marked paid by the webhook, which may not have run yet. Only yesterday's
+    // occurrences are repeated, like the settled ones above
+    const recurringJobs = [
+      ...(settledJobs || []),
+      ...chargedJobs
+        .filter(charged => String(charged.scheduled_date).startsWith(yesterdayStr))
+        .filter(charged => !(settledJobs || []).some(job => job.id === charged.id))
+        .map(({ clients, payments, ...job }) => job),
+    ]
+
     console.log(`Found ${recurringJobs?.length || 0} recurring jobs to process`)
 
     if (!recurringJobs || recurringJobs.length === 0) {
@@ -71,15 +187,34 @@ Deno.serve(async (req) => {
           nextScheduledDate.setDate(nextScheduledDate.getDate() + 7)
       }
 
+      // Keep the same payment terms: the new due date sits as far after the new date as before
+      let nextDueDate = null
+      if (job.due_date && job.scheduled_date) {
+        const termsInMs = new Date(job.due_date).getTime() - new Date(job.scheduled_date).getTime()
+        nextDueDate = new Date(nextScheduledDate.getTime() + termsInMs).toISOString().split('T')[0]
+      }
+
       return {
         title: job.title,
-        price: job.price,
+        // Late fees belong to the overdue occurrence, so the next one starts from the price without them
+        price: Math.round((Number(job.price) - (Number(job.late_fee_amount) || 0)) * 100) / 100,
+        tax_amount: job.tax_amount,
+        tax_rate_id: job.tax_rate_id,
         description: job.description,
         scheduled_date: nextScheduledDate.toISOString(),
+        due_date: nextDueDate,
         is_recurring: true,
         frequency: job.frequency || 'weekly',
+        allow_bank_payment: job.allow_bank_payment,
+        crew_member: job.crew_member,
+        currency: job.currency,
         status: 'pending',
         client_id: job.client_id,
+        // Carried over so the next occurrence belongs to the company and can be charged or texted
+        company_id: job.company_id,
+        job_name: job.job_name,
+        client_name: job.client_name,
+        phone_number: job.phone_number,
         stripe_checkout_url: null, // Reset checkout URL for new job
       }
     })
@@ -96,10 +231,66 @@ Deno.serve(async (req) => {
 
     console.log(`Successfully created ${insertedJobs?.length || 0} new recurring jobs`)
 
+    // Carry each job's line items over to its next occurrence
+    const { data: lineItems, error: lineItemsError } = await supabase
+      .from('job_line_items')
+      .select('job_id, description, quantity, unit_price, taxable, tax_rate_id, tax_amount, position')
+      .in('job_id', recurringJobs.map(job => job.id))
+
+    if (lineItemsError) {
+      throw lineItemsError
+    }
+
+    const newLineItems = (insertedJobs || []).flatMap((insertedJob, index) =>
+      (lineItems || [])
+        .filter(item => item.job_id === recurringJobs[index].id)
+        .map(({ job_id, ...item }) => ({ ...item, job_id: insertedJob.id }))
+    )
+
+    if (newLineItems.length > 0) {
+      const { error: lineItemsInsertError } = await supabase
+        .from('job_line_items')
+        .insert(newLineItems)
+
+      if (lineItemsInsertError) {
+        throw lineItemsInsertError
+      }
+    }
+
+    // Standing client discounts carry over to each occurrence; a one-off code doesn't, so an occurrence
+    // copied from a discounted job without one is repriced back to the full amount
+    const clientIds = [...new Set((insertedJobs || []).map(job => job.client_id).filter(Boolean))]
+    const { data: discountedClients, error: clientsError } = clientIds.length > 0
+      ? await supabase.from('clients').select('id').in('id', clientIds).not('discount_percentage', 'is', null)
+      : { data: [], error: null }
+
+    if (clientsError) {
+      throw clientsError
+    }
+
+    for (const [index, insertedJob] of (insertedJobs || []).entries()) {
+      if ((discountedClients || []).some(client => client.id === insertedJob.client_id)) {
+        const { error: discountError } = await supabase
+          .from('job_discounts')
+          .insert({ job_id: insertedJob.id, company_id: insertedJob.company_id, kind: 'client' })
+
+        if (discountError) {
+          console.error(`Failed to apply client discount to job ${insertedJob.id}:`, discountError)
+        }
+      } else if (Number(recurringJobs[index].discount_amount) > 0) {
+        const { error: repriceError } = await supabase.rpc('reprice_job', { target_job_id: insertedJob.id })
+
+        if (repriceError) {
+          console.error(`Failed to reprice job ${insertedJob.id}:`, repriceError)
+        }
+      }
+    }
+
     return new Response(
       JSON.stringify({ 
         message: `Processed ${recurringJobs.length} recurring jobs, created ${insertedJobs?.length || 0} new jobs`,
         processedJobs: recurringJobs.length,
+        chargedJobs: chargedJobs.length,
         createdJobs: insertedJobs?.length || 0
       }),
       { 
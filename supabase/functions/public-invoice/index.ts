@@ -0,0 +1,315 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import Stripe from "https://esm.sh/stripe@14.21.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const MANUAL_METHOD_LABELS: Record<string, string> = {
+  cash: 'Cash',
+  check: 'Check',
+  zelle: 'Zelle',
+  other: 'Other',
+};
+
+// Jobs that can still take a payment from the invoice page
+const PAYABLE_STATUSES = ['pending', 'partially_paid'];
+
+// Existing sessions this close to expiring are replaced rather than handed out
+const SESSION_EXPIRY_MARGIN_MS = 10 * 60 * 1000;
+
+// Errors are returned with a 200 and success: false so the invoice page can show the message
+const jsonResponse = (body: unknown) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status: 200,
+  });
+
+interface PaymentRow {
+  amount: number;
+  base_amount: number | null;
+  refunded_base_amount: number | null;
+  payment_method: string | null;
+  manual_method: string | null;
+  stripe_payment_method_type: string | null;
+  paid_at: string | null;
+}
+
+// Portion of a payment applied to the job price, in cents (excludes processing fees)
+const appliedAmount = (payment: PaymentRow) =>
+  Math.max((payment.base_amount ?? payment.amount) - (payment.refunded_base_amount || 0), 0);
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // action is omitted to just load the invoice, or 'pay' with paymentType 'deposit' | 'balance',
+    // optionally paymentMethod 'us_bank_account' and a tip in dollars. Without any of them, 'pay'
+    // reuses the job's current checkout link while it is still live. 'apply_discount' redeems a
+    // discount code before anything has been paid.
+    const { token, action, paymentType, paymentMethod, tip, code } = await req.json();
+
+    if (!token) {
+      return jsonResponse({ success: false, error: "Invoice token is required" });
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const { data: job, error: jobError } = await supabase
+      .from('jobs')
+      .select('*, invoices(id, invoice_number, status)')
+      .eq('public_token', token)
+      .maybeSingle();
+
+    if (jobError) {
+      console.error("Error fetching job:", jobError);
+      throw new Error("Failed to load invoice");
+    }
+
+    if (!job) {
+      return jsonResponse({ success: false, error: "Invoice not found" });
+    }
+
+    const { data: payments, error: paymentsError } = await supabase
+      .from('payments')
+      .select('amount, base_amount, refunded_base_amount, payment_method, manual_method, stripe_payment_method_type, paid_at')
+      .eq('job_id', job.id)
+      .in('payment_status', ['paid', 'partially_refunded'])
+      .order('paid_at', { ascending: true });
+
+    if (paymentsError) {
+      console.error("Error fetching payments:", paymentsError);
+    }
+
+    const amountPaid = (payments || []).reduce((sum, payment) => sum + appliedAmount(payment), 0) / 100;
+    const balance = Math.max(Math.round((Number(job.price) - amountPaid) * 100) / 100, 0);
+    const canPay = PAYABLE_STATUSES.includes(job.status) && balance > 0;
+    // A requested deposit is offered until the first payment comes in
+    const depositAmount = job.deposit_type && amountPaid === 0
+      ? job.deposit_type === 'percentage'
+        ? Math.round(Number(job.price) * Number(job.deposit_value)) / 100
+        : Number(job.deposit_value)
+      : null;
+
+    const { data: billingSettings } = await supabase
+      .from('company_billing_settings')
+      .select('bank_payments_enabled, bank_payment_min_amount, tips_enabled')
+      .eq('company_id', job.company_id)
+      .maybeSingle();
+
+    // Mirrors the check in create-checkout so the page only offers bank payment where it will work
+    const bankPaymentAvailable = canPay && job.currency === 'usd' && Boolean(billingSettings?.bank_payments_enabled) && (
+      job.allow_bank_payment ||
+      (billingSettings?.bank_payment_min_amount != null && Number(job.price) >= Number(billingSettings.bank_payment_min_amount))
+    );
+    const tipsEnabled = canPay && Boolean(billingSettings?.tips_enabled);
+
+    const { data: discounts, error: discountsError } = await supabase
+      .from('job_discounts')
+      .select('kind, label, amount')
+      .eq('job_id', job.id)
+      .order('kind', { ascending: true });
+
+    if (discountsError) {
+      console.error("Error fetching job discounts:", discountsError);
+    }
+
+    // Discounts come off the line items, so a job priced without them can't take a code
+    const { count: lineItemCount } = await supabase
+      .from('job_line_items')
+      .select('id', { count: 'exact', head: true })
+      .eq('job_id', job.id);
+
+    // One code per job, redeemed before any payment; the database enforces the same
+    const canApplyDiscount = canPay && job.status === 'pending' && amountPaid === 0 && (lineItemCount ?? 0) > 0 &&
+      !(discounts || []).some((discount) => discount.kind === 'code');
+
+    if (action === 'apply_discount') {
+      if (!canApplyDiscount) {
+        return jsonResponse({ success: false, error: "A discount code can't be added to this invoice" });
+      }
+
+      const { data: discountCode } = await supabase
+        .from('discount_codes')
+        .select('id')
+        .eq('company_id', job.company_id)
+        .eq('code', String(code ?? '').trim().toUpperCase())
+        .maybeSingle();
+
+      if (!discountCode) {
+        return jsonResponse({ success: false, error: "This discount code is not valid" });
+      }
+
+      // The insert trigger checks the code's window and limits and reprices the job
+      const { error: applyError } = await supabase
+        .from('job_discounts')
+        .insert({ job_id: job.id, company_id: job.company_id, kind: 'code', discount_code_id: discountCode.id });
+
+      if (applyError) {
+        console.error("Error applying discount code:", applyError);
+        return jsonResponse({ success: false, error: applyError.message || "The discount code could not be applied" });
+      }
+
+      // Repricing drops the link built for the old price, and the session behind it is closed so it can't be paid
+      const stripeSecretKey = Deno.env.get("STRIPE_SECRET_KEY");
+      if (job.stripe_session_id && stripeSecretKey) {
+        const stripe = new Stripe(stripeSecretKey, { apiVersion: "2023-10-16" });
+        try {
+          await stripe.checkout.sessions.expire(
+            job.stripe_session_id,
+            {},
+            job.stripe_session_account_id ? { stripeAccount: job.stripe_session_account_id } : undefined
+          );
+        } catch (expireError) {
+          console.log("Could not expire checkout session:", job.stripe_session_id, expireError.message);
+        }
+      }
+
+      return jsonResponse({ success: true });
+    }
+
+    if (action === 'pay') {
+      if (!canPay) {
+        return jsonResponse({ success: false, error: "This invoice has nothing left to pay" });
+      }
+
+      if (tip && !tipsEnabled) {
+        return jsonResponse({ success: false, error: "Tips aren't accepted on this invoice" });
+      }
+
+      // A live link was built before any credit the client now holds, so credit always gets a fresh session
+      const { data: creditBalance } = job.client_id
+        ? await supabase.rpc('client_credit_balance', {
+          target_client_id: job.client_id,
+          target_company_id: job.company_id,
+          target_currency: job.currency,
+        })
+        : { data: 0 };
+
+      if (!paymentType && !paymentMethod && !tip && !(creditBalance > 0) && job.payment_url && job.payment_url_expires_at &&
+        new Date(job.payment_url_expires_at).getTime() - Date.now() > SESSION_EXPIRY_MARGIN_MS) {
+        return jsonResponse({ success: true, url: job.payment_url });
+      }
+
+      // A stale link is replaced with a fresh session for whatever it was collecting
+      const payDeposit = (paymentType ?? 'deposit') === 'deposit' && depositAmount != null && depositAmount < balance;
+      const { data: checkout, error: checkoutError } = await supabase.functions.invoke('create-checkout', {
+        body: {
+          jobId: job.id,
+          deposit: payDeposit ? { type: job.deposit_type, value: Number(job.deposit_value) } : undefined,
+          paymentMethod: paymentMethod ?? 'card',
+          tip: tip || undefined,
+          applyCredit: true,
+        },
+        headers: { origin: req.headers.get("origin") ?? "" },
+      });
+
+      if (checkoutError || !checkout?.success) {
+        console.error("Error creating checkout from invoice page:", checkoutError || checkout?.error);
+        return jsonResponse({ success: false, error: checkout?.error || "Payment is unavailable right now, please try again later" });
+      }
+
+      if (checkout.paidWithCredit) {
+        return jsonResponse({ success: true, paid_with_credit: true });
+      }
+
+      return jsonResponse({ success: true, url: checkout.url });
+    }
+
+    // Record that the client opened the invoice
+    const now = new Date().toISOString();
+    const { error: viewError } = await supabase
+      .from('jobs')
+      .update({ viewed_at: job.viewed_at ?? now, last_viewed_at: now })
+      .eq('id', job.id);
+
+    if (viewError) {
+      console.error("Error recording invoice view:", viewError);
+    }
+
+    if (job.invoices?.status === 'sent') {
+      await supabase
+        .from('invoices')
+        .update({ status: 'viewed', viewed_at: now })
+        .eq('id', job.invoices.id)
+        .eq('status', 'sent');
+    }
+
+    const [{ data: lineItems }, { data: lateFees }, { data: branding }] = await Promise.all([
+      supabase
+        .from('job_line_items')
+        .select('description, quantity, unit_price, tax_amount')
+        .eq('job_id', job.id)
+        .order('position', { ascending: true }),
+      supabase
+        .from('job_late_fees')
+        .select('amount, applied_at')
+        .eq('job_id', job.id)
+        .order('period', { ascending: true }),
+      supabase
+        .from('company_branding')
+        .select('business_name, logo_url, brand_color, contact_email, contact_phone, website')
+        .eq('company_id', job.company_id)
+        .maybeSingle(),
+    ]);
+
+    return jsonResponse({
+      success: true,
+      invoice: {
+        invoice_number: job.invoices?.invoice_number ?? null,
+        title: job.job_name || job.title,
+        description: job.description,
+        client_name: job.client_name,
+        scheduled_date: job.scheduled_date,
+        due_date: job.due_date,
+        status: job.status,
+        currency: job.currency,
+        price: Number(job.price),
+        tax_amount: Number(job.tax_amount) || 0,
+        late_fee_amount: Number(job.late_fee_amount) || 0,
+        discount_amount: Number(job.discount_amount) || 0,
+        amount_paid: amountPaid,
+        balance,
+        can_pay: canPay,
+        bank_payment_available: bankPaymentAvailable,
+        tips_enabled: tipsEnabled,
+        deposit_amount: depositAmount != null && depositAmount < balance ? depositAmount : null,
+        can_apply_discount: canApplyDiscount,
+        line_items: (lineItems || []).map((item) => ({
+          description: item.description,
+          quantity: Number(item.quantity),
+          unit_price: Number(item.unit_price),
+        })),
+        discounts: (discounts || [])
+          .filter((discount) => Number(discount.amount) > 0)
+          .map((discount) => ({
+            label: discount.label,
+            amount: Number(discount.amount),
+          })),
+        late_fees: (lateFees || []).map((fee) => ({
+          amount: Number(fee.amount),
+          applied_at: fee.applied_at,
+        })),
+        payments: (payments || []).map((payment) => ({
+          paid_at: payment.paid_at,
+          method: payment.payment_method === 'manual'
+            ? MANUAL_METHOD_LABELS[payment.manual_method ?? 'other'] || 'Manual'
+            : payment.payment_method === 'credit' ? 'Account credit'
+            : payment.stripe_payment_method_type === 'us_bank_account' ? 'Bank transfer' : 'Card',
+          amount: appliedAmount(payment) / 100,
+        })),
+      },
+      branding: branding ?? null,
+    });
+  } catch (error) {
+    console.error("Error in public-invoice function:", error);
+    return jsonResponse({ success: false, error: error.message || "Internal server error" });
+  }
+});
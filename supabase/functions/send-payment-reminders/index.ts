@@ -0,0 +1,255 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Adds days to a YYYY-MM-DD date in UTC
+const addDays = (date: string, days: number) => {
+  const result = new Date(`${date}T00:00:00Z`)
+  result.setUTCDate(result.getUTCDate() + days)
+  return result.toISOString().split('T')[0]
+}
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / (24 * 60 * 60 * 1000))
+
+const renderTemplate = (template: string, values: Record<string, string>) =>
+  template.replace(/\{(\w+)\}/g, (match, key) => values[key] ?? match)
+
+// Mirrors send-sms: use Resend when configured, otherwise log the email so nothing is lost
+const sendEmail = async (to: string, subject: string, text: string) => {
+  const resendApiKey = Deno.env.get('RESEND_API_KEY')
+  const fromEmail = Deno.env.get('REMINDER_FROM_EMAIL')
+
+  if (!resendApiKey || !fromEmail) {
+    console.log('=== EMAIL FALLBACK (No API keys configured) ===')
+    console.log(`To: ${to}`)
+    console.log(`Subject: ${subject}`)
+    console.log(`Body: ${text}`)
+    console.log('=== END EMAIL FALLBACK ===')
+    return
+  }
+
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${resendApiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ from: fromEmail, to, subject, text }),
+  })
+
+  if (!response.ok) {
+    const responseData = await response.json().catch(() => ({}))
+    throw new Error(`Resend error: ${responseData.message || response.statusText}`)
+  }
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Create Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const siteUrl = Deno.env.get('SITE_URL')
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const today = new Date().toISOString().split('T')[0]
+
+    console.log(`Sending payment reminders for date: ${today}`)
+
+    const { data: companies, error: companiesError } = await supabase
+      .from('company_billing_settings')
+      .select('company_id')
+      .eq('reminders_enabled', true)
+
+    if (companiesError) {
+      throw companiesError
+    }
+
+    let sent = 0
+    let failed = 0
+
+    for (const { company_id: companyId } of companies || []) {
+      const { data: steps, error: stepsError } = await supabase
+        .from('payment_reminder_steps')
+        .select('*')
+        .eq('company_id', companyId)
+        .eq('active', true)
+        .order('days_from_due', { ascending: true })
+
+      if (stepsError) {
+        throw stepsError
+      }
+
+      if (!steps || steps.length === 0) {
+        continue
+      }
+
+      // Only unpaid jobs are chased, so reminders stop as soon as the webhook marks a job paid
+      const { data: jobs, error: jobsError } = await supabase
+        .from('jobs')
+        .select(`
+          id,
+          title,
+          job_name,
+          price,
+          currency,
+          due_date,
+          phone_number,
+          payment_url,
+          stripe_checkout_url,
+          public_token,
+          clients (
+            name,
+            email,
+            phone
+          ),
+          payments (
+            amount,
+            base_amount,
+            refunded_base_amount,
+            payment_status
+          ),
+          job_reminders (
+            days_from_due,
+            channel
+          )
+        `)
+        .eq('company_id', companyId)
+        .in('status', ['pending', 'partially_paid'])
+        .lte('due_date', addDays(today, -steps[0].days_from_due))
+
+      if (jobsError) {
+        throw jobsError
+      }
+
+      for (const job of jobs || []) {
+        // Send the latest step that has come due; earlier steps missed by a skipped run aren't replayed
+        const step = [...steps].reverse().find(s => addDays(job.due_date, s.days_from_due) <= today)
+        if (!step) {
+          continue
+        }
+
+        const paidInCents = (job.payments || [])
+          .filter(p => p.payment_status === 'paid' || p.payment_status === 'partially_refunded')
+          .reduce((sum, p) => sum + Math.max((p.base_amount ?? p.amount) - (p.refunded_base_amount || 0), 0), 0)
+        const amountDue = Math.max(Number(job.price) - paidInCents / 100, 0)
+
+        if (amountDue <= 0) {
+          continue
+        }
+
+        const values = {
+          client_name: job.clients?.name || 'there',
+          job_title: job.job_name || job.title,
+          // Formatted with its symbol in the job's currency, so templates don't write one
+          amount_due: new Intl.NumberFormat('en-US', { style: 'currency', currency: (job.currency || 'usd').toUpperCase() }).format(amountDue),
+          due_date: job.due_date,
+          days_overdue: String(Math.max(daysBetween(job.due_date, today), 0)),
+          // Goes through our redirect so an expired Checkout session is replaced when the client taps it
+          payment_link: siteUrl
+            ? `${siteUrl}/pay/${job.public_token}`
+            : job.payment_url || job.stripe_checkout_url || '',
+        }
+
+        const channels = [
+          { channel: 'sms', enabled: step.send_sms, recipient: job.phone_number || job.clients?.phone },
+          { channel: 'email', enabled: step.send_email, recipient: job.clients?.email },
+        ]
+
+        for (const { channel, enabled, recipient } of channels) {
+          const alreadySent = (job.job_reminders || []).some(
+            r => r.days_from_due === step.days_from_due && r.channel === channel
+          )
+          if (!enabled || !recipient || alreadySent) {
+            continue
+          }
+
+          // Claim the step before sending so overlapping runs can't send it twice
+          const { data: reminder, error: claimError } = await supabase
+            .from('job_reminders')
+            .insert({
+              job_id: job.id,
+              company_id: companyId,
+              days_from_due: step.days_from_due,
+              channel,
+              recipient,
+              status: 'sent',
+            })
+            .select('id')
+            .single()
+
+          if (claimError) {
+            if (claimError.code === '23505') {
+              continue
+            }
+            throw claimError
+          }
+
+          try {
+            if (channel === 'sms') {
+              const { error: smsError } = await supabase.functions.invoke('send-sms', {
+                body: {
+                  phoneNumber: recipient,
+                  message: renderTemplate(step.sms_template, values),
+                  jobId: job.id,
+                },
+              })
+              if (smsError) {
+                throw smsError
+              }
+            } else {
+              await sendEmail(
+                recipient,
+                renderTemplate(step.email_subject, values),
+                renderTemplate(step.email_template, values)
+              )
+            }
+
+            console.log(`Sent ${channel} reminder for job ${job.id} (${step.days_from_due} days from due)`)
+            sent++
+          } catch (sendError) {
+            console.error(`Failed to send ${channel} reminder for job ${job.id}:`, sendError)
+            failed++
+
+            await supabase
+              .from('job_reminders')
+              .update({ status: 'failed', error_message: sendError.message })
+              .eq('id', reminder.id)
+          }
+        }
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        message: `Sent ${sent} payment reminders, ${failed} failed`,
+        sentReminders: sent,
+        failedReminders: failed
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    )
+
+  } catch (error) {
+    console.error('Error sending payment reminders:', error)
+
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500
+      }
+    )
+  }
+})
@@ -0,0 +1,207 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import Stripe from "https://esm.sh/stripe@14.21.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, authorization, x-client-info, apikey",
+  "Access-Control-Max-Age": "86400",
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+const PAYOUTS_PER_PAGE = 10;
+
+const CHARGE_TYPES = ["charge", "payment"];
+const REFUND_TYPES = ["refund", "payment_refund", "payment_failure_refund"];
+
+interface MatchedPayment {
+  id: string;
+  job_id: string;
+  jobs: {
+    title: string;
+    job_name: string | null;
+    company_id: string;
+    clients: { name: string } | null;
+  };
+}
+
+// Charges, refunds and disputes all carry the payment intent they belong to, which is what
+// payments are keyed on; anything else in a payout (adjustments, Stripe fees) has none
+const getPaymentIntentId = (transaction: Stripe.BalanceTransaction): string | null => {
+  const source = transaction.source;
+  if (!source || typeof source === "string") return null;
+
+  const paymentIntent = (source as { payment_intent?: string | { id: string } | null }).payment_intent;
+  if (!paymentIntent) return null;
+  return typeof paymentIntent === "string" ? paymentIntent : paymentIntent.id;
+};
+
+const getKind = (type: string) =>
+  CHARGE_TYPES.includes(type) ? "charge" : REFUND_TYPES.includes(type) ? "refund" : "other";
+
+// Lists recent payouts on the company's connected account with the balance transactions each one
+// settled, matched to the jobs and payments they came from so owners can reconcile bank deposits
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      headers: corsHeaders,
+      status: 200
+    });
+  }
+
+  try {
+    const stripeSecretKey = Deno.env.get("STRIPE_SECRET_KEY");
+    if (!stripeSecretKey) {
+      console.error("STRIPE_SECRET_KEY not found in environment");
+      return jsonResponse({
+        success: false,
+        error: "Stripe configuration missing. Please add your Stripe secret key to edge function secrets."
+      });
+    }
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      console.error("No authorization header provided");
+      return jsonResponse({ success: false, error: "No authorization header provided" }, 401);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: userData, error: userError } = await supabaseAdmin.auth.getUser(token);
+
+    if (userError || !userData.user) {
+      console.error("User authentication error:", userError);
+      return jsonResponse({ success: false, error: "User not authenticated" }, 401);
+    }
+
+    // startingAfter is the last payout ID of the previous page
+    let startingAfter: string | undefined;
+    try {
+      ({ startingAfter } = await req.json());
+    } catch {
+      startingAfter = undefined;
+    }
+
+    const { data: profile, error: profileError } = await supabaseAdmin
+      .from('profiles')
+      .select('company_id, stripe_account_id')
+      .eq('id', userData.user.id)
+      .single();
+
+    if (profileError || !profile?.company_id) {
+      console.error("Error fetching user profile:", profileError);
+      return jsonResponse({ success: false, error: "User profile not found" });
+    }
+
+    if (!profile.stripe_account_id) {
+      return jsonResponse({ success: true, connected: false, payouts: [], has_more: false });
+    }
+
+    const stripe = new Stripe(stripeSecretKey, {
+      apiVersion: "2023-10-16",
+    });
+    const accountOptions = { stripeAccount: profile.stripe_account_id };
+
+    const payouts = await stripe.payouts.list(
+      { limit: PAYOUTS_PER_PAGE, ...(startingAfter ? { starting_after: startingAfter } : {}) },
+      accountOptions
+    );
+
+    const transactionsByPayout = new Map<string, Stripe.BalanceTransaction[]>();
+    for (const payout of payouts.data) {
+      // Stripe only itemizes automatic payouts; a manual payout draws on the balance as a whole
+      if (!payout.automatic) continue;
+
+      const transactions = await stripe.balanceTransactions
+        .list({ payout: payout.id, limit: 100, expand: ["data.source"] }, accountOptions)
+        .autoPagingToArray({ limit: 1000 });
+
+      // The payout's own withdrawal shows up in its transaction list; it is the total, not a line
+      transactionsByPayout.set(payout.id, transactions.filter(({ type }) => type !== "payout"));
+    }
+
+    const paymentIntentIds = Array.from(new Set(
+      Array.from(transactionsByPayout.values())
+        .flat()
+        .map(getPaymentIntentId)
+        .filter((id): id is string => Boolean(id))
+    ));
+
+    const paymentsByIntent = new Map<string, MatchedPayment>();
+    if (paymentIntentIds.length > 0) {
+      const { data: payments, error: paymentsError } = await supabaseAdmin
+        .from('payments')
+        .select('id, job_id, stripe_payment_intent_id, jobs!inner(title, job_name, company_id, clients(name))')
+        .in('stripe_payment_intent_id', paymentIntentIds)
+        .eq('jobs.company_id', profile.company_id);
+
+      if (paymentsError) {
+        console.error("Error fetching payments for payouts:", paymentsError);
+        return jsonResponse({ success: false, error: "Failed to match payouts to payments" });
+      }
+
+      (payments ?? []).forEach((payment) => {
+        paymentsByIntent.set(payment.stripe_payment_intent_id, payment as unknown as MatchedPayment);
+      });
+    }
+
+    const result = payouts.data.map((payout) => {
+      const items = (transactionsByPayout.get(payout.id) ?? []).map((transaction) => {
+        const paymentIntentId = getPaymentIntentId(transaction);
+        const payment = paymentIntentId ? paymentsByIntent.get(paymentIntentId) : undefined;
+
+        return {
+          id: transaction.id,
+          type: transaction.type,
+          kind: getKind(transaction.type),
+          amount: transaction.amount,
+          fee: transaction.fee,
+          net: transaction.net,
+          description: transaction.description,
+          created: new Date(transaction.created * 1000).toISOString(),
+          payment_id: payment?.id ?? null,
+          job_id: payment?.job_id ?? null,
+          job_title: payment ? payment.jobs.job_name || payment.jobs.title : null,
+          client_name: payment?.jobs.clients?.name ?? null,
+          matched: Boolean(payment),
+        };
+      });
+
+      const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+      return {
+        id: payout.id,
+        amount: payout.amount,
+        currency: payout.currency,
+        status: payout.status,
+        arrival_date: new Date(payout.arrival_date * 1000).toISOString(),
+        automatic: payout.automatic,
+        items,
+        totals: {
+          gross: sum(items.filter(({ kind }) => kind === "charge").map(({ amount }) => amount)),
+          refunds: sum(items.filter(({ kind }) => kind === "refund").map(({ amount }) => amount)),
+          fees: sum(items.map(({ fee }) => fee)),
+          net: sum(items.map(({ net }) => net)),
+        },
+        unmatched_count: items.filter(({ matched }) => !matched).length,
+      };
+    });
+
+    console.log("Fetched payouts for company:", profile.company_id, result.length);
+    return jsonResponse({ success: true, connected: true, payouts: result, has_more: payouts.has_more });
+  } catch (error) {
+    console.error("Error in stripe-payouts function:", error);
+    return jsonResponse({ success: false, error: error.message || "Internal server error" });
+  }
+});
@@ -1,13 +1,758 @@
 
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@14.21.0";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// Maximum number of failed events replayed in a single request
+const REPLAY_BATCH_LIMIT = 50;
+
+// An event still 'processing' after this long belongs to a run that crashed or timed out, so it is
+// picked up again by Stripe's retries and by replay
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+const isStaleProcessing = (storedEvent: { status: string; updated_at: string }) =>
+  storedEvent.status === 'processing' &&
+  Date.now() - new Date(storedEvent.updated_at).getTime() > STALE_PROCESSING_MS;
+
+// Marks a stored event as processing, unless another run changed it since it was read
+const claimStoredEvent = async (
+  supabaseAdmin: SupabaseClient,
+  storedEvent: { id: string; status: string; updated_at: string },
+  attempts: number
+) => {
+  const { data: claimed, error } = await supabaseAdmin
+    .from('stripe_webhook_events')
+    .update({ status: 'processing', attempts })
+    .eq('id', storedEvent.id)
+    .eq('status', storedEvent.status)
+    .eq('updated_at', storedEvent.updated_at)
+    .select('id');
+
+  if (error) {
+    console.error("Error claiming webhook event:", storedEvent.id, error);
+    return false;
+  }
+
+  return (claimed || []).length > 0;
+};
+
+// Refunds come off the whole charge, so only the job price's share of them reopens the balance
+const refundedBaseAmount = (payment: { amount: number; base_amount: number | null }, refundedAmount: number) =>
+  payment.base_amount === null
+    ? refundedAmount
+    : Math.min(Math.round(refundedAmount * payment.base_amount / payment.amount), payment.base_amount);
+
+// Account credit held by create-checkout is spent only once the Stripe payment it was paired with settles
+const settleHeldCredit = async (supabaseAdmin: SupabaseClient, creditPaymentId?: string) => {
+  if (!creditPaymentId) {
+    return;
+  }
+
+  const { error } = await supabaseAdmin
+    .from('payments')
+    .update({ payment_status: 'paid', paid_at: new Date().toISOString() })
+    .eq('id', creditPaymentId)
+    .eq('payment_method', 'credit')
+    .eq('payment_status', 'pending');
+
+  if (error) {
+    console.error("Error settling held client credit:", error);
+    throw new Error("Failed to settle held client credit");
+  }
+};
+
+// Returns held credit to the client when the payment it was paired with never happens
+const releaseHeldCredit = async (supabaseAdmin: SupabaseClient, creditPaymentId?: string) => {
+  if (!creditPaymentId) {
+    return;
+  }
+
+  const { error } = await supabaseAdmin
+    .from('payments')
+    .update({ payment_status: 'failed' })
+    .eq('id', creditPaymentId)
+    .eq('payment_method', 'credit')
+    .eq('payment_status', 'pending');
+
+  if (error) {
+    console.error("Error releasing held client credit:", error);
+    throw new Error("Failed to release held client credit");
+  }
+};
+
+interface StripePaymentDetails {
+  jobId: string;
+  amountTotal: number;
+  currency: string;
+  metadata: Stripe.Metadata | null;
+  paymentIntentId: string | null;
+  sessionId: string | null;
+  account: string | undefined;
+  // Bank debits are recorded as 'processing' at checkout and settled once the funds clear
+  status: 'paid' | 'processing';
+}
+
+// Records a Stripe payment against its job; shared by Checkout payments and off-session charges
+const recordStripePayment = async (
+  stripe: Stripe,
+  supabaseAdmin: SupabaseClient,
+  details: StripePaymentDetails
+) => {
+  const { jobId, paymentIntentId } = details;
+  const settled = details.status === 'paid';
+
+  // Look up the payment intent so we know whether the card was saved
+  let cardSaved = false;
+  let savedPaymentMethod: Stripe.PaymentMethod | null = null;
+  if (paymentIntentId && settled) {
+    try {
+      const paymentIntent = await stripe.paymentIntents.retrieve(
+        paymentIntentId,
+        { expand: ['payment_method'] },
+        details.account ? { stripeAccount: details.account } : undefined
+      );
+      cardSaved = Boolean(paymentIntent.setup_future_usage);
+      if (cardSaved && paymentIntent.payment_method && typeof paymentIntent.payment_method === "object") {
+        savedPaymentMethod = paymentIntent.payment_method;
+      }
+    } catch (intentError) {
+      console.error("Error retrieving payment intent:", intentError);
+    }
+  }
+
+  // Metadata amounts are stored in dollars by create-checkout
+  const toCents = (value?: string) => {
+    const parsed = parseFloat(value ?? "");
+    return isNaN(parsed) ? null : Math.round(parsed * 100);
+  };
+
+  // Record the payment so Payments and Revenue reflect what Stripe collected
+  const { data: payment, error: paymentInsertError } = await supabaseAdmin
+    .from('payments')
+    .upsert({
+      job_id: jobId,
+      amount: details.amountTotal,
+      base_amount: toCents(details.metadata?.base_price),
+      platform_fee: toCents(details.metadata?.platform_fee),
+      tax_amount: toCents(details.metadata?.tax_amount) ?? 0,
+      tip_amount: toCents(details.metadata?.tip_amount) ?? 0,
+      currency: details.currency,
+      payment_status: details.status,
+      payment_method: 'stripe',
+      stripe_payment_method_type: details.metadata?.payment_method === 'us_bank_account' ? 'us_bank_account' : 'card',
+      card_saved: cardSaved,
+      stripe_payment_intent_id: paymentIntentId,
+      stripe_session_id: details.sessionId,
+      stripe_account_id: details.account ?? null,
+      paid_at: settled ? new Date().toISOString() : null
+    }, { onConflict: details.sessionId ? 'stripe_session_id' : 'stripe_payment_intent_id' })
+    .select('id')
+    .single();
+
+  if (paymentInsertError) {
+    console.error("Error recording payment:", paymentInsertError);
+    throw new Error("Failed to record payment");
+  }
+
+  console.log(`Recorded ${details.status} payment for job:`, jobId);
+
+  if (settled) {
+    await settleHeldCredit(supabaseAdmin, details.metadata?.credit_payment_id);
+  }
+
+  // Deposits leave a balance, so only mark the job paid once payments cover the price
+  const { data: job, error: jobFetchError } = await supabaseAdmin
+    .from('jobs')
+    .select('price, client_id')
+    .eq('id', jobId)
+    .single();
+
+  if (jobFetchError || !job) {
+    console.error("Error fetching job:", jobFetchError);
+    throw new Error("Failed to fetch job");
+  }
+
+  const { data: jobPayments, error: jobPaymentsError } = await supabaseAdmin
+    .from('payments')
+    .select('amount, base_amount, refunded_base_amount')
+    .eq('job_id', jobId)
+    .in('payment_status', ['paid', 'partially_refunded']);
+
+  if (jobPaymentsError) {
+    console.error("Error fetching job payments:", jobPaymentsError);
+    throw new Error("Failed to fetch job payments");
+  }
+
+  const amountPaidInCents = (jobPayments || []).reduce(
+    (sum, jobPayment) => sum + Math.max((jobPayment.base_amount ?? jobPayment.amount) - (jobPayment.refunded_base_amount || 0), 0),
+    0
+  );
+  const fullyPaid = amountPaidInCents >= Math.round(job.price * 100);
+  const jobStatus = !settled ? 'processing' : fullyPaid ? 'paid' : 'partially_paid';
+
+  // Clear the used checkout link so a fresh one can be generated for any balance
+  const { error: jobUpdateError } = await supabaseAdmin
+    .from('jobs')
+    .update({
+      status: jobStatus,
+      paid_at: jobStatus === 'paid' ? new Date().toISOString() : null,
+      payment_url: null,
+      stripe_checkout_url: null,
+      stripe_session_id: null,
+      payment_url_expires_at: null,
+      autopay_failed_at: null,
+      autopay_error: null
+    })
+    .eq('id', jobId);
+
+  if (jobUpdateError) {
+    console.error("Error updating job status:", jobUpdateError);
+    throw new Error("Failed to update job status");
+  }
+
+  console.log(`Updated job ${jobId} to ${jobStatus} (${amountPaidInCents} cents paid)`);
+
+  // The receipt waits until the bank debit clears
+  if (!settled) {
+    return;
+  }
+
+  // Cards saved through Checkout become the client's card for automatic recurring charges
+  if (savedPaymentMethod?.card && job.client_id) {
+    const { error: clientUpdateError } = await supabaseAdmin
+      .from('clients')
+      .update({
+        stripe_payment_method_id: savedPaymentMethod.id,
+        card_brand: savedPaymentMethod.card.brand,
+        card_last4: savedPaymentMethod.card.last4,
+        autopay_enabled: true
+      })
+      .eq('id', job.client_id);
+
+    if (clientUpdateError) {
+      console.error("Error saving card on client:", clientUpdateError);
+    } else {
+      console.log("Saved card on client for automatic charges:", job.client_id);
+    }
+  }
+
+  // Trigger receipt generation
+  try {
+    console.log("Triggering receipt generation for job:", jobId);
+    const receiptResponse = await fetch(
+      `${Deno.env.get("SUPABASE_URL")}/functions/v1/generate-receipt`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+        },
+        body: JSON.stringify({
+          jobId: jobId,
+          sessionId: details.sessionId ?? undefined,
+          paymentId: payment.id,
+          amountPaid: details.amountTotal,
+          paymentDate: new Date().toISOString()
+        })
+      }
+    );
+
+    if (!receiptResponse.ok) {
+      console.error("Failed to generate receipt:", await receiptResponse.text());
+    } else {
+      console.log("Receipt generation triggered successfully");
+    }
+  } catch (receiptError) {
+    console.error("Error triggering receipt generation:", receiptError);
+    // Don't fail the webhook if receipt generation fails
+  }
+};
+
+const handleCheckoutSessionCompleted = async (
+  stripe: Stripe,
+  supabaseAdmin: SupabaseClient,
+  event: Stripe.Event
+) => {
+  const session = event.data.object as Stripe.Checkout.Session;
+
+  console.log("Processing checkout session:", session.id);
+  console.log("Session metadata:", session.metadata);
+
+  const jobId = session.metadata?.job_id;
+  if (!jobId) {
+    console.error("No job_id found in session metadata");
+    throw new Error("No job_id in metadata");
+  }
+
+  const paymentIntentId = typeof session.payment_intent === "string"
+    ? session.payment_intent
+    : session.payment_intent?.id ?? null;
+
+  await recordStripePayment(stripe, supabaseAdmin, {
+    jobId,
+    amountTotal: session.amount_total ?? 0,
+    currency: session.currency ?? 'usd',
+    metadata: session.metadata,
+    paymentIntentId,
+    sessionId: session.id,
+    account: event.account,
+    // Card payments are paid on completion; bank debits complete as 'unpaid' until the funds clear
+    status: session.payment_status === 'unpaid' ? 'processing' : 'paid',
+  });
+};
+
+// A bank debit cleared; settle the payment recorded when checkout completed
+const handleCheckoutSessionAsyncPaymentSucceeded = async (
+  stripe: Stripe,
+  supabaseAdmin: SupabaseClient,
+  event: Stripe.Event
+) => {
+  const session = event.data.object as Stripe.Checkout.Session;
+
+  console.log("Processing cleared bank payment for session:", session.id);
+
+  const jobId = session.metadata?.job_id;
+  if (!jobId) {
+    console.error("No job_id found in session metadata");
+    throw new Error("No job_id in metadata");
+  }
+
+  const paymentIntentId = typeof session.payment_intent === "string"
+    ? session.payment_intent
+    : session.payment_intent?.id ?? null;
+
+  await recordStripePayment(stripe, supabaseAdmin, {
+    jobId,
+    amountTotal: session.amount_total ?? 0,
+    currency: session.currency ?? 'usd',
+    metadata: session.metadata,
+    paymentIntentId,
+    sessionId: session.id,
+    account: event.account,
+    status: 'paid',
+  });
+};
+
+// A bank debit bounced; fail the payment and reopen the job for payment
+const handleCheckoutSessionAsyncPaymentFailed = async (
+  supabaseAdmin: SupabaseClient,
+  event: Stripe.Event
+) => {
+  const session = event.data.object as Stripe.Checkout.Session;
+
+  console.log("Processing failed bank payment for session:", session.id);
+
+  const jobId = session.metadata?.job_id;
+  if (!jobId) {
+    console.error("No job_id found in session metadata");
+    throw new Error("No job_id in metadata");
+  }
+
+  const { error: paymentUpdateError } = await supabaseAdmin
+    .from('payments')
+    .update({ payment_status: 'failed' })
+    .eq('stripe_session_id', session.id);
+
+  if (paymentUpdateError) {
+    console.error("Error marking payment failed:", paymentUpdateError);
+    throw new Error("Failed to mark payment failed");
+  }
+
+  await releaseHeldCredit(supabaseAdmin, session.metadata?.credit_payment_id);
+
+  const { data: jobPayments, error: jobPaymentsError } = await supabaseAdmin
+    .from('payments')
+    .select('amount, base_amount, refunded_base_amount')
+    .eq('job_id', jobId)
+    .in('payment_status', ['paid', 'partially_refunded']);
+
+  if (jobPaymentsError) {
+    console.error("Error fetching job payments:", jobPaymentsError);
+    throw new Error("Failed to fetch job payments");
+  }
+
+  const amountPaidInCents = (jobPayments || []).reduce(
+    (sum, jobPayment) => sum + Math.max((jobPayment.base_amount ?? jobPayment.amount) - (jobPayment.refunded_base_amount || 0), 0),
+    0
+  );
+  const jobStatus = amountPaidInCents > 0 ? 'partially_paid' : 'pending';
+
+  const { error: jobUpdateError } = await supabaseAdmin
+    .from('jobs')
+    .update({ status: jobStatus })
+    .eq('id', jobId)
+    .eq('status', 'processing');
+
+  if (jobUpdateError) {
+    console.error("Error updating job status:", jobUpdateError);
+    throw new Error("Failed to update job status");
+  }
+
+  console.log(`Bank payment failed; job ${jobId} is back to ${jobStatus}`);
+};
+
+// Off-session charges of saved cards have no Checkout session, so they are recorded from the intent
+const handlePaymentIntentSucceeded = async (
+  stripe: Stripe,
+  supabaseAdmin: SupabaseClient,
+  event: Stripe.Event
+) => {
+  const paymentIntent = event.data.object as Stripe.PaymentIntent;
+
+  // Checkout payments are recorded from checkout.session.completed
+  if (paymentIntent.metadata?.off_session !== 'true') {
+    console.log("Ignoring payment intent created by Checkout:", paymentIntent.id);
+    return;
+  }
+
+  const jobId = paymentIntent.metadata?.job_id;
+  if (!jobId) {
+    console.error("No job_id found in payment intent metadata");
+    throw new Error("No job_id in metadata");
+  }
+
+  await recordStripePayment(stripe, supabaseAdmin, {
+    jobId,
+    amountTotal: paymentIntent.amount_received,
+    currency: paymentIntent.currency,
+    metadata: paymentIntent.metadata,
+    paymentIntentId: paymentIntent.id,
+    sessionId: null,
+    account: event.account,
+    status: 'paid',
+  });
+};
+
+const handleChargeRefunded = async (
+  stripe: Stripe,
+  supabaseAdmin: SupabaseClient,
+  event: Stripe.Event
+) => {
+  const charge = event.data.object as Stripe.Charge;
+  const paymentIntentId = typeof charge.payment_intent === "string"
+    ? charge.payment_intent
+    : charge.payment_intent?.id ?? null;
+
+  console.log("Processing refunded charge:", charge.id, "amount refunded:", charge.amount_refunded);
+
+  if (!paymentIntentId) {
+    throw new Error("Refunded charge has no payment intent");
+  }
+
+  const { data: payment, error: paymentError } = await supabaseAdmin
+    .from('payments')
+    .select('id, job_id, amount, base_amount')
+    .eq('stripe_payment_intent_id', paymentIntentId)
+    .maybeSingle();
+
+  if (paymentError) {
+    console.error("Error fetching payment for refund:", paymentError);
+    throw new Error("Failed to fetch payment for refund");
+  }
+
+  if (!payment) {
+    console.log("No payment recorded for payment intent, ignoring refund:", paymentIntentId);
+    return;
+  }
+
+  // Charges no longer embed refunds, so list them to record each one
+  const refunds = await stripe.refunds.list(
+    { charge: charge.id, limit: 100 },
+    event.account ? { stripeAccount: event.account } : undefined
+  );
+
+  for (const refund of refunds.data) {
+    const { error: refundUpsertError } = await supabaseAdmin
+      .from('refunds')
+      .upsert({
+        job_id: payment.job_id,
+        payment_id: payment.id,
+        stripe_refund_id: refund.id,
+        amount: refund.amount,
+        status: refund.status ?? 'pending',
+        reason: refund.metadata?.reason || refund.reason || null
+      }, { onConflict: 'stripe_refund_id' });
+
+    if (refundUpsertError) {
+      console.error("Error recording refund:", refundUpsertError);
+      throw new Error("Failed to record refund");
+    }
+  }
+
+  // Stripe's running total is authoritative, so retries stay idempotent
+  const fullyRefunded = charge.refunded || charge.amount_refunded >= payment.amount;
+  const refundStatus = fullyRefunded ? 'refunded' : 'partially_refunded';
+
+  const { error: paymentUpdateError } = await supabaseAdmin
+    .from('payments')
+    .update({
+      refunded_amount: charge.amount_refunded,
+      refunded_base_amount: refundedBaseAmount(payment, charge.amount_refunded),
+      payment_status: refundStatus
+    })
+    .eq('id', payment.id);
+
+  if (paymentUpdateError) {
+    console.error("Error updating payment refund totals:", paymentUpdateError);
+    throw new Error("Failed to update payment refund totals");
+  }
+
+  // Other payments on the job may still stand, so the job is only refunded once none of them do
+  const { data: jobPayments, error: jobPaymentsError } = await supabaseAdmin
+    .from('payments')
+    .select('amount, base_amount, refunded_base_amount')
+    .eq('job_id', payment.job_id)
+    .in('payment_status', ['paid', 'partially_refunded']);
+
+  if (jobPaymentsError) {
+    console.error("Error fetching job payments:", jobPaymentsError);
+    throw new Error("Failed to fetch job payments");
+  }
+
+  const amountKeptInCents = (jobPayments || []).reduce(
+    (sum, jobPayment) => sum + Math.max((jobPayment.base_amount ?? jobPayment.amount) - (jobPayment.refunded_base_amount || 0), 0),
+    0
+  );
+  const jobStatus = amountKeptInCents > 0 ? 'partially_refunded' : 'refunded';
+
+  const { error: jobUpdateError } = await supabaseAdmin
+    .from('jobs')
+    .update({ status: jobStatus })
+    .eq('id', payment.job_id);
+
+  if (jobUpdateError) {
+    console.error("Error updating job refund status:", jobUpdateError);
+    throw new Error("Failed to update job refund status");
+  }
+
+  console.log("Recorded refund for job:", payment.job_id, jobStatus);
+};
+
+const handleChargeDispute = async (supabaseAdmin: SupabaseClient, event: Stripe.Event) => {
+  const dispute = event.data.object as Stripe.Dispute;
+  const paymentIntentId = typeof dispute.payment_intent === "string"
+    ? dispute.payment_intent
+    : dispute.payment_intent?.id ?? null;
+  const chargeId = typeof dispute.charge === "string" ? dispute.charge : dispute.charge?.id ?? null;
+
+  console.log("Processing dispute:", dispute.id, event.type, dispute.status);
+
+  if (!paymentIntentId) {
+    throw new Error("Dispute has no payment intent");
+  }
+
+  const { data: payment, error: paymentError } = await supabaseAdmin
+    .from('payments')
+    .select('id, job_id')
+    .eq('stripe_payment_intent_id', paymentIntentId)
+    .maybeSingle();
+
+  if (paymentError) {
+    console.error("Error fetching payment for dispute:", paymentError);
+    throw new Error("Failed to fetch payment for dispute");
+  }
+
+  if (!payment) {
+    console.log("No payment recorded for payment intent, ignoring dispute:", paymentIntentId);
+    return;
+  }
+
+  const evidenceDueBy = dispute.evidence_details?.due_by
+    ? new Date(dispute.evidence_details.due_by * 1000).toISOString()
+    : null;
+
+  const { error: disputeUpsertError } = await supabaseAdmin
+    .from('disputes')
+    .upsert({
+      job_id: payment.job_id,
+      payment_id: payment.id,
+      stripe_dispute_id: dispute.id,
+      stripe_charge_id: chargeId,
+      amount: dispute.amount,
+      reason: dispute.reason,
+      status: dispute.status,
+      evidence_due_by: evidenceDueBy,
+      ...(event.type === "charge.dispute.closed" ? { closed_at: new Date().toISOString() } : {})
+    }, { onConflict: 'stripe_dispute_id' });
+
+  if (disputeUpsertError) {
+    console.error("Error recording dispute:", disputeUpsertError);
+    throw new Error("Failed to record dispute");
+  }
+
+  console.log("Recorded dispute for job:", payment.job_id, dispute.status);
+};
+
+// Sessions usually expire on schedule, but can also be expired early from the Stripe dashboard or API
+const handleCheckoutSessionExpired = async (
+  supabaseAdmin: SupabaseClient,
+  event: Stripe.Event
+) => {
+  const session = event.data.object as Stripe.Checkout.Session;
+
+  await releaseHeldCredit(supabaseAdmin, session.metadata?.credit_payment_id);
+
+  // Only the job's current link is marked stale; a newer session may already have replaced it
+  const { data: jobs, error: jobUpdateError } = await supabaseAdmin
+    .from('jobs')
+    .update({ payment_url_expires_at: new Date(event.created * 1000).toISOString() })
+    .eq('stripe_session_id', session.id)
+    .select('id');
+
+  if (jobUpdateError) {
+    console.error("Error marking payment link expired:", jobUpdateError);
+    throw new Error("Failed to mark payment link expired");
+  }
+
+  if (!jobs || jobs.length === 0) {
+    console.log("Expired session is no longer a job's current link:", session.id);
+    return;
+  }
+
+  console.log("Marked payment link expired for job:", jobs[0].id);
+};
+
+const processEvent = async (stripe: Stripe, supabaseAdmin: SupabaseClient, event: Stripe.Event) => {
+  switch (event.type) {
+    case "checkout.session.completed":
+      await handleCheckoutSessionCompleted(stripe, supabaseAdmin, event);
+      break;
+    case "checkout.session.async_payment_succeeded":
+      await handleCheckoutSessionAsyncPaymentSucceeded(stripe, supabaseAdmin, event);
+      break;
+    case "checkout.session.async_payment_failed":
+      await handleCheckoutSessionAsyncPaymentFailed(supabaseAdmin, event);
+      break;
+    case "payment_intent.succeeded":
+      await handlePaymentIntentSucceeded(stripe, supabaseAdmin, event);
+      break;
+    case "checkout.session.expired":
+      await handleCheckoutSessionExpired(supabaseAdmin, event);
+      break;
+    case "charge.refunded":
+      await handleChargeRefunded(stripe, supabaseAdmin, event);
+      break;
+    case "charge.dispute.created":
+    case "charge.dispute.updated":
+    case "charge.dispute.closed":
+      await handleChargeDispute(supabaseAdmin, event);
+      break;
+    default:
+      console.log("Ignoring unhandled event type:", event.type);
+  }
+};
+
+// Runs an event through processEvent and records the outcome in the event log
+const runLoggedEvent = async (
+  stripe: Stripe,
+  supabaseAdmin: SupabaseClient,
+  event: Stripe.Event,
+  attempts: number
+) => {
+  try {
+    await processEvent(stripe, supabaseAdmin, event);
+
+    await supabaseAdmin
+      .from('stripe_webhook_events')
+      .update({
+        status: 'processed',
+        error: null,
+        attempts,
+        processed_at: new Date().toISOString()
+      })
+      .eq('id', event.id);
+
+    console.log("Processed webhook event:", event.id);
+    return { success: true };
+  } catch (error) {
+    console.error("Error processing webhook event:", event.id, error);
+
+    await supabaseAdmin
+      .from('stripe_webhook_events')
+      .update({
+        status: 'failed',
+        error: error.message || "Unknown error",
+        attempts
+      })
+      .eq('id', event.id);
+
+    return { success: false, error: error.message || "Unknown error" };
+  }
+};
+
+// Service role only: re-run failed and stuck events stored in the event log. The log spans every
+// company, so no user account may replay it
+const handleReplay = async (req: Request, stripe: Stripe, supabaseAdmin: SupabaseClient) => {
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+  if (!token || token !== Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) {
+    console.error("Replay attempted without the service role key");
+    return new Response(
+      JSON.stringify({ success: false, error: "Service role access required" }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 403,
+      }
+    );
+  }
+
+  let eventId: string | undefined;
+  try {
+    ({ eventId } = await req.json());
+  } catch {
+    // No body means replay every failed or stuck event
+  }
+
+  const staleBefore = new Date(Date.now() - STALE_PROCESSING_MS).toISOString();
+  let query = supabaseAdmin
+    .from('stripe_webhook_events')
+    .select('id, payload, attempts, status, updated_at')
+    .or(`status.eq.failed,and(status.eq.processing,updated_at.lt.${staleBefore})`)
+    .order('created_at', { ascending: true })
+    .limit(REPLAY_BATCH_LIMIT);
+
+  if (eventId) {
+    query = query.eq('id', eventId);
+  }
+
+  const { data: failedEvents, error: fetchError } = await query;
+  if (fetchError) {
+    throw fetchError;
+  }
+
+  console.log(`Replaying ${failedEvents?.length || 0} failed or stuck webhook events`);
+
+  const results = [];
+  for (const storedEvent of failedEvents || []) {
+    const attempts = (storedEvent.attempts || 0) + 1;
+
+    // A Stripe retry may have picked the event up since it was listed
+    if (!(await claimStoredEvent(supabaseAdmin, storedEvent, attempts))) {
+      continue;
+    }
+
+    const result = await runLoggedEvent(stripe, supabaseAdmin, storedEvent.payload as Stripe.Event, attempts);
+    results.push({ eventId: storedEvent.id, ...result });
+  }
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      replayed: results.length,
+      failed: results.filter(result => !result.success).length,
+      results
+    }),
+    {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    }
+  );
+};
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
@@ -15,12 +760,6 @@ serve(async (req) => {
   }
 
   try {
-    const signature = req.headers.get("stripe-signature");
-    if (!signature) {
-      throw new Error("No Stripe signature found");
-    }
-
-    const body = await req.text();
     const stripeSecretKey = Deno.env.get("STRIPE_SECRET_KEY");
     const webhookSecret = Deno.env.get("STRIPE_WEBHOOK_SECRET");
 
@@ -33,8 +772,25 @@ serve(async (req) => {
       apiVersion: "2023-10-16",
     });
 
+    // Initialize Supabase client with service role key
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    if (new URL(req.url).pathname.endsWith("/replay")) {
+      return await handleReplay(req, stripe, supabaseAdmin);
+    }
+
+    const signature = req.headers.get("stripe-signature");
+    if (!signature) {
+      throw new Error("No Stripe signature found");
+    }
+
+    const body = await req.text();
+
     // Verify webhook signature
-    let event;
+    let event: Stripe.Event;
     try {
       event = stripe.webhooks.constructEvent(body, signature, webhookSecret);
     } catch (err) {
@@ -42,76 +798,73 @@ serve(async (req) => {
       return new Response("Webhook signature verification failed", { status: 400 });
     }
 
-    console.log("Received webhook event:", event.type);
+    console.log("Received webhook event:", event.type, event.id);
 
-    // Handle checkout.session.completed event
-    if (event.type === "checkout.session.completed") {
-      const session = event.data.object as Stripe.Checkout.Session;
-      
-      console.log("Processing checkout session:", session.id);
-      console.log("Session metadata:", session.metadata);
+    // De-duplicate Stripe retries by event id
+    const { data: storedEvent, error: storedEventError } = await supabaseAdmin
+      .from('stripe_webhook_events')
+      .select('id, status, attempts, updated_at')
+      .eq('id', event.id)
+      .maybeSingle();
 
-      const jobId = session.metadata?.job_id;
-      if (!jobId) {
-        console.error("No job_id found in session metadata");
-        return new Response("No job_id in metadata", { status: 400 });
-      }
+    if (storedEventError) {
+      console.error("Error reading webhook event log:", storedEventError);
+      throw new Error("Failed to read webhook event log");
+    }
 
-      // Initialize Supabase client with service role key
-      const supabaseAdmin = createClient(
-        Deno.env.get("SUPABASE_URL") ?? "",
-        Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
-      );
+    if (storedEvent && (storedEvent.status === 'processed' ||
+      (storedEvent.status === 'processing' && !isStaleProcessing(storedEvent)))) {
+      console.log("Skipping duplicate webhook event:", event.id, storedEvent.status);
+      return new Response(JSON.stringify({ received: true, duplicate: true }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      });
+    }
 
-      // Update job status to paid and set paid_at timestamp
-      const { data: updatedJob, error: jobUpdateError } = await supabaseAdmin
-        .from('jobs')
-        .update({ 
-          status: 'paid',
-          paid_at: new Date().toISOString()
-        })
-        .eq('id', jobId)
-        .select('*')
-        .single();
+    const attempts = (storedEvent?.attempts || 0) + 1;
+
+    if (storedEvent) {
+      // Another delivery of the same event may have claimed it since it was read
+      if (!(await claimStoredEvent(supabaseAdmin, storedEvent, attempts))) {
+        console.log("Webhook event already being processed:", event.id);
+        return new Response(JSON.stringify({ received: true, duplicate: true }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 200,
+        });
+      }
+    } else {
+      const { error: insertError } = await supabaseAdmin
+        .from('stripe_webhook_events')
+        .insert({
+          id: event.id,
+          type: event.type,
+          stripe_account_id: event.account ?? null,
+          payload: event,
+          status: 'processing',
+          attempts
+        });
 
-      if (jobUpdateError) {
-        console.error("Error updating job status:", jobUpdateError);
-        throw new Error("Failed to update job status");
+      // A concurrent delivery of the same event already claimed it
+      if (insertError?.code === '23505') {
+        console.log("Webhook event already being processed:", event.id);
+        return new Response(JSON.stringify({ received: true, duplicate: true }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 200,
+        });
       }
 
-      console.log("Updated job status to paid for job:", jobId);
-
-      // Trigger receipt generation
-      try {
-        console.log("Triggering receipt generation for job:", jobId);
-        const receiptResponse = await fetch(
-          `${Deno.env.get("SUPABASE_URL")}/functions/v1/generate-receipt`,
-          {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
-            },
-            body: JSON.stringify({
-              jobId: jobId,
-              sessionId: session.id,
-              amountPaid: session.amount_total,
-              paymentDate: new Date().toISOString()
-            })
-          }
-        );
-
-        if (!receiptResponse.ok) {
-          console.error("Failed to generate receipt:", await receiptResponse.text());
-        } else {
-          console.log("Receipt generation triggered successfully");
-        }
-      } catch (receiptError) {
-        console.error("Error triggering receipt generation:", receiptError);
-        // Don't fail the webhook if receipt generation fails
+      if (insertError) {
+        console.error("Error storing webhook event:", insertError);
+        throw new Error("Failed to store webhook event");
       }
     }
 
+    const result = await runLoggedEvent(stripe, supabaseAdmin, event, attempts);
+    if (!result.success) {
+      // Let Stripe retry; the event stays available for replay as well
+      throw new Error(result.error);
+    }
+
     return new Response(JSON.stringify({ received: true }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
       status: 200,
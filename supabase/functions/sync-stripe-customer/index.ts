@@ -0,0 +1,114 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import Stripe from "https://esm.sh/stripe@14.21.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, authorization, x-client-info, apikey",
+  "Access-Control-Max-Age": "86400",
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+// Pushes a client's name, email and phone to its Stripe Customer after the client is edited
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      headers: corsHeaders,
+      status: 200
+    });
+  }
+
+  try {
+    const stripeSecretKey = Deno.env.get("STRIPE_SECRET_KEY");
+    if (!stripeSecretKey) {
+      console.error("STRIPE_SECRET_KEY not found in environment");
+      return jsonResponse({
+        success: false,
+        error: "Stripe configuration missing. Please add your Stripe secret key to edge function secrets."
+      });
+    }
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      console.error("No authorization header provided");
+      return jsonResponse({ success: false, error: "No authorization header provided" }, 401);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: userData, error: userError } = await supabaseAdmin.auth.getUser(token);
+
+    if (userError || !userData.user) {
+      console.error("User authentication error:", userError);
+      return jsonResponse({ success: false, error: "User not authenticated" }, 401);
+    }
+
+    const { clientId } = await req.json();
+    if (!clientId) {
+      return jsonResponse({ success: false, error: "Client ID is required" });
+    }
+
+    const { data: profile, error: profileError } = await supabaseAdmin
+      .from('profiles')
+      .select('company_id')
+      .eq('id', userData.user.id)
+      .single();
+
+    if (profileError || !profile?.company_id) {
+      console.error("Error fetching user profile:", profileError);
+      return jsonResponse({ success: false, error: "User profile not found" });
+    }
+
+    const { data: client, error: clientError } = await supabaseAdmin
+      .from('clients')
+      .select('id, company_id, name, email, phone, stripe_customer_id, stripe_account_id')
+      .eq('id', clientId)
+      .single();
+
+    if (clientError || !client) {
+      console.error("Error fetching client:", clientError);
+      return jsonResponse({ success: false, error: "Client not found" });
+    }
+
+    if (client.company_id !== profile.company_id) {
+      console.error("User does not belong to the client's company:", userData.user.email, clientId);
+      return jsonResponse({ success: false, error: "You can only update your own company's clients" }, 403);
+    }
+
+    // The customer is created on the client's first online payment; nothing to sync before then
+    if (!client.stripe_customer_id) {
+      return jsonResponse({ success: true, synced: false });
+    }
+
+    const stripe = new Stripe(stripeSecretKey, {
+      apiVersion: "2023-10-16",
+    });
+
+    await stripe.customers.update(
+      client.stripe_customer_id,
+      {
+        name: client.name,
+        email: client.email || "",
+        phone: client.phone || "",
+      },
+      client.stripe_account_id ? { stripeAccount: client.stripe_account_id } : undefined
+    );
+
+    console.log("Synced Stripe customer for client:", client.id, client.stripe_customer_id);
+    return jsonResponse({ success: true, synced: true });
+  } catch (error) {
+    console.error("Error in sync-stripe-customer function:", error);
+    return jsonResponse({ success: false, error: error.message || "Internal server error" });
+  }
+});
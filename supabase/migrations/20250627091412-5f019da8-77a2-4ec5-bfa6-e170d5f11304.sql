@@ -0,0 +1,15 @@
+
+-- Add the columns the Stripe webhook needs to record a full payment
+ALTER TABLE public.payments
+ADD COLUMN IF NOT EXISTS stripe_payment_intent_id TEXT,
+ADD COLUMN IF NOT EXISTS stripe_session_id TEXT,
+ADD COLUMN IF NOT EXISTS base_amount INTEGER, -- stored in cents
+ADD COLUMN IF NOT EXISTS platform_fee INTEGER; -- stored in cents
+
+-- Amounts are stored in cents everywhere the app reads them
+ALTER TABLE public.payments
+ALTER COLUMN amount TYPE INTEGER USING ROUND(amount)::INTEGER;
+
+-- One payment row per checkout session so webhook retries don't duplicate revenue
+CREATE UNIQUE INDEX IF NOT EXISTS payments_stripe_session_id_idx ON public.payments(stripe_session_id);
+CREATE INDEX IF NOT EXISTS payments_stripe_payment_intent_id_idx ON public.payments(stripe_payment_intent_id);
@@ -0,0 +1,37 @@
+
+-- Create a log of every Stripe webhook event we receive so retries are de-duplicated
+CREATE TABLE public.stripe_webhook_events (
+  id text NOT NULL PRIMARY KEY, -- Stripe event id (evt_...)
+  type text NOT NULL,
+  stripe_account_id text,
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'processed', 'failed')),
+  error text,
+  attempts integer NOT NULL DEFAULT 0,
+  processed_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS stripe_webhook_events_status_idx ON public.stripe_webhook_events(status);
+CREATE INDEX IF NOT EXISTS stripe_webhook_events_type_idx ON public.stripe_webhook_events(type);
+
+-- Enable RLS on the event log; only the service role writes to it
+ALTER TABLE public.stripe_webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- Allow platform admins to inspect the event log
+CREATE POLICY "Admins can view webhook events"
+ON public.stripe_webhook_events
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'admin'
+  )
+);
+
+CREATE TRIGGER update_stripe_webhook_events_updated_at
+    BEFORE UPDATE ON public.stripe_webhook_events
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,55 @@
+
+-- Allow jobs and payments to carry refund states
+ALTER TABLE public.jobs DROP CONSTRAINT IF EXISTS jobs_status_check;
+ALTER TABLE public.jobs
+ADD CONSTRAINT jobs_status_check
+CHECK (status IN ('pending', 'paid', 'completed', 'test', 'partially_refunded', 'refunded'));
+
+ALTER TABLE public.payments DROP CONSTRAINT IF EXISTS payments_payment_status_check;
+ALTER TABLE public.payments
+ADD CONSTRAINT payments_payment_status_check
+CHECK (payment_status IN ('pending', 'paid', 'failed', 'partially_refunded', 'refunded'));
+
+-- Track how much of each payment has been refunded and which account holds the charge
+ALTER TABLE public.payments
+ADD COLUMN IF NOT EXISTS refunded_amount INTEGER NOT NULL DEFAULT 0, -- stored in cents
+ADD COLUMN IF NOT EXISTS stripe_account_id TEXT;
+
+-- Create refunds table
+CREATE TABLE public.refunds (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id uuid NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  payment_id uuid REFERENCES public.payments(id) ON DELETE SET NULL,
+  stripe_refund_id text UNIQUE,
+  amount integer NOT NULL, -- stored in cents
+  reason text,
+  status text NOT NULL DEFAULT 'pending',
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS refunds_job_id_idx ON public.refunds(job_id);
+CREATE INDEX IF NOT EXISTS refunds_payment_id_idx ON public.refunds(payment_id);
+
+-- Enable RLS on refunds table
+ALTER TABLE public.refunds ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policy for refunds (accessible by job's company)
+CREATE POLICY "Users can view refunds for their company jobs"
+ON public.refunds
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.jobs
+    WHERE jobs.id = refunds.job_id
+    AND jobs.company_id IN (
+      SELECT company_id FROM public.profiles WHERE id = auth.uid()
+    )
+  )
+);
+
+CREATE TRIGGER update_refunds_updated_at
+    BEFORE UPDATE ON public.refunds
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,42 @@
+
+-- Create disputes table to track chargebacks raised against Stripe payments
+CREATE TABLE public.disputes (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id uuid NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  payment_id uuid REFERENCES public.payments(id) ON DELETE SET NULL,
+  stripe_dispute_id text NOT NULL UNIQUE,
+  stripe_charge_id text,
+  amount integer NOT NULL, -- stored in cents
+  reason text,
+  status text NOT NULL,
+  evidence_due_by timestamp with time zone,
+  closed_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS disputes_job_id_idx ON public.disputes(job_id);
+CREATE INDEX IF NOT EXISTS disputes_payment_id_idx ON public.disputes(payment_id);
+CREATE INDEX IF NOT EXISTS disputes_status_idx ON public.disputes(status);
+
+-- Enable RLS on disputes table
+ALTER TABLE public.disputes ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policy for disputes (accessible by job's company)
+CREATE POLICY "Users can view disputes for their company jobs"
+ON public.disputes
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.jobs
+    WHERE jobs.id = disputes.job_id
+    AND jobs.company_id IN (
+      SELECT company_id FROM public.profiles WHERE id = auth.uid()
+    )
+  )
+);
+
+CREATE TRIGGER update_disputes_updated_at
+    BEFORE UPDATE ON public.disputes
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
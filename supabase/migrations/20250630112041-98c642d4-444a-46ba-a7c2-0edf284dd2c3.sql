@@ -0,0 +1,18 @@
+
+-- Allow jobs to be partially paid when a manual payment doesn't cover the full price
+ALTER TABLE public.jobs DROP CONSTRAINT IF EXISTS jobs_status_check;
+ALTER TABLE public.jobs
+ADD CONSTRAINT jobs_status_check
+CHECK (status IN ('pending', 'partially_paid', 'paid', 'completed', 'test', 'partially_refunded', 'refunded'));
+
+-- Capture how manual (cash, check, Zelle) payments were made
+ALTER TABLE public.payments
+ADD COLUMN IF NOT EXISTS manual_method TEXT CHECK (manual_method IN ('cash', 'check', 'zelle', 'other')),
+ADD COLUMN IF NOT EXISTS reference_number TEXT,
+ADD COLUMN IF NOT EXISTS recorded_by UUID REFERENCES auth.users(id);
+
+-- Manual payments have no checkout session, so receipts link to the payment instead
+ALTER TABLE public.receipts
+ALTER COLUMN session_id DROP NOT NULL,
+ADD COLUMN IF NOT EXISTS payment_id uuid REFERENCES public.payments(id) ON DELETE SET NULL;
+
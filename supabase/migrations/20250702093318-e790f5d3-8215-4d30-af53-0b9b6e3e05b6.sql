@@ -0,0 +1,76 @@
+
+-- Create job line items so labor, materials and add-ons can be billed separately
+CREATE TABLE public.job_line_items (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id uuid NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  description text NOT NULL,
+  quantity DECIMAL(10,2) NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit_price DECIMAL(10,2) NOT NULL CHECK (unit_price >= 0),
+  taxable boolean NOT NULL DEFAULT false,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS job_line_items_job_id_idx ON public.job_line_items(job_id);
+
+-- Enable RLS on job line items table
+ALTER TABLE public.job_line_items ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies (accessible by job's company)
+CREATE POLICY "Users can view line items for their company jobs"
+ON public.job_line_items
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.jobs
+    WHERE jobs.id = job_line_items.job_id
+    AND jobs.company_id IN (
+      SELECT company_id FROM public.profiles WHERE id = auth.uid()
+    )
+  )
+);
+
+CREATE POLICY "Users can insert line items for their company jobs"
+ON public.job_line_items
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.jobs
+    WHERE jobs.id = job_line_items.job_id
+    AND jobs.company_id IN (
+      SELECT company_id FROM public.profiles WHERE id = auth.uid()
+    )
+  )
+);
+
+CREATE POLICY "Users can update line items for their company jobs"
+ON public.job_line_items
+FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.jobs
+    WHERE jobs.id = job_line_items.job_id
+    AND jobs.company_id IN (
+      SELECT company_id FROM public.profiles WHERE id = auth.uid()
+    )
+  )
+);
+
+CREATE POLICY "Users can delete line items for their company jobs"
+ON public.job_line_items
+FOR DELETE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.jobs
+    WHERE jobs.id = job_line_items.job_id
+    AND jobs.company_id IN (
+      SELECT company_id FROM public.profiles WHERE id = auth.uid()
+    )
+  )
+);
+
+CREATE TRIGGER update_job_line_items_updated_at
+    BEFORE UPDATE ON public.job_line_items
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,69 @@
+
+-- Create company sales tax rates
+CREATE TABLE public.tax_rates (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id uuid NOT NULL,
+  name text NOT NULL,
+  percentage DECIMAL(6,3) NOT NULL CHECK (percentage >= 0 AND percentage < 100),
+  jurisdiction text,
+  is_default boolean NOT NULL DEFAULT false,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS tax_rates_company_id_idx ON public.tax_rates(company_id);
+
+-- Only one default rate per company
+CREATE UNIQUE INDEX IF NOT EXISTS tax_rates_company_default_idx
+  ON public.tax_rates(company_id) WHERE is_default;
+
+-- Enable RLS on tax rates table
+ALTER TABLE public.tax_rates ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies (accessible by company members)
+CREATE POLICY "Users can view their company tax rates"
+ON public.tax_rates
+FOR SELECT
+USING (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can insert their company tax rates"
+ON public.tax_rates
+FOR INSERT
+WITH CHECK (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update their company tax rates"
+ON public.tax_rates
+FOR UPDATE
+USING (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+CREATE TRIGGER update_tax_rates_updated_at
+    BEFORE UPDATE ON public.tax_rates
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Jobs pick a default rate for their taxable lines; price stays the total due including tax
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS tax_rate_id uuid REFERENCES public.tax_rates(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS tax_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- Lines can override the job's rate; the tax charged on each line is stored for reporting
+ALTER TABLE public.job_line_items
+  ADD COLUMN IF NOT EXISTS tax_rate_id uuid REFERENCES public.tax_rates(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS tax_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- Tax portion of each payment (in cents) for the tax-collected report
+ALTER TABLE public.payments
+  ADD COLUMN IF NOT EXISTS tax_amount INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,148 @@
+
+-- Create platform fee schedules so fee tiers and negotiated rates live in data instead of code
+CREATE TABLE public.fee_schedules (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name text NOT NULL,
+  is_default boolean NOT NULL DEFAULT false,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Only one schedule applies to companies without a negotiated rate
+CREATE UNIQUE INDEX IF NOT EXISTS fee_schedules_default_idx
+  ON public.fee_schedules(is_default) WHERE is_default;
+
+-- Each tier applies to charges of at least min_amount cents, up to the next tier
+CREATE TABLE public.fee_schedule_tiers (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  fee_schedule_id uuid NOT NULL REFERENCES public.fee_schedules(id) ON DELETE CASCADE,
+  min_amount INTEGER NOT NULL DEFAULT 0 CHECK (min_amount >= 0),
+  percentage DECIMAL(5,3) NOT NULL DEFAULT 0 CHECK (percentage >= 0),
+  fixed_amount INTEGER NOT NULL DEFAULT 0 CHECK (fixed_amount >= 0),
+  max_fee INTEGER CHECK (max_fee >= 0),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (fee_schedule_id, min_amount)
+);
+
+-- Company-level fee settings: the assigned schedule and whether the company absorbs the fee
+CREATE TABLE public.company_fee_settings (
+  company_id uuid NOT NULL PRIMARY KEY,
+  fee_schedule_id uuid REFERENCES public.fee_schedules(id) ON DELETE SET NULL,
+  absorb_fees boolean NOT NULL DEFAULT false,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on fee tables
+ALTER TABLE public.fee_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fee_schedule_tiers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.company_fee_settings ENABLE ROW LEVEL SECURITY;
+
+-- Companies can see the default schedule and the one negotiated for them
+CREATE POLICY "Users can view their applicable fee schedules"
+ON public.fee_schedules
+FOR SELECT
+USING (
+  is_default
+  OR id IN (
+    SELECT fee_schedule_id FROM public.company_fee_settings
+    WHERE company_id IN (
+      SELECT company_id FROM public.profiles WHERE id = auth.uid()
+    )
+  )
+);
+
+CREATE POLICY "Users can view their applicable fee schedule tiers"
+ON public.fee_schedule_tiers
+FOR SELECT
+USING (
+  fee_schedule_id IN (SELECT id FROM public.fee_schedules)
+);
+
+CREATE POLICY "Users can view their company fee settings"
+ON public.company_fee_settings
+FOR SELECT
+USING (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+-- Companies may create their settings row, but never assign themselves a schedule
+CREATE POLICY "Users can insert their company fee settings"
+ON public.company_fee_settings
+FOR INSERT
+WITH CHECK (
+  fee_schedule_id IS NULL
+  AND company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update their company fee settings"
+ON public.company_fee_settings
+FOR UPDATE
+USING (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+-- Companies can only toggle absorbing the fee; negotiated schedules are assigned with the service role
+REVOKE UPDATE ON public.company_fee_settings FROM authenticated;
+GRANT UPDATE (absorb_fees) ON public.company_fee_settings TO authenticated;
+
+-- Platform admins manage the schedules themselves
+CREATE POLICY "Admins can manage fee schedules"
+ON public.fee_schedules
+FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'admin'
+  )
+);
+
+CREATE POLICY "Admins can manage fee schedule tiers"
+ON public.fee_schedule_tiers
+FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'admin'
+  )
+);
+
+CREATE TRIGGER update_fee_schedules_updated_at
+    BEFORE UPDATE ON public.fee_schedules
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_fee_schedule_tiers_updated_at
+    BEFORE UPDATE ON public.fee_schedule_tiers
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_company_fee_settings_updated_at
+    BEFORE UPDATE ON public.company_fee_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Seed the default schedule with the tiers create-checkout used to hard-code
+WITH standard AS (
+  INSERT INTO public.fee_schedules (name, is_default)
+  VALUES ('Standard', true)
+  RETURNING id
+)
+INSERT INTO public.fee_schedule_tiers (fee_schedule_id, min_amount, percentage, fixed_amount)
+SELECT standard.id, tiers.min_amount, tiers.percentage, tiers.fixed_amount
+FROM standard, (VALUES
+  (0, 4.9, 30),
+  (10000, 3.9, 30),
+  (50000, 2.9, 30),
+  (100000, 1.9, 30),
+  (250000, 1.5, 0)
+) AS tiers(min_amount, percentage, fixed_amount);
@@ -0,0 +1,215 @@
+
+-- Per-company invoice numbering: prefix plus the next number to hand out
+CREATE TABLE public.invoice_sequences (
+  company_id uuid NOT NULL PRIMARY KEY,
+  prefix text NOT NULL DEFAULT 'INV-',
+  next_number integer NOT NULL DEFAULT 1001 CHECK (next_number > 0),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Create invoices as first-class records that bundle one or more jobs
+CREATE TABLE public.invoices (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id uuid NOT NULL,
+  client_id uuid REFERENCES public.clients(id) ON DELETE SET NULL,
+  invoice_number text NOT NULL,
+  sequence_number integer NOT NULL,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'viewed', 'paid', 'void')),
+  issue_date date NOT NULL DEFAULT CURRENT_DATE,
+  due_date date,
+  notes text,
+  sent_at timestamp with time zone,
+  viewed_at timestamp with time zone,
+  paid_at timestamp with time zone,
+  voided_at timestamp with time zone,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (company_id, sequence_number)
+);
+
+CREATE INDEX IF NOT EXISTS invoices_company_id_idx ON public.invoices(company_id);
+CREATE INDEX IF NOT EXISTS invoices_client_id_idx ON public.invoices(client_id);
+
+-- A job belongs to at most one invoice
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS invoice_id uuid REFERENCES public.invoices(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS jobs_invoice_id_idx ON public.jobs(invoice_id);
+
+-- Enable RLS on invoice tables
+ALTER TABLE public.invoice_sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies (accessible by company members)
+CREATE POLICY "Users can view their company invoice sequence"
+ON public.invoice_sequences
+FOR SELECT
+USING (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can insert their company invoice sequence"
+ON public.invoice_sequences
+FOR INSERT
+WITH CHECK (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update their company invoice sequence"
+ON public.invoice_sequences
+FOR UPDATE
+USING (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can view their company invoices"
+ON public.invoices
+FOR SELECT
+USING (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can insert their company invoices"
+ON public.invoices
+FOR INSERT
+WITH CHECK (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update their company invoices"
+ON public.invoices
+FOR UPDATE
+USING (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+CREATE TRIGGER update_invoice_sequences_updated_at
+    BEFORE UPDATE ON public.invoice_sequences
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_invoices_updated_at
+    BEFORE UPDATE ON public.invoices
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Assign the next number in the company's sequence to every new invoice
+CREATE OR REPLACE FUNCTION public.assign_invoice_number()
+RETURNS TRIGGER AS $$
+DECLARE
+  sequence_prefix text;
+  assigned_number integer;
+BEGIN
+  INSERT INTO public.invoice_sequences (company_id)
+  VALUES (NEW.company_id)
+  ON CONFLICT (company_id) DO NOTHING;
+
+  -- The row lock serializes concurrent invoices for the same company, so numbers never repeat
+  UPDATE public.invoice_sequences
+  SET next_number = next_number + 1
+  WHERE company_id = NEW.company_id
+  RETURNING prefix, next_number - 1 INTO sequence_prefix, assigned_number;
+
+  NEW.sequence_number := assigned_number;
+  NEW.invoice_number := sequence_prefix || assigned_number;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER assign_invoice_number_before_insert
+    BEFORE INSERT ON public.invoices
+    FOR EACH ROW
+    EXECUTE FUNCTION public.assign_invoice_number();
+
+-- Mark an invoice paid once every job on it is paid, and reopen it if a job becomes unpaid again
+CREATE OR REPLACE FUNCTION public.sync_invoice_status(target_invoice_id uuid)
+RETURNS void AS $$
+DECLARE
+  all_jobs_paid boolean;
+BEGIN
+  IF target_invoice_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT bool_and(status IN ('paid', 'completed', 'partially_refunded', 'refunded'))
+  INTO all_jobs_paid
+  FROM public.jobs
+  WHERE invoice_id = target_invoice_id;
+
+  IF COALESCE(all_jobs_paid, false) THEN
+    UPDATE public.invoices
+    SET status = 'paid', paid_at = COALESCE(paid_at, now())
+    WHERE id = target_invoice_id AND status NOT IN ('paid', 'void');
+  ELSE
+    UPDATE public.invoices
+    SET status = 'sent', paid_at = NULL
+    WHERE id = target_invoice_id AND status = 'paid';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.handle_job_invoice_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.sync_invoice_status(NEW.invoice_id);
+
+  IF TG_OP = 'UPDATE' AND OLD.invoice_id IS DISTINCT FROM NEW.invoice_id THEN
+    PERFORM public.sync_invoice_status(OLD.invoice_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_invoice_status_after_job_change
+    AFTER INSERT OR UPDATE OF status, invoice_id ON public.jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_job_invoice_status();
+
+-- Give a job its own invoice when it is billed without one, so every payment carries a number
+CREATE OR REPLACE FUNCTION public.ensure_job_invoice(target_job_id uuid)
+RETURNS public.invoices AS $$
+DECLARE
+  job_record public.jobs;
+  invoice_record public.invoices;
+BEGIN
+  SELECT * INTO job_record FROM public.jobs WHERE id = target_job_id FOR UPDATE;
+
+  IF NOT FOUND OR job_record.company_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF job_record.invoice_id IS NOT NULL THEN
+    SELECT * INTO invoice_record FROM public.invoices WHERE id = job_record.invoice_id;
+    RETURN invoice_record;
+  END IF;
+
+  INSERT INTO public.invoices (company_id, client_id, status, sent_at)
+  VALUES (job_record.company_id, job_record.client_id, 'sent', now())
+  RETURNING * INTO invoice_record;
+
+  UPDATE public.jobs SET invoice_id = invoice_record.id WHERE id = target_job_id;
+
+  -- Re-read so the status reflects a job that was already paid
+  SELECT * INTO invoice_record FROM public.invoices WHERE id = invoice_record.id;
+  RETURN invoice_record;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only edge functions (service role) create invoices implicitly
+REVOKE EXECUTE ON FUNCTION public.ensure_job_invoice(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sync_invoice_status(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,91 @@
+
+-- Company-wide billing settings, starting with the default payment terms
+CREATE TABLE public.company_billing_settings (
+  company_id uuid NOT NULL PRIMARY KEY,
+  payment_terms_days integer NOT NULL DEFAULT 0 CHECK (payment_terms_days >= 0),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on billing settings table
+ALTER TABLE public.company_billing_settings ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies (accessible by company members)
+CREATE POLICY "Users can view their company billing settings"
+ON public.company_billing_settings
+FOR SELECT
+USING (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can insert their company billing settings"
+ON public.company_billing_settings
+FOR INSERT
+WITH CHECK (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update their company billing settings"
+ON public.company_billing_settings
+FOR UPDATE
+USING (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+CREATE TRIGGER update_company_billing_settings_updated_at
+    BEFORE UPDATE ON public.company_billing_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Clients can have their own terms; null falls back to the company default
+ALTER TABLE public.clients
+  ADD COLUMN IF NOT EXISTS payment_terms_days integer CHECK (payment_terms_days >= 0);
+
+-- Each job records when its payment is due
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS due_date DATE;
+
+CREATE INDEX IF NOT EXISTS jobs_due_date_idx ON public.jobs(due_date);
+
+-- Existing jobs were effectively due on receipt
+UPDATE public.jobs
+SET due_date = COALESCE(scheduled_date, created_at::date)
+WHERE due_date IS NULL;
+
+-- Invoices created for a single job inherit that job's due date
+CREATE OR REPLACE FUNCTION public.ensure_job_invoice(target_job_id uuid)
+RETURNS public.invoices AS $$
+DECLARE
+  job_record public.jobs;
+  invoice_record public.invoices;
+BEGIN
+  SELECT * INTO job_record FROM public.jobs WHERE id = target_job_id FOR UPDATE;
+
+  IF NOT FOUND OR job_record.company_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF job_record.invoice_id IS NOT NULL THEN
+    SELECT * INTO invoice_record FROM public.invoices WHERE id = job_record.invoice_id;
+    RETURN invoice_record;
+  END IF;
+
+  INSERT INTO public.invoices (company_id, client_id, status, sent_at, due_date)
+  VALUES (job_record.company_id, job_record.client_id, 'sent', now(), job_record.due_date)
+  RETURNING * INTO invoice_record;
+
+  UPDATE public.jobs SET invoice_id = invoice_record.id WHERE id = target_job_id;
+
+  -- Re-read so the status reflects a job that was already paid
+  SELECT * INTO invoice_record FROM public.invoices WHERE id = invoice_record.id;
+  RETURN invoice_record;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.ensure_job_invoice(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,96 @@
+
+-- Companies opt in to automated payment reminders
+ALTER TABLE public.company_billing_settings
+  ADD COLUMN IF NOT EXISTS reminders_enabled boolean NOT NULL DEFAULT false;
+
+-- Each step of a company's reminder sequence, timed relative to the job's due date
+CREATE TABLE public.payment_reminder_steps (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id uuid NOT NULL,
+  days_from_due integer NOT NULL,
+  send_sms boolean NOT NULL DEFAULT true,
+  send_email boolean NOT NULL DEFAULT true,
+  sms_template text NOT NULL,
+  email_subject text NOT NULL,
+  email_template text NOT NULL,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (company_id, days_from_due)
+);
+
+-- Enable RLS on reminder steps table
+ALTER TABLE public.payment_reminder_steps ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies (accessible by company members)
+CREATE POLICY "Users can view their company reminder steps"
+ON public.payment_reminder_steps
+FOR SELECT
+USING (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can insert their company reminder steps"
+ON public.payment_reminder_steps
+FOR INSERT
+WITH CHECK (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update their company reminder steps"
+ON public.payment_reminder_steps
+FOR UPDATE
+USING (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete their company reminder steps"
+ON public.payment_reminder_steps
+FOR DELETE
+USING (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+CREATE TRIGGER update_payment_reminder_steps_updated_at
+    BEFORE UPDATE ON public.payment_reminder_steps
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Log of every reminder sent (or attempted) for a job
+CREATE TABLE public.job_reminders (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id uuid NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  company_id uuid NOT NULL,
+  days_from_due integer NOT NULL,
+  channel text NOT NULL CHECK (channel IN ('sms', 'email')),
+  recipient text NOT NULL,
+  status text NOT NULL CHECK (status IN ('sent', 'failed')),
+  error_message text,
+  sent_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS job_reminders_job_id_idx ON public.job_reminders(job_id);
+
+-- A step is only ever sent once per job and channel, even if the function runs twice in a day
+CREATE UNIQUE INDEX IF NOT EXISTS job_reminders_job_step_channel_idx
+  ON public.job_reminders(job_id, days_from_due, channel);
+
+-- Enable RLS on reminder log; rows are written by the send-payment-reminders function
+ALTER TABLE public.job_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their company job reminders"
+ON public.job_reminders
+FOR SELECT
+USING (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
@@ -0,0 +1,68 @@
+
+-- Company late fee rule, applied to jobs still unpaid after the grace period
+ALTER TABLE public.company_billing_settings
+  ADD COLUMN IF NOT EXISTS late_fee_enabled boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS late_fee_type text NOT NULL DEFAULT 'flat' CHECK (late_fee_type IN ('flat', 'percentage')),
+  ADD COLUMN IF NOT EXISTS late_fee_value DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (late_fee_value >= 0),
+  ADD COLUMN IF NOT EXISTS late_fee_grace_days integer NOT NULL DEFAULT 0 CHECK (late_fee_grace_days >= 0),
+  ADD COLUMN IF NOT EXISTS late_fee_frequency text NOT NULL DEFAULT 'once' CHECK (late_fee_frequency IN ('once', 'monthly')),
+  ADD COLUMN IF NOT EXISTS late_fee_cap DECIMAL(10,2) CHECK (late_fee_cap >= 0);
+
+-- Late fees are added to the job price; this keeps the running total so it can be shown separately
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS late_fee_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- Each late fee applied to a job; period 1 is the first fee, monthly rules add one per 30 days late
+CREATE TABLE public.job_late_fees (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id uuid NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  company_id uuid NOT NULL,
+  period integer NOT NULL CHECK (period >= 1),
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  applied_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (job_id, period)
+);
+
+-- Enable RLS on late fees; rows are written by the apply-late-fees function
+ALTER TABLE public.job_late_fees ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their company job late fees"
+ON public.job_late_fees
+FOR SELECT
+USING (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+-- Records the fee and raises the job price in one step so a fee is never half-applied
+CREATE OR REPLACE FUNCTION public.apply_job_late_fee(target_job_id uuid, fee_period integer, fee_amount DECIMAL)
+RETURNS public.jobs AS $$
+DECLARE
+  job_record public.jobs;
+BEGIN
+  SELECT * INTO job_record FROM public.jobs WHERE id = target_job_id FOR UPDATE;
+
+  IF NOT FOUND OR job_record.status NOT IN ('pending', 'partially_paid') THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.job_late_fees (job_id, company_id, period, amount)
+  VALUES (target_job_id, job_record.company_id, fee_period, fee_amount)
+  ON CONFLICT (job_id, period) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.jobs
+  SET price = price + fee_amount,
+      late_fee_amount = late_fee_amount + fee_amount
+  WHERE id = target_job_id
+  RETURNING * INTO job_record;
+
+  RETURN job_record;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.apply_job_late_fee(uuid, integer, DECIMAL) FROM PUBLIC, anon, authenticated;
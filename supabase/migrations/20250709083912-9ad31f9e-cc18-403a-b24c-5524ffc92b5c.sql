@@ -0,0 +1,116 @@
+
+-- Estimates sent to clients for approval before any work is scheduled
+CREATE TABLE public.estimates (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id uuid NOT NULL,
+  client_id uuid NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  description text,
+  phone_number text,
+  -- Total including tax, matching jobs.price
+  price DECIMAL(10,2) NOT NULL CHECK (price > 0),
+  tax_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  tax_rate_id uuid REFERENCES public.tax_rates(id) ON DELETE SET NULL,
+  scheduled_date DATE,
+  expires_at DATE NOT NULL,
+  -- Optional deposit collected when the client approves
+  deposit_type text CHECK (deposit_type IN ('fixed', 'percentage')),
+  deposit_value DECIMAL(10,2) CHECK (deposit_value > 0),
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'viewed', 'accepted', 'declined')),
+  -- Unguessable token for the client's public approval page
+  public_token text NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  sent_at timestamp with time zone,
+  viewed_at timestamp with time zone,
+  responded_at timestamp with time zone,
+  signature_name text,
+  decline_reason text,
+  job_id uuid REFERENCES public.jobs(id) ON DELETE SET NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK ((deposit_type IS NULL) = (deposit_value IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS estimates_company_id_idx ON public.estimates(company_id);
+
+-- Enable RLS on estimates table; clients respond through the estimate-response function
+ALTER TABLE public.estimates ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies (accessible by company members)
+CREATE POLICY "Users can view their company estimates"
+ON public.estimates
+FOR SELECT
+USING (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can insert their company estimates"
+ON public.estimates
+FOR INSERT
+WITH CHECK (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update their company estimates"
+ON public.estimates
+FOR UPDATE
+USING (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+CREATE TRIGGER update_estimates_updated_at
+    BEFORE UPDATE ON public.estimates
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Estimate line items mirror job line items so they copy straight over on approval
+CREATE TABLE public.estimate_line_items (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  estimate_id uuid NOT NULL REFERENCES public.estimates(id) ON DELETE CASCADE,
+  description text NOT NULL,
+  quantity DECIMAL(10,2) NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit_price DECIMAL(10,2) NOT NULL CHECK (unit_price >= 0),
+  taxable boolean NOT NULL DEFAULT false,
+  tax_rate_id uuid REFERENCES public.tax_rates(id) ON DELETE SET NULL,
+  tax_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS estimate_line_items_estimate_id_idx ON public.estimate_line_items(estimate_id);
+
+-- Enable RLS on estimate line items table
+ALTER TABLE public.estimate_line_items ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies (accessible by estimate's company)
+CREATE POLICY "Users can view line items for their company estimates"
+ON public.estimate_line_items
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.estimates
+    WHERE estimates.id = estimate_line_items.estimate_id
+    AND estimates.company_id IN (
+      SELECT company_id FROM public.profiles WHERE id = auth.uid()
+    )
+  )
+);
+
+CREATE POLICY "Users can insert line items for their company estimates"
+ON public.estimate_line_items
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.estimates
+    WHERE estimates.id = estimate_line_items.estimate_id
+    AND estimates.company_id IN (
+      SELECT company_id FROM public.profiles WHERE id = auth.uid()
+    )
+  )
+);
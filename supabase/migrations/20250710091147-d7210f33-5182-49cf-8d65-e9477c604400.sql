@@ -0,0 +1,58 @@
+
+-- Each job gets an unguessable token for its public invoice page
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS public_token text NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  ADD COLUMN IF NOT EXISTS viewed_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS last_viewed_at timestamp with time zone,
+  -- The deposit last requested, so the invoice page can offer it until something is paid
+  ADD COLUMN IF NOT EXISTS deposit_type text CHECK (deposit_type IN ('fixed', 'percentage')),
+  ADD COLUMN IF NOT EXISTS deposit_value DECIMAL(10,2) CHECK (deposit_value > 0);
+
+-- Business details shown to clients on invoice pages
+CREATE TABLE public.company_branding (
+  company_id uuid NOT NULL PRIMARY KEY,
+  business_name text,
+  logo_url text,
+  brand_color text NOT NULL DEFAULT '#2563eb' CHECK (brand_color ~ '^#[0-9a-fA-F]{6}$'),
+  contact_email text,
+  contact_phone text,
+  website text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on branding table; the public invoice page reads it through the public-invoice function
+ALTER TABLE public.company_branding ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies (accessible by company members)
+CREATE POLICY "Users can view their company branding"
+ON public.company_branding
+FOR SELECT
+USING (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can insert their company branding"
+ON public.company_branding
+FOR INSERT
+WITH CHECK (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update their company branding"
+ON public.company_branding
+FOR UPDATE
+USING (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+CREATE TRIGGER update_company_branding_updated_at
+    BEFORE UPDATE ON public.company_branding
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,8 @@
+
+-- Track the Checkout session behind a job's payment link so stale links can be detected
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS stripe_session_id text,
+  ADD COLUMN IF NOT EXISTS payment_url_expires_at timestamp with time zone;
+
+-- The webhook looks jobs up by session when Stripe reports it expired
+CREATE INDEX IF NOT EXISTS idx_jobs_stripe_session_id ON public.jobs(stripe_session_id);
@@ -0,0 +1,20 @@
+
+-- Stripe Customer and saved card for each client; the customer lives on the company's connected
+-- account when checkout runs through Connect, or on the platform account when stripe_account_id is null
+ALTER TABLE public.clients
+  ADD COLUMN IF NOT EXISTS stripe_customer_id text,
+  ADD COLUMN IF NOT EXISTS stripe_account_id text,
+  ADD COLUMN IF NOT EXISTS stripe_payment_method_id text,
+  ADD COLUMN IF NOT EXISTS card_brand text,
+  ADD COLUMN IF NOT EXISTS card_last4 text,
+  -- Recurring occurrences are charged to the saved card automatically while this is on
+  ADD COLUMN IF NOT EXISTS autopay_enabled boolean NOT NULL DEFAULT false;
+
+-- Last failed automatic charge, shown on the job until it is paid another way
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS autopay_failed_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS autopay_error text;
+
+-- Off-session charges have no Checkout session, so the webhook deduplicates them by payment intent
+DROP INDEX IF EXISTS public.payments_stripe_payment_intent_id_idx;
+CREATE UNIQUE INDEX IF NOT EXISTS payments_stripe_payment_intent_id_idx ON public.payments(stripe_payment_intent_id);
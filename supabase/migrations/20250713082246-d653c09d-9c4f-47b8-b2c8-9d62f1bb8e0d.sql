@@ -0,0 +1,37 @@
+
+-- Bank debits (ACH) take a few days to clear, so jobs and payments wait in 'processing' meanwhile
+ALTER TABLE public.jobs DROP CONSTRAINT IF EXISTS jobs_status_check;
+
+ALTER TABLE public.jobs
+ADD CONSTRAINT jobs_status_check
+CHECK (status IN ('pending', 'partially_paid', 'processing', 'paid', 'completed', 'test', 'partially_refunded', 'refunded'));
+
+ALTER TABLE public.payments DROP CONSTRAINT IF EXISTS payments_payment_status_check;
+
+ALTER TABLE public.payments
+ADD CONSTRAINT payments_payment_status_check
+CHECK (payment_status IN ('pending', 'processing', 'paid', 'failed', 'partially_refunded', 'refunded'));
+
+-- Companies offer bank payments on jobs at or above a threshold, and on individual jobs they allow
+ALTER TABLE public.company_billing_settings
+  ADD COLUMN IF NOT EXISTS bank_payments_enabled boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS bank_payment_min_amount DECIMAL(10,2) CHECK (bank_payment_min_amount >= 0);
+
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS allow_bank_payment boolean NOT NULL DEFAULT false;
+
+-- Fee tiers are set per payment method; the existing tiers are the card tiers
+ALTER TABLE public.fee_schedule_tiers
+  ADD COLUMN IF NOT EXISTS payment_method text NOT NULL DEFAULT 'card' CHECK (payment_method IN ('card', 'us_bank_account'));
+
+ALTER TABLE public.fee_schedule_tiers DROP CONSTRAINT IF EXISTS fee_schedule_tiers_fee_schedule_id_min_amount_key;
+
+ALTER TABLE public.fee_schedule_tiers
+ADD CONSTRAINT fee_schedule_tiers_fee_schedule_id_payment_method_min_amount_key
+UNIQUE (fee_schedule_id, payment_method, min_amount);
+
+-- Bank payments cost far less to process than cards: 1% capped at $10 on every schedule
+INSERT INTO public.fee_schedule_tiers (fee_schedule_id, payment_method, min_amount, percentage, fixed_amount, max_fee)
+SELECT id, 'us_bank_account', 0, 1.0, 0, 1000
+FROM public.fee_schedules
+ON CONFLICT (fee_schedule_id, payment_method, min_amount) DO NOTHING;
@@ -0,0 +1,18 @@
+
+-- Tips are collected on top of the job price and kept apart from it, in cents
+ALTER TABLE public.payments
+  ADD COLUMN IF NOT EXISTS tip_amount INTEGER NOT NULL DEFAULT 0 CHECK (tip_amount >= 0);
+
+-- Companies choose whether to offer a tip step on their invoice pages
+ALTER TABLE public.company_billing_settings
+  ADD COLUMN IF NOT EXISTS tips_enabled boolean NOT NULL DEFAULT false;
+
+-- Companies can keep tips out of the amount the platform fee is charged on
+ALTER TABLE public.company_fee_settings
+  ADD COLUMN IF NOT EXISTS exclude_tips_from_fee boolean NOT NULL DEFAULT false;
+
+GRANT UPDATE (exclude_tips_from_fee) ON public.company_fee_settings TO authenticated;
+
+-- The crew member who did the job, so tips can be passed on to them
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS crew_member text;
@@ -0,0 +1,21 @@
+
+-- Companies bill in a default currency; clients can be billed in their own. Codes are lowercase
+-- ISO 4217, as Stripe expects them
+ALTER TABLE public.company_billing_settings
+  ADD COLUMN IF NOT EXISTS default_currency text NOT NULL DEFAULT 'usd' CHECK (default_currency ~ '^[a-z]{3}$');
+
+ALTER TABLE public.clients
+  ADD COLUMN IF NOT EXISTS currency text CHECK (currency ~ '^[a-z]{3}$');
+
+-- Jobs are priced in one currency, and their payments and receipts carry it too
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'usd' CHECK (currency ~ '^[a-z]{3}$');
+
+ALTER TABLE public.payments
+  ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'usd' CHECK (currency ~ '^[a-z]{3}$');
+
+ALTER TABLE public.receipts
+  ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'usd' CHECK (currency ~ '^[a-z]{3}$');
+
+-- Revenue is reported per currency
+CREATE INDEX IF NOT EXISTS idx_payments_currency ON public.payments(currency);
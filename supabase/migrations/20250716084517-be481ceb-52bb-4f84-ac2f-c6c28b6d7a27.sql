@@ -0,0 +1,114 @@
+
+-- Credit owed to a client, issued against the job that was overcharged or prepaid. Amounts are in
+-- cents like payments; credit is spent by 'credit' payments on the client's later jobs
+CREATE TABLE public.credit_notes (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id uuid NOT NULL,
+  client_id uuid NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  job_id uuid NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  amount integer NOT NULL CHECK (amount > 0),
+  currency text NOT NULL DEFAULT 'usd' CHECK (currency ~ '^[a-z]{3}$'),
+  reason text NOT NULL CHECK (length(trim(reason)) > 0),
+  issued_by uuid,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS credit_notes_client_id_idx ON public.credit_notes(client_id);
+
+-- Enable RLS on credit notes
+ALTER TABLE public.credit_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their company credit notes"
+ON public.credit_notes
+FOR SELECT
+USING (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can insert their company credit notes"
+ON public.credit_notes
+FOR INSERT
+WITH CHECK (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+-- Credit issued to the client in a currency, less what has already been applied to their jobs, in cents
+CREATE OR REPLACE FUNCTION public.client_credit_balance(target_client_id uuid, target_currency text)
+RETURNS integer AS $$
+  SELECT (
+    COALESCE((
+      SELECT SUM(amount) FROM public.credit_notes
+      WHERE client_id = target_client_id AND currency = target_currency
+    ), 0) -
+    COALESCE((
+      SELECT SUM(p.amount) FROM public.payments p
+      JOIN public.jobs j ON j.id = p.job_id
+      WHERE j.client_id = target_client_id
+        AND p.payment_method = 'credit'
+        AND p.payment_status = 'paid'
+        AND p.currency = target_currency
+    ), 0)
+  )::integer;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Spends the client's credit on a job's amount due by recording a 'credit' payment. The client row
+-- is locked so two checkouts can't spend the same credit; returns NULL when nothing was applied
+CREATE OR REPLACE FUNCTION public.apply_client_credit(target_job_id uuid)
+RETURNS public.payments AS $$
+DECLARE
+  job_record public.jobs;
+  payment_record public.payments;
+  credit_available integer;
+  amount_due integer;
+  credit_applied integer;
+BEGIN
+  SELECT * INTO job_record FROM public.jobs WHERE id = target_job_id FOR UPDATE;
+
+  IF NOT FOUND OR job_record.client_id IS NULL OR job_record.status NOT IN ('pending', 'partially_paid') THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM 1 FROM public.clients WHERE id = job_record.client_id FOR UPDATE;
+
+  credit_available := public.client_credit_balance(job_record.client_id, job_record.currency);
+  IF credit_available <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT ROUND(job_record.price * 100)::integer - COALESCE(SUM(GREATEST(COALESCE(base_amount, amount) - COALESCE(refunded_amount, 0), 0)), 0)
+  INTO amount_due
+  FROM public.payments
+  WHERE job_id = target_job_id AND payment_status IN ('paid', 'partially_refunded');
+
+  credit_applied := LEAST(credit_available, amount_due);
+  IF credit_applied <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.payments (job_id, amount, base_amount, tax_amount, currency, payment_status, payment_method, paid_at)
+  VALUES (
+    target_job_id,
+    credit_applied,
+    credit_applied,
+    ROUND(credit_applied * COALESCE(job_record.tax_amount, 0) / NULLIF(job_record.price, 0))::integer,
+    job_record.currency,
+    'paid',
+    'credit',
+    now()
+  )
+  RETURNING * INTO payment_record;
+
+  UPDATE public.jobs
+  SET status = CASE WHEN credit_applied >= amount_due THEN 'paid' ELSE 'partially_paid' END,
+      paid_at = CASE WHEN credit_applied >= amount_due THEN now() ELSE paid_at END
+  WHERE id = target_job_id;
+
+  RETURN payment_record;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.apply_client_credit(uuid) FROM PUBLIC, anon, authenticated;
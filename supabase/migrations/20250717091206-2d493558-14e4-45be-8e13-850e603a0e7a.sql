@@ -0,0 +1,283 @@
+
+-- Company promo codes; fixed codes take an amount off in one currency, percentage codes work in any
+CREATE TABLE public.discount_codes (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id uuid NOT NULL,
+  code text NOT NULL CHECK (code ~ '^[A-Z0-9_-]{3,32}$'),
+  description text,
+  discount_type text NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+  value DECIMAL(10,2) NOT NULL CHECK (value > 0),
+  currency text CHECK (currency ~ '^[a-z]{3}$'),
+  starts_at timestamp with time zone,
+  ends_at timestamp with time zone,
+  -- Redemptions allowed across all clients, and per client; null means unlimited
+  max_uses integer CHECK (max_uses > 0),
+  max_uses_per_client integer CHECK (max_uses_per_client > 0),
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (company_id, code),
+  CHECK (discount_type = 'fixed' OR value <= 100),
+  CHECK (discount_type = 'percentage' OR currency IS NOT NULL),
+  CHECK (ends_at IS NULL OR starts_at IS NULL OR ends_at > starts_at)
+);
+
+-- Enable RLS on discount codes
+ALTER TABLE public.discount_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their company discount codes"
+ON public.discount_codes
+FOR SELECT
+USING (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can insert their company discount codes"
+ON public.discount_codes
+FOR INSERT
+WITH CHECK (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update their company discount codes"
+ON public.discount_codes
+FOR UPDATE
+USING (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+CREATE TRIGGER update_discount_codes_updated_at
+    BEFORE UPDATE ON public.discount_codes
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Standing percentage off every new job for a loyal client
+ALTER TABLE public.clients
+  ADD COLUMN IF NOT EXISTS discount_percentage DECIMAL(5,2) CHECK (discount_percentage > 0 AND discount_percentage <= 100);
+
+-- Total taken off the job's line items; price stays the total due after discounts, tax and late fees
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- Discounts on a job, one line each: the client's standing discount and at most one code.
+-- amount is worked out by reprice_job from the line items, so callers only pick the discount
+CREATE TABLE public.job_discounts (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id uuid NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  company_id uuid NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('client', 'code')),
+  discount_code_id uuid REFERENCES public.discount_codes(id) ON DELETE RESTRICT,
+  label text NOT NULL DEFAULT '',
+  discount_type text NOT NULL DEFAULT 'percentage' CHECK (discount_type IN ('percentage', 'fixed')),
+  value DECIMAL(10,2) NOT NULL DEFAULT 0,
+  amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (job_id, kind),
+  CHECK (kind = 'client' OR discount_code_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS job_discounts_discount_code_id_idx ON public.job_discounts(discount_code_id);
+
+-- Enable RLS on job discounts
+ALTER TABLE public.job_discounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their company job discounts"
+ON public.job_discounts
+FOR SELECT
+USING (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can insert their company job discounts"
+ON public.job_discounts
+FOR INSERT
+WITH CHECK (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete their company job discounts"
+ON public.job_discounts
+FOR DELETE
+USING (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+);
+
+-- Recomputes a job's discounts, tax and price from its line items. Percentage discounts come off
+-- the line items subtotal; tax is charged on what is left, so each line's tax shrinks with it
+CREATE OR REPLACE FUNCTION public.reprice_job(target_job_id uuid)
+RETURNS void AS $$
+DECLARE
+  subtotal DECIMAL(10,2);
+  remaining DECIMAL(10,2);
+  discount_total DECIMAL(10,2) := 0;
+  discount_record public.job_discounts;
+  line_amount DECIMAL(10,2);
+  factor numeric;
+BEGIN
+  SELECT COALESCE(SUM(ROUND(quantity * unit_price, 2)), 0) INTO subtotal
+  FROM public.job_line_items
+  WHERE job_id = target_job_id;
+
+  IF subtotal <= 0 THEN
+    RETURN;
+  END IF;
+
+  -- The standing client discount applies before a code ('client' sorts before 'code')
+  remaining := subtotal;
+  FOR discount_record IN
+    SELECT * FROM public.job_discounts WHERE job_id = target_job_id ORDER BY kind
+  LOOP
+    line_amount := LEAST(
+      CASE WHEN discount_record.discount_type = 'percentage'
+        THEN ROUND(subtotal * discount_record.value / 100, 2)
+        ELSE discount_record.value
+      END,
+      remaining
+    );
+
+    UPDATE public.job_discounts SET amount = line_amount WHERE id = discount_record.id;
+    remaining := remaining - line_amount;
+    discount_total := discount_total + line_amount;
+  END LOOP;
+
+  factor := (subtotal - discount_total) / subtotal;
+
+  UPDATE public.job_line_items li
+  SET tax_amount = CASE WHEN li.taxable
+    THEN COALESCE(ROUND(
+      ROUND(li.quantity * li.unit_price, 2) * (SELECT percentage FROM public.tax_rates WHERE id = li.tax_rate_id) / 100 * factor,
+      2
+    ), 0)
+    ELSE 0
+  END
+  WHERE li.job_id = target_job_id;
+
+  -- Links built for the old price are dropped; the next payment creates a fresh session
+  UPDATE public.jobs j
+  SET discount_amount = discount_total,
+      tax_amount = totals.tax,
+      price = subtotal - discount_total + totals.tax + j.late_fee_amount,
+      payment_url = NULL,
+      stripe_checkout_url = NULL,
+      stripe_session_id = NULL,
+      payment_url_expires_at = NULL
+  FROM (
+    SELECT COALESCE(SUM(tax_amount), 0) AS tax FROM public.job_line_items WHERE job_id = target_job_id
+  ) totals
+  WHERE j.id = target_job_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.reprice_job(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Fills in a new discount from the client or code and enforces the code's window and usage limits.
+-- Discounts can only be added before the job takes a payment
+CREATE OR REPLACE FUNCTION public.validate_job_discount()
+RETURNS TRIGGER AS $$
+DECLARE
+  job_record public.jobs;
+  code_record public.discount_codes;
+  client_percentage DECIMAL(5,2);
+  uses integer;
+BEGIN
+  SELECT * INTO job_record FROM public.jobs WHERE id = NEW.job_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job not found';
+  END IF;
+
+  IF job_record.status NOT IN ('pending', 'test') OR EXISTS (
+    SELECT 1 FROM public.payments
+    WHERE job_id = NEW.job_id AND payment_status IN ('paid', 'partially_refunded', 'processing')
+  ) THEN
+    RAISE EXCEPTION 'Discounts can only be added before the job is paid';
+  END IF;
+
+  NEW.company_id := job_record.company_id;
+
+  IF NEW.kind = 'client' THEN
+    SELECT discount_percentage INTO client_percentage FROM public.clients WHERE id = job_record.client_id;
+
+    IF client_percentage IS NULL THEN
+      RAISE EXCEPTION 'This client has no standing discount';
+    END IF;
+
+    NEW.discount_code_id := NULL;
+    NEW.discount_type := 'percentage';
+    NEW.value := client_percentage;
+    NEW.label := 'Client discount (' || TRIM(TRAILING '.' FROM TRIM(TRAILING '0' FROM client_percentage::text)) || '%)';
+    RETURN NEW;
+  END IF;
+
+  -- Locking the code serializes redemptions so usage limits hold under concurrent checkouts
+  SELECT * INTO code_record FROM public.discount_codes WHERE id = NEW.discount_code_id FOR UPDATE;
+
+  IF NOT FOUND OR code_record.company_id IS DISTINCT FROM job_record.company_id OR NOT code_record.active THEN
+    RAISE EXCEPTION 'This discount code is not valid';
+  END IF;
+
+  IF code_record.starts_at IS NOT NULL AND now() < code_record.starts_at THEN
+    RAISE EXCEPTION 'This discount code is not active yet';
+  END IF;
+
+  IF code_record.ends_at IS NOT NULL AND now() >= code_record.ends_at THEN
+    RAISE EXCEPTION 'This discount code has expired';
+  END IF;
+
+  IF code_record.discount_type = 'fixed' AND code_record.currency <> job_record.currency THEN
+    RAISE EXCEPTION 'This discount code can''t be used in this currency';
+  END IF;
+
+  IF code_record.max_uses IS NOT NULL THEN
+    SELECT COUNT(*) INTO uses FROM public.job_discounts WHERE discount_code_id = code_record.id;
+    IF uses >= code_record.max_uses THEN
+      RAISE EXCEPTION 'This discount code has been fully redeemed';
+    END IF;
+  END IF;
+
+  IF code_record.max_uses_per_client IS NOT NULL AND job_record.client_id IS NOT NULL THEN
+    SELECT COUNT(*) INTO uses
+    FROM public.job_discounts jd
+    JOIN public.jobs j ON j.id = jd.job_id
+    WHERE jd.discount_code_id = code_record.id AND j.client_id = job_record.client_id;
+    IF uses >= code_record.max_uses_per_client THEN
+      RAISE EXCEPTION 'This discount code has already been used';
+    END IF;
+  END IF;
+
+  NEW.discount_type := code_record.discount_type;
+  NEW.value := code_record.value;
+  NEW.label := 'Discount (' || code_record.code || ')';
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER validate_job_discount_before_insert
+    BEFORE INSERT ON public.job_discounts
+    FOR EACH ROW
+    EXECUTE FUNCTION public.validate_job_discount();
+
+CREATE OR REPLACE FUNCTION public.reprice_job_after_discount_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.reprice_job(COALESCE(NEW.job_id, OLD.job_id));
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER reprice_job_after_discount_change
+    AFTER INSERT OR DELETE ON public.job_discounts
+    FOR EACH ROW
+    EXECUTE FUNCTION public.reprice_job_after_discount_change();
@@ -0,0 +1,5 @@
+
+-- Schedules and tiers apply to every company, so only the service role changes them. profiles.role
+-- can't be trusted for this, since users can edit their own profile
+DROP POLICY IF EXISTS "Admins can manage fee schedules" ON public.fee_schedules;
+DROP POLICY IF EXISTS "Admins can manage fee schedule tiers" ON public.fee_schedule_tiers;
@@ -0,0 +1,3 @@
+
+-- Webhook events span every company, so the log is read with the service role only
+DROP POLICY IF EXISTS "Admins can view webhook events" ON public.stripe_webhook_events;
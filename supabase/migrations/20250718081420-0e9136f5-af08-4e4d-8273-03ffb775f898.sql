@@ -0,0 +1,4 @@
+
+-- Set when the crew marks the work done; a recurring occurrence is only charged automatically after it
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS completed_at timestamp with time zone;
@@ -0,0 +1,13 @@
+
+-- The share of refunded_amount that came off the job price rather than the fee or tip
+ALTER TABLE public.payments
+ADD COLUMN IF NOT EXISTS refunded_base_amount INTEGER NOT NULL DEFAULT 0; -- stored in cents
+
+-- Existing refunds are split in proportion to the charge, like new ones
+UPDATE public.payments
+SET refunded_base_amount = LEAST(ROUND(refunded_amount::numeric * base_amount / NULLIF(amount, 0))::integer, base_amount)
+WHERE refunded_amount > 0 AND base_amount IS NOT NULL;
+
+UPDATE public.payments
+SET refunded_base_amount = refunded_amount
+WHERE refunded_amount > 0 AND base_amount IS NULL;
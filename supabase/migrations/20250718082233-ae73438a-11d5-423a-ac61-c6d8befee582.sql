@@ -0,0 +1,71 @@
+
+-- The connected account a job's checkout session was created on (null for the platform), so the
+-- session can be expired once it is replaced
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS stripe_session_account_id text;
+
+-- Recomputes a job's discounts, tax and price from its line items. Percentage discounts come off
+-- the line items subtotal; tax is charged on what is left, so each line's tax shrinks with it
+CREATE OR REPLACE FUNCTION public.reprice_job(target_job_id uuid)
+RETURNS void AS $$
+DECLARE
+  subtotal DECIMAL(10,2);
+  remaining DECIMAL(10,2);
+  discount_total DECIMAL(10,2) := 0;
+  discount_record public.job_discounts;
+  line_amount DECIMAL(10,2);
+  factor numeric;
+BEGIN
+  SELECT COALESCE(SUM(ROUND(quantity * unit_price, 2)), 0) INTO subtotal
+  FROM public.job_line_items
+  WHERE job_id = target_job_id;
+
+  IF subtotal <= 0 THEN
+    RETURN;
+  END IF;
+
+  -- The standing client discount applies before a code ('client' sorts before 'code')
+  remaining := subtotal;
+  FOR discount_record IN
+    SELECT * FROM public.job_discounts WHERE job_id = target_job_id ORDER BY kind
+  LOOP
+    line_amount := LEAST(
+      CASE WHEN discount_record.discount_type = 'percentage'
+        THEN ROUND(subtotal * discount_record.value / 100, 2)
+        ELSE discount_record.value
+      END,
+      remaining
+    );
+
+    UPDATE public.job_discounts SET amount = line_amount WHERE id = discount_record.id;
+    remaining := remaining - line_amount;
+    discount_total := discount_total + line_amount;
+  END LOOP;
+
+  factor := (subtotal - discount_total) / subtotal;
+
+  UPDATE public.job_line_items li
+  SET tax_amount = CASE WHEN li.taxable
+    THEN COALESCE(ROUND(
+      ROUND(li.quantity * li.unit_price, 2) * (SELECT percentage FROM public.tax_rates WHERE id = li.tax_rate_id) / 100 * factor,
+      2
+    ), 0)
+    ELSE 0
+  END
+  WHERE li.job_id = target_job_id;
+
+  -- Links built for the old price are dropped; the session id stays so the next checkout can expire it
+  UPDATE public.jobs j
+  SET discount_amount = discount_total,
+      tax_amount = totals.tax,
+      price = subtotal - discount_total + totals.tax + j.late_fee_amount,
+      payment_url = NULL,
+      stripe_checkout_url = NULL,
+      payment_url_expires_at = NULL
+  FROM (
+    SELECT COALESCE(SUM(tax_amount), 0) AS tax FROM public.job_line_items WHERE job_id = target_job_id
+  ) totals
+  WHERE j.id = target_job_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
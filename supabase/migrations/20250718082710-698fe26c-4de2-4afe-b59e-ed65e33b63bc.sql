@@ -0,0 +1,103 @@
+
+-- The client and job must belong to the same company as the note, or credit could be issued to another
+-- company's client
+DROP POLICY IF EXISTS "Users can insert their company credit notes" ON public.credit_notes;
+
+CREATE POLICY "Users can insert their company credit notes"
+ON public.credit_notes
+FOR INSERT
+WITH CHECK (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+  AND EXISTS (
+    SELECT 1 FROM public.clients
+    WHERE clients.id = credit_notes.client_id
+    AND clients.company_id = credit_notes.company_id
+  )
+  AND EXISTS (
+    SELECT 1 FROM public.jobs
+    WHERE jobs.id = credit_notes.job_id
+    AND jobs.company_id = credit_notes.company_id
+    AND jobs.client_id = credit_notes.client_id
+  )
+);
+
+DROP FUNCTION IF EXISTS public.client_credit_balance(uuid, text);
+
+-- Credit a company issued to the client in a currency, less what has already been applied to the
+-- client's jobs with that company, in cents
+CREATE OR REPLACE FUNCTION public.client_credit_balance(target_client_id uuid, target_company_id uuid, target_currency text)
+RETURNS integer AS $$
+  SELECT (
+    COALESCE((
+      SELECT SUM(amount) FROM public.credit_notes
+      WHERE client_id = target_client_id AND company_id = target_company_id AND currency = target_currency
+    ), 0) -
+    COALESCE((
+      SELECT SUM(p.amount) FROM public.payments p
+      JOIN public.jobs j ON j.id = p.job_id
+      WHERE j.client_id = target_client_id
+        AND j.company_id = target_company_id
+        AND p.payment_method = 'credit'
+        AND p.payment_status = 'paid'
+        AND p.currency = target_currency
+    ), 0)
+  )::integer;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Spends the client's credit on a job's amount due by recording a 'credit' payment. The client row
+-- is locked so two checkouts can't spend the same credit; returns NULL when nothing was applied
+CREATE OR REPLACE FUNCTION public.apply_client_credit(target_job_id uuid)
+RETURNS public.payments AS $$
+DECLARE
+  job_record public.jobs;
+  payment_record public.payments;
+  credit_available integer;
+  amount_due integer;
+  credit_applied integer;
+BEGIN
+  SELECT * INTO job_record FROM public.jobs WHERE id = target_job_id FOR UPDATE;
+
+  IF NOT FOUND OR job_record.client_id IS NULL OR job_record.status NOT IN ('pending', 'partially_paid') THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM 1 FROM public.clients WHERE id = job_record.client_id FOR UPDATE;
+
+  credit_available := public.client_credit_balance(job_record.client_id, job_record.company_id, job_record.currency);
+  IF credit_available <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT ROUND(job_record.price * 100)::integer - COALESCE(SUM(GREATEST(COALESCE(base_amount, amount) - refunded_base_amount, 0)), 0)
+  INTO amount_due
+  FROM public.payments
+  WHERE job_id = target_job_id AND payment_status IN ('paid', 'partially_refunded');
+
+  credit_applied := LEAST(credit_available, amount_due);
+  IF credit_applied <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.payments (job_id, amount, base_amount, tax_amount, currency, payment_status, payment_method, paid_at)
+  VALUES (
+    target_job_id,
+    credit_applied,
+    credit_applied,
+    ROUND(credit_applied * COALESCE(job_record.tax_amount, 0) / NULLIF(job_record.price, 0))::integer,
+    job_record.currency,
+    'paid',
+    'credit',
+    now()
+  )
+  RETURNING * INTO payment_record;
+
+  UPDATE public.jobs
+  SET status = CASE WHEN credit_applied >= amount_due THEN 'paid' ELSE 'partially_paid' END,
+      paid_at = CASE WHEN credit_applied >= amount_due THEN now() ELSE paid_at END
+  WHERE id = target_job_id;
+
+  RETURN payment_record;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
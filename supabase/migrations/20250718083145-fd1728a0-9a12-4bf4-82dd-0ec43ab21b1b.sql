@@ -0,0 +1,22 @@
+
+-- Removing a discount reprices the job, so like adding one it's only allowed before any payment
+DROP POLICY IF EXISTS "Users can delete their company job discounts" ON public.job_discounts;
+
+CREATE POLICY "Users can delete their company job discounts"
+ON public.job_discounts
+FOR DELETE
+USING (
+  company_id IN (
+    SELECT company_id FROM public.profiles WHERE id = auth.uid()
+  )
+  AND EXISTS (
+    SELECT 1 FROM public.jobs
+    WHERE jobs.id = job_discounts.job_id
+    AND jobs.status IN ('pending', 'test')
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM public.payments
+    WHERE payments.job_id = job_discounts.job_id
+    AND payments.payment_status IN ('paid', 'partially_refunded', 'processing')
+  )
+);
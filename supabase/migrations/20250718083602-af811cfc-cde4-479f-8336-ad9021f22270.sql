@@ -0,0 +1,4 @@
+
+-- How a Stripe payment was collected, so payment history can tell bank transfers from cards
+ALTER TABLE public.payments
+  ADD COLUMN IF NOT EXISTS stripe_payment_method_type text CHECK (stripe_payment_method_type IN ('card', 'us_bank_account'));
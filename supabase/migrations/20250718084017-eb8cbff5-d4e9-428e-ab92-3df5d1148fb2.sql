@@ -0,0 +1,138 @@
+
+-- Credit spent on a checkout is held by a 'pending' credit payment until the Stripe payment settles
+-- it (or the session expires and releases it), so held credit can't be spent twice
+CREATE OR REPLACE FUNCTION public.client_credit_balance(target_client_id uuid, target_company_id uuid, target_currency text)
+RETURNS integer AS $$
+  SELECT (
+    COALESCE((
+      SELECT SUM(amount) FROM public.credit_notes
+      WHERE client_id = target_client_id AND company_id = target_company_id AND currency = target_currency
+    ), 0) -
+    COALESCE((
+      SELECT SUM(p.amount) FROM public.payments p
+      JOIN public.jobs j ON j.id = p.job_id
+      WHERE j.client_id = target_client_id
+        AND j.company_id = target_company_id
+        AND p.payment_method = 'credit'
+        AND p.payment_status IN ('paid', 'pending')
+        AND p.currency = target_currency
+    ), 0)
+  )::integer;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Holds credit_amount of the client's credit for a checkout of the job's balance by recording a
+-- 'pending' credit payment. A job has one live checkout, so credit held for an earlier one is released
+-- first. The client row is locked so two checkouts can't hold the same credit; returns NULL when the
+-- client doesn't have that much credit or the job doesn't owe that much
+CREATE OR REPLACE FUNCTION public.reserve_client_credit(target_job_id uuid, credit_amount integer)
+RETURNS public.payments AS $$
+DECLARE
+  job_record public.jobs;
+  payment_record public.payments;
+  amount_due integer;
+  credit_available integer;
+BEGIN
+  SELECT * INTO job_record FROM public.jobs WHERE id = target_job_id FOR UPDATE;
+
+  IF NOT FOUND OR job_record.client_id IS NULL OR job_record.status NOT IN ('pending', 'partially_paid') THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM 1 FROM public.clients WHERE id = job_record.client_id FOR UPDATE;
+
+  SELECT ROUND(job_record.price * 100)::integer - COALESCE(SUM(GREATEST(COALESCE(base_amount, amount) - refunded_base_amount, 0)), 0)
+  INTO amount_due
+  FROM public.payments
+  WHERE job_id = target_job_id AND payment_status IN ('paid', 'partially_refunded');
+
+  -- Credit held for the job's earlier checkout is available again once that checkout is replaced
+  SELECT public.client_credit_balance(job_record.client_id, job_record.company_id, job_record.currency) + COALESCE(SUM(amount), 0)
+  INTO credit_available
+  FROM public.payments
+  WHERE job_id = target_job_id AND payment_method = 'credit' AND payment_status = 'pending';
+
+  IF credit_amount <= 0 OR credit_amount > amount_due OR credit_amount > credit_available THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.payments
+  SET payment_status = 'failed'
+  WHERE job_id = target_job_id AND payment_method = 'credit' AND payment_status = 'pending';
+
+  INSERT INTO public.payments (job_id, amount, base_amount, tax_amount, currency, payment_status, payment_method)
+  VALUES (
+    target_job_id,
+    credit_amount,
+    credit_amount,
+    ROUND(credit_amount * COALESCE(job_record.tax_amount, 0) / NULLIF(job_record.price, 0))::integer,
+    job_record.currency,
+    'pending',
+    'credit'
+  )
+  RETURNING * INTO payment_record;
+
+  RETURN payment_record;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_client_credit(uuid, integer) FROM PUBLIC, anon, authenticated;
+
+-- Pays the job's whole amount due from the client's credit by recording a 'credit' payment, releasing
+-- credit held for an earlier checkout of the job first. Returns NULL, spending nothing, unless the
+-- credit covers everything still owed
+CREATE OR REPLACE FUNCTION public.apply_client_credit(target_job_id uuid)
+RETURNS public.payments AS $$
+DECLARE
+  job_record public.jobs;
+  payment_record public.payments;
+  amount_due integer;
+  credit_available integer;
+BEGIN
+  SELECT * INTO job_record FROM public.jobs WHERE id = target_job_id FOR UPDATE;
+
+  IF NOT FOUND OR job_record.client_id IS NULL OR job_record.status NOT IN ('pending', 'partially_paid') THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM 1 FROM public.clients WHERE id = job_record.client_id FOR UPDATE;
+
+  SELECT ROUND(job_record.price * 100)::integer - COALESCE(SUM(GREATEST(COALESCE(base_amount, amount) - refunded_base_amount, 0)), 0)
+  INTO amount_due
+  FROM public.payments
+  WHERE job_id = target_job_id AND payment_status IN ('paid', 'partially_refunded');
+
+  -- Credit held for the job's earlier checkout is available again once that checkout is replaced
+  SELECT public.client_credit_balance(job_record.client_id, job_record.company_id, job_record.currency) + COALESCE(SUM(amount), 0)
+  INTO credit_available
+  FROM public.payments
+  WHERE job_id = target_job_id AND payment_method = 'credit' AND payment_status = 'pending';
+
+  IF amount_due <= 0 OR amount_due > credit_available THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.payments
+  SET payment_status = 'failed'
+  WHERE job_id = target_job_id AND payment_method = 'credit' AND payment_status = 'pending';
+
+  INSERT INTO public.payments (job_id, amount, base_amount, tax_amount, currency, payment_status, payment_method, paid_at)
+  VALUES (
+    target_job_id,
+    amount_due,
+    amount_due,
+    ROUND(amount_due * COALESCE(job_record.tax_amount, 0) / NULLIF(job_record.price, 0))::integer,
+    job_record.currency,
+    'paid',
+    'credit',
+    now()
+  )
+  RETURNING * INTO payment_record;
+
+  UPDATE public.jobs
+  SET status = 'paid',
+      paid_at = now()
+  WHERE id = target_job_id;
+
+  RETURN payment_record;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,44 @@
+
+-- Only invoice creation advances a company's sequence, so members can't set next_number directly and
+-- hand out a number twice
+DROP POLICY IF EXISTS "Users can insert their company invoice sequence" ON public.invoice_sequences;
+DROP POLICY IF EXISTS "Users can update their company invoice sequence" ON public.invoice_sequences;
+
+-- Invoice numbering settings for the caller's company; the next number can only move forward
+CREATE OR REPLACE FUNCTION public.set_invoice_numbering(new_prefix text, new_next_number integer)
+RETURNS void AS $$
+DECLARE
+  caller_company_id uuid;
+  current_next_number integer;
+BEGIN
+  SELECT company_id INTO caller_company_id
+  FROM public.profiles
+  WHERE id = auth.uid();
+
+  IF caller_company_id IS NULL THEN
+    RAISE EXCEPTION 'User profile not found';
+  END IF;
+
+  INSERT INTO public.invoice_sequences (company_id)
+  VALUES (caller_company_id)
+  ON CONFLICT (company_id) DO NOTHING;
+
+  -- Same row lock invoice creation takes, so a number handed out meanwhile is never reissued
+  SELECT next_number INTO current_next_number
+  FROM public.invoice_sequences
+  WHERE company_id = caller_company_id
+  FOR UPDATE;
+
+  IF new_next_number IS NULL OR new_next_number < current_next_number THEN
+    RAISE EXCEPTION 'Next number must be at least %', current_next_number;
+  END IF;
+
+  UPDATE public.invoice_sequences
+  SET prefix = COALESCE(NULLIF(trim(new_prefix), ''), prefix),
+      next_number = new_next_number
+  WHERE company_id = caller_company_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.set_invoice_numbering(text, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_invoice_numbering(text, integer) TO authenticated;
@@ -0,0 +1,89 @@
+
+-- reprice_job takes discounts off the line items, so a job priced without them would redeem a code
+-- without lowering its price. Discounts are refused on such jobs
+CREATE OR REPLACE FUNCTION public.validate_job_discount()
+RETURNS TRIGGER AS $$
+DECLARE
+  job_record public.jobs;
+  code_record public.discount_codes;
+  client_percentage DECIMAL(5,2);
+  uses integer;
+BEGIN
+  SELECT * INTO job_record FROM public.jobs WHERE id = NEW.job_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job not found';
+  END IF;
+
+  IF job_record.status NOT IN ('pending', 'test') OR EXISTS (
+    SELECT 1 FROM public.payments
+    WHERE job_id = NEW.job_id AND payment_status IN ('paid', 'partially_refunded', 'processing')
+  ) THEN
+    RAISE EXCEPTION 'Discounts can only be added before the job is paid';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.job_line_items
+    WHERE job_id = NEW.job_id AND ROUND(quantity * unit_price, 2) > 0
+  ) THEN
+    RAISE EXCEPTION 'Discounts can only be added to jobs with line items';
+  END IF;
+
+  NEW.company_id := job_record.company_id;
+
+  IF NEW.kind = 'client' THEN
+    SELECT discount_percentage INTO client_percentage FROM public.clients WHERE id = job_record.client_id;
+
+    IF client_percentage IS NULL THEN
+      RAISE EXCEPTION 'This client has no standing discount';
+    END IF;
+
+    NEW.discount_code_id := NULL;
+    NEW.discount_type := 'percentage';
+    NEW.value := client_percentage;
+    NEW.label := 'Client discount (' || TRIM(TRAILING '.' FROM TRIM(TRAILING '0' FROM client_percentage::text)) || '%)';
+    RETURN NEW;
+  END IF;
+
+  -- Locking the code serializes redemptions so usage limits hold under concurrent checkouts
+  SELECT * INTO code_record FROM public.discount_codes WHERE id = NEW.discount_code_id FOR UPDATE;
+
+  IF NOT FOUND OR code_record.company_id IS DISTINCT FROM job_record.company_id OR NOT code_record.active THEN
+    RAISE EXCEPTION 'This discount code is not valid';
+  END IF;
+
+  IF code_record.starts_at IS NOT NULL AND now() < code_record.starts_at THEN
+    RAISE EXCEPTION 'This discount code is not active yet';
+  END IF;
+
+  IF code_record.ends_at IS NOT NULL AND now() >= code_record.ends_at THEN
+    RAISE EXCEPTION 'This discount code has expired';
+  END IF;
+
+  IF code_record.discount_type = 'fixed' AND code_record.currency <> job_record.currency THEN
+    RAISE EXCEPTION 'This discount code can''t be used in this currency';
+  END IF;
+
+  IF code_record.max_uses IS NOT NULL THEN
+    SELECT COUNT(*) INTO uses FROM public.job_discounts WHERE discount_code_id = code_record.id;
+    IF uses >= code_record.max_uses THEN
+      RAISE EXCEPTION 'This discount code has been fully redeemed';
+    END IF;
+  END IF;
+
+  IF code_record.max_uses_per_client IS NOT NULL AND job_record.client_id IS NOT NULL THEN
+    SELECT COUNT(*) INTO uses
+    FROM public.job_discounts jd
+    JOIN public.jobs j ON j.id = jd.job_id
+    WHERE jd.discount_code_id = code_record.id AND j.client_id = job_record.client_id;
+    IF uses >= code_record.max_uses_per_client THEN
+      RAISE EXCEPTION 'This discount code has already been used';
+    END IF;
+  END IF;
+
+  NEW.discount_type := code_record.discount_type;
+  NEW.value := code_record.value;
+  NEW.label := 'Discount (' || code_record.code || ')';
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;